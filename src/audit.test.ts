@@ -0,0 +1,43 @@
+/**
+ * Audit Sink Tests
+ */
+
+import { InMemoryAuditSink } from './audit';
+
+describe('InMemoryAuditSink', () => {
+  let sink: InMemoryAuditSink;
+
+  beforeEach(async () => {
+    sink = new InMemoryAuditSink();
+    await sink.record({ action: 'user.created', tenantId: 'tenant_a', targetId: 'user_1', timestamp: new Date(1000) });
+    await sink.record({ action: 'auth.succeeded', tenantId: 'tenant_a', actorId: 'user_1', targetId: 'user_1', timestamp: new Date(2000) });
+    await sink.record({ action: 'user.deleted', tenantId: 'tenant_a', actorId: 'admin', targetId: 'user_2', timestamp: new Date(3000) });
+    await sink.record({ action: 'user.created', tenantId: 'tenant_b', targetId: 'user_3', timestamp: new Date(4000) });
+  });
+
+  it('should return all events oldest first', () => {
+    expect(sink.query().map(e => e.timestamp.getTime())).toEqual([1000, 2000, 3000, 4000]);
+  });
+
+  it('should filter by tenant and action', () => {
+    expect(sink.query({ tenantId: 'tenant_a' })).toHaveLength(3);
+    expect(sink.query({ tenantId: 'tenant_a', action: 'user.created' })).toHaveLength(1);
+  });
+
+  it('should match users as actor or target', () => {
+    expect(sink.query({ userId: 'user_1' })).toHaveLength(2);
+    expect(sink.query({ userId: 'admin' }).map(e => e.targetId)).toEqual(['user_2']);
+  });
+
+  it('should filter by time range with an exclusive upper bound', () => {
+    const events = sink.query({ from: new Date(2000), to: new Date(4000) });
+
+    expect(events.map(e => e.action)).toEqual(['auth.succeeded', 'user.deleted']);
+  });
+
+  it('should clear recorded events', () => {
+    sink.clear();
+
+    expect(sink.query()).toEqual([]);
+  });
+});
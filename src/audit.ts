@@ -0,0 +1,109 @@
+/**
+ * Audit events for identity operations
+ *
+ * The identity service reports user lifecycle changes, authentication
+ * attempts and session events to a pluggable AuditSink. Events never carry
+ * credentials or session tokens, since opaque session IDs are bearer secrets.
+ */
+
+import { TenantId, UserId } from './types';
+
+/**
+ * Audited operations
+ */
+export type AuditAction =
+  | 'user.created'
+  | 'user.updated'
+  | 'user.deleted'
+  | 'user.phone_changed'
+  | 'user.email_verified'
+  | 'membership.added'
+  | 'membership.removed'
+  | 'auth.succeeded'
+  | 'auth.failed'
+  | 'session.logout'
+  | 'session.logout_all'
+  | 'session.tenant_switched'
+  | 'session.validation_failed';
+
+/**
+ * Caller details attached to an audited operation
+ */
+export interface AuditContext {
+  /**
+   * User performing the operation, if different from the target (e.g. an admin)
+   */
+  actorId?: UserId;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Structured audit event
+ */
+export interface AuditEvent {
+  action: AuditAction;
+  timestamp: Date;
+  tenantId?: TenantId;
+  actorId?: UserId;
+  targetId?: UserId;
+  reason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Audit event destination - implement this for your log pipeline or database
+ */
+export interface AuditSink {
+  record(event: AuditEvent): Promise<void>;
+}
+
+/**
+ * Audit event query - all criteria are optional and combined with AND
+ */
+export interface AuditQuery {
+  tenantId?: TenantId;
+  /**
+   * Matches events where the user is either the actor or the target
+   */
+  userId?: UserId;
+  action?: AuditAction;
+  /**
+   * Inclusive lower bound on the event timestamp
+   */
+  from?: Date;
+  /**
+   * Exclusive upper bound on the event timestamp
+   */
+  to?: Date;
+}
+
+/**
+ * In-memory audit sink for testing and development
+ */
+export class InMemoryAuditSink implements AuditSink {
+  readonly events: AuditEvent[] = [];
+
+  async record(event: AuditEvent): Promise<void> {
+    this.events.push(event);
+  }
+
+  /**
+   * Find recorded events, oldest first
+   */
+  query(query: AuditQuery = {}): AuditEvent[] {
+    return this.events.filter(event => {
+      if (query.tenantId && event.tenantId !== query.tenantId) return false;
+      if (query.userId && event.actorId !== query.userId && event.targetId !== query.userId) return false;
+      if (query.action && event.action !== query.action) return false;
+      if (query.from && event.timestamp < query.from) return false;
+      if (query.to && event.timestamp >= query.to) return false;
+      return true;
+    });
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
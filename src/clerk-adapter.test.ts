@@ -15,9 +15,11 @@ import {
   ClerkSessionClaims,
   clerkUserToProfile,
   extractTenantContext,
+  toClerkUserInput,
 } from './clerk-adapter';
-import { IdentityService } from './identity-service';
+import { IdentityService, IdentityServiceConfig } from './identity-service';
 import { InMemoryUserStorage, InMemorySessionStorage } from './storage';
+import { InvalidSessionError, NoActiveTenantError, UserExistsError, UserNotFoundError } from './errors';
 
 describe('MockClerkAdapter', () => {
   let adapter: MockClerkAdapter;
@@ -181,15 +183,16 @@ describe('MockClerkAdapter', () => {
       
       const members = await adapter.listOrganizationMembers('org_1');
       
-      expect(members).toHaveLength(2);
-      expect(members.map(m => m.id)).toContain('user_1');
-      expect(members.map(m => m.id)).toContain('user_2');
+      expect(members.items).toHaveLength(2);
+      expect(members.items.map(m => m.id)).toContain('user_1');
+      expect(members.items.map(m => m.id)).toContain('user_2');
+      expect(members.total).toBe(2);
     });
 
     it('should return empty array for unknown org', async () => {
       const members = await adapter.listOrganizationMembers('unknown_org');
       
-      expect(members).toEqual([]);
+      expect(members.items).toEqual([]);
     });
 
     it('should enforce tenant isolation - org members only', async () => {
@@ -201,11 +204,61 @@ describe('MockClerkAdapter', () => {
       const org1Members = await adapter.listOrganizationMembers('org_1');
       const org2Members = await adapter.listOrganizationMembers('org_2');
       
-      expect(org1Members).toHaveLength(1);
-      expect(org1Members[0].id).toBe('user_1');
+      expect(org1Members.items).toHaveLength(1);
+      expect(org1Members.items[0].id).toBe('user_1');
       
-      expect(org2Members).toHaveLength(1);
-      expect(org2Members[0].id).toBe('user_2');
+      expect(org2Members.items).toHaveLength(1);
+      expect(org2Members.items[0].id).toBe('user_2');
+    });
+
+    it('should get a single membership with its role', async () => {
+      adapter.addUser(user1);
+      adapter.addOrgMember('org_1', 'user_1', 'org:admin');
+
+      expect(await adapter.getOrganizationMembership('org_1', 'user_1')).toEqual({
+        organizationId: 'org_1',
+        userId: 'user_1',
+        role: 'org:admin',
+      });
+      expect(await adapter.getOrganizationMembership('org_2', 'user_1')).toBeNull();
+    });
+
+    it('should drop removed members', async () => {
+      adapter.addUser(user1);
+      adapter.addOrgMember('org_1', 'user_1');
+      adapter.removeOrgMember('org_1', 'user_1');
+
+      expect(await adapter.getOrganizationMembership('org_1', 'user_1')).toBeNull();
+      expect((await adapter.listOrganizationMembers('org_1')).items).toEqual([]);
+    });
+  });
+
+  describe('user writes', () => {
+    it('should create, update and delete users', async () => {
+      const created = await adapter.createUser({ phoneNumber: '+2348012345678', emailAddress: 'ada@example.com' });
+      await adapter.addOrganizationMember('org_1', created.id);
+
+      const updated = await adapter.updateUser(created.id, { emailAddress: 'ada@new.example.com', firstName: 'Ada' });
+
+      expect(updated?.firstName).toBe('Ada');
+      expect(await adapter.getUserByEmail('ada@example.com')).toBeNull();
+      expect((await adapter.getUserByEmail('ada@new.example.com'))?.id).toBe(created.id);
+
+      await adapter.deleteUser(created.id);
+      expect(await adapter.getUserByPhone('+2348012345678')).toBeNull();
+      expect(await adapter.getOrganizationMembership('org_1', created.id)).toBeNull();
+    });
+
+    it('should reject identifiers held by another user', async () => {
+      await adapter.createUser({ phoneNumber: '+2348012345678', emailAddress: 'ada@example.com' });
+      const bob = await adapter.createUser({ phoneNumber: '+2348031234567' });
+
+      await expect(adapter.createUser({ phoneNumber: '+2348012345678' })).rejects.toMatchObject({ status: 422 });
+      await expect(adapter.updateUser(bob.id, { emailAddress: 'ADA@example.com' })).rejects.toMatchObject({ status: 422 });
+    });
+
+    it('should not add unknown users to organizations', async () => {
+      await expect(adapter.addOrganizationMember('org_1', 'missing')).rejects.toMatchObject({ status: 404 });
     });
   });
 
@@ -234,7 +287,7 @@ describe('MockClerkAdapter', () => {
       
       expect(await adapter.getUser('user_1')).toBeNull();
       expect(await adapter.verifySession('token')).toBeNull();
-      expect(await adapter.listOrganizationMembers('org_1')).toEqual([]);
+      expect((await adapter.listOrganizationMembers('org_1')).items).toEqual([]);
     });
   });
 });
@@ -271,6 +324,29 @@ describe('clerkUserToProfile', () => {
     expect(profile.updatedAt).toEqual(new Date(1700001000000));
   });
 
+  it('should map verification status of the primary email and phone', () => {
+    const clerkUser: ClerkUser = {
+      id: 'user_123',
+      primaryEmailAddressId: 'email_2',
+      emailAddresses: [
+        { id: 'email_1', emailAddress: 'old@example.com', verified: false },
+        { id: 'email_2', emailAddress: 'test@example.com', verified: true },
+      ],
+      phoneNumbers: [
+        { id: 'phone_1', phoneNumber: '+2348012345678' },
+      ],
+      publicMetadata: {},
+      privateMetadata: {},
+      createdAt: 1700000000000,
+      updatedAt: 1700001000000,
+    };
+
+    const profile = clerkUserToProfile(clerkUser, 'tenant_1');
+
+    expect(profile.emailVerified).toBe(true);
+    expect(profile.phoneVerified).toBe(false);
+  });
+
   it('should handle missing optional fields', () => {
     const clerkUser: ClerkUser = {
       id: 'user_456',
@@ -291,6 +367,26 @@ describe('clerkUserToProfile', () => {
   });
 });
 
+describe('toClerkUserInput', () => {
+  it('should split the display name into first and last name', () => {
+    expect(toClerkUserInput({ displayName: 'Ada King Lovelace' })).toEqual({ firstName: 'Ada', lastName: 'King Lovelace' });
+    expect(toClerkUserInput({ displayName: 'Ada' })).toEqual({ firstName: 'Ada', lastName: null });
+  });
+
+  it('should map metadata to public metadata without the Clerk ID or roles', () => {
+    expect(toClerkUserInput({ metadata: { tier: 'gold', clerkId: 'user_123', roles: ['admin'] } })).toEqual({
+      publicMetadata: { tier: 'gold' },
+    });
+  });
+
+  it('should leave omitted fields out', () => {
+    expect(toClerkUserInput({ phone: '+2348012345678', email: 'ada@example.com' })).toEqual({
+      phoneNumber: '+2348012345678',
+      emailAddress: 'ada@example.com',
+    });
+  });
+});
+
 describe('extractTenantContext', () => {
   it('should extract tenant context from claims', () => {
     const claims: ClerkSessionClaims = {
@@ -315,7 +411,7 @@ describe('extractTenantContext', () => {
     expect(context.expiresAt).toEqual(new Date(1700003600000));
   });
 
-  it('should use default tenant if org_id is missing', () => {
+  it('should reject claims without a tenant', () => {
     const claims: ClerkSessionClaims = {
       sub: 'user_123',
       sid: 'session_456',
@@ -323,9 +419,20 @@ describe('extractTenantContext', () => {
       exp: 1700003600,
     };
     
-    const context = extractTenantContext(claims);
+    expect(() => extractTenantContext(claims)).toThrow(NoActiveTenantError);
+  });
+
+  it('should use a resolved tenant if org_id is missing', () => {
+    const claims: ClerkSessionClaims = {
+      sub: 'user_123',
+      sid: 'session_456',
+      iat: 1700000000,
+      exp: 1700003600,
+    };
     
-    expect(context.tenantId).toBe('default');
+    const context = extractTenantContext(claims, 'personal_user_123');
+    
+    expect(context.tenantId).toBe('personal_user_123');
     expect(context.roles).toEqual([]);
   });
 });
@@ -408,6 +515,133 @@ describe('IdentityService with Clerk Adapter', () => {
     });
   });
 
+  describe('tenant resolution with Clerk', () => {
+    const claims: ClerkSessionClaims = {
+      sub: 'user_123',
+      sid: 'session_456',
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    };
+
+    const clerkUser: ClerkUser = {
+      id: 'user_123',
+      emailAddresses: [],
+      phoneNumbers: [],
+      publicMetadata: {},
+      privateMetadata: {},
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+
+    const serviceWith = (tenantResolution: IdentityServiceConfig['tenantResolution']): IdentityService =>
+      new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        clerkAdapter: adapter,
+        tenantResolution,
+      });
+
+    it('should reject sessions without an active organization by default', async () => {
+      adapter.addSession('no_org_token', claims);
+
+      const validation = await service.validateSession('no_org_token');
+
+      expect(validation).toMatchObject({ valid: false, code: 'NO_ACTIVE_TENANT' });
+      await expect(service.assertTenantContext('no_org_token')).rejects.toThrow(NoActiveTenantError);
+      await expect(service.resolveIdentity('no_org_token')).rejects.toThrow(NoActiveTenantError);
+    });
+
+    it('should not report NO_ACTIVE_TENANT for invalid sessions', async () => {
+      const validation = await service.validateSession('invalid_token');
+
+      expect(validation.code).toBeUndefined();
+      await expect(service.assertTenantContext('invalid_token')).rejects.toThrow(InvalidSessionError);
+    });
+
+    it('should scope sessions to a personal workspace', async () => {
+      const personal = serviceWith({ mode: 'personal' });
+      adapter.addUser(clerkUser);
+      adapter.addSession('no_org_token', claims);
+
+      const identity = await personal.resolveIdentity('no_org_token');
+
+      expect(identity.tenantId).toBe('personal_user_123');
+      expect(identity.profile.tenantId).toBe('personal_user_123');
+      expect(await personal.getUser('personal_user_124', 'user_123')).toBeNull();
+    });
+
+    it('should resolve the tenant from org_slug', async () => {
+      const slugs = serviceWith({
+        mode: 'slug',
+        resolveTenant: async slug => (slug === 'acme' ? 'org_acme' : null),
+      });
+      adapter.addUser(clerkUser);
+      await adapter.addOrganizationMember('org_acme', 'user_123', 'org:admin');
+      adapter.addSession('acme_token', { ...claims, org_slug: 'acme' });
+      adapter.addSession('unknown_token', { ...claims, org_slug: 'unknown' });
+
+      expect(await slugs.assertTenantContext('acme_token')).toMatchObject({ tenantId: 'org_acme', roles: ['org:admin'] });
+      await expect(slugs.assertTenantContext('unknown_token')).rejects.toThrow(NoActiveTenantError);
+      await expect(slugs.assertTenantContext('no_such_token')).rejects.toThrow(InvalidSessionError);
+    });
+
+    it('should not resolve a slug to a tenant the user does not belong to', async () => {
+      const slugs = serviceWith({ mode: 'slug', resolveTenant: () => 'org_acme' });
+      adapter.addUser(clerkUser);
+      adapter.addSession('acme_token', { ...claims, org_slug: 'acme', metadata: { roles: ['admin'] } });
+
+      expect(await slugs.validateSession('acme_token')).toMatchObject({ valid: false, code: 'NO_ACTIVE_TENANT' });
+    });
+
+    it('should resolve the tenant from a per-request slug', async () => {
+      const slugs = serviceWith({
+        mode: 'slug',
+        resolveTenant: slug => (slug === 'acme' ? 'org_acme' : null),
+      });
+      adapter.addUser(clerkUser);
+      await adapter.addOrganizationMember('org_acme', 'user_123');
+      adapter.addSession('no_org_token', claims);
+
+      expect((await slugs.assertTenantContext('no_org_token', { tenantSlug: 'acme' })).tenantId).toBe('org_acme');
+      await expect(slugs.assertTenantContext('no_org_token')).rejects.toThrow(NoActiveTenantError);
+    });
+
+    it('should prefer the active organization over the policy', async () => {
+      const personal = serviceWith({ mode: 'personal' });
+      adapter.addSession('org_token', { ...claims, org_id: 'tenant_1' });
+
+      expect((await personal.assertTenantContext('org_token')).tenantId).toBe('tenant_1');
+    });
+  });
+
+  describe('authorize with Clerk', () => {
+    const claims: ClerkSessionClaims = {
+      sub: 'user_abc',
+      sid: 'session_xyz',
+      org_id: 'tenant_acme',
+      org_role: 'org:member',
+      org_permissions: ['org:reports:read'],
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    };
+
+    it('should grant permissions carried by Clerk claims', async () => {
+      adapter.addSession('perm_token', claims);
+
+      const context = await service.authorize('perm_token', 'org:reports:read');
+
+      expect(context.permissions).toContain('org:reports:read');
+    });
+
+    it('should map Clerk roles through tenant role definitions', async () => {
+      adapter.addSession('perm_token', claims);
+      await service.defineRole('tenant_acme', 'org:member', ['orders:read']);
+
+      await expect(service.authorize('perm_token', 'orders:read')).resolves.toBeDefined();
+      await expect(service.authorize('perm_token', 'orders:write')).rejects.toThrow('Permission denied');
+    });
+  });
+
   describe('assertTenantContext with Clerk', () => {
     it('should return tenant context from valid session', async () => {
       const clerkUser: ClerkUser = {
@@ -445,7 +679,89 @@ describe('IdentityService with Clerk Adapter', () => {
     it('should throw for invalid session', async () => {
       await expect(
         service.assertTenantContext('bad_token')
-      ).rejects.toThrow('Unauthorized');
+      ).rejects.toThrow(InvalidSessionError);
+    });
+  });
+
+  describe('user management with Clerk', () => {
+    it('should create users in Clerk and the tenant organization', async () => {
+      const created = await service.createUser({
+        tenantId: 'tenant_1',
+        phone: '08012345678',
+        email: 'ada@example.com',
+        displayName: 'Ada Lovelace',
+      });
+
+      const clerkUser = await adapter.getUser(created.userId);
+      expect(clerkUser).toMatchObject({ firstName: 'Ada', lastName: 'Lovelace' });
+      expect(await adapter.getOrganizationMembership('tenant_1', created.userId)).not.toBeNull();
+      expect(await service.getUser('tenant_1', created.userId)).toMatchObject({
+        phone: '+2348012345678',
+        email: 'ada@example.com',
+        displayName: 'Ada Lovelace',
+      });
+    });
+
+    it('should reject phone numbers held by any Clerk user', async () => {
+      await service.createUser({ tenantId: 'tenant_1', phone: '08012345678' });
+
+      await expect(
+        service.createUser({ tenantId: 'tenant_2', phone: '08012345678' })
+      ).rejects.toBeInstanceOf(UserExistsError);
+    });
+
+    it('should update names, metadata and email in Clerk', async () => {
+      const created = await service.createUser({ tenantId: 'tenant_1', phone: '08012345678', email: 'ada@example.com' });
+
+      const updated = await service.updateUser('tenant_1', created.userId, {
+        displayName: 'Ada King',
+        email: 'ada@new.example.com',
+        metadata: { tier: 'gold' },
+      });
+
+      expect(updated).toMatchObject({ displayName: 'Ada King', email: 'ada@new.example.com', emailVerified: false });
+      expect(updated.metadata).toEqual({ tier: 'gold', clerkId: created.userId });
+      expect(await service.getUserByEmail('tenant_1', 'ada@example.com')).toBeNull();
+    });
+
+    it('should merge metadata without touching keys or roles shared with other tenants', async () => {
+      const created = await service.createUser({ tenantId: 'tenant_1', phone: '08012345678', metadata: { plan: 'pro' } });
+      await adapter.updateUser(created.userId, { publicMetadata: { roles: ['cashier'] } });
+
+      const updated = await service.updateUser('tenant_1', created.userId, { metadata: { tier: 'gold', roles: ['admin'] } });
+
+      expect(updated.metadata).toEqual({ plan: 'pro', roles: ['cashier'], tier: 'gold', clerkId: created.userId });
+    });
+
+    it('should not update users outside the tenant', async () => {
+      const created = await service.createUser({ tenantId: 'tenant_1', phone: '08012345678' });
+
+      await expect(
+        service.updateUser('tenant_2', created.userId, { displayName: 'Mallory' })
+      ).rejects.toBeInstanceOf(UserNotFoundError);
+      expect((await adapter.getUser(created.userId))?.firstName).toBeUndefined();
+    });
+
+    it('should delete users from Clerk', async () => {
+      const created = await service.createUser({ tenantId: 'tenant_1', phone: '08012345678' });
+      await expect(service.deleteUser('tenant_2', created.userId)).rejects.toBeInstanceOf(UserNotFoundError);
+
+      await service.deleteUser('tenant_1', created.userId);
+
+      expect(await adapter.getUser(created.userId)).toBeNull();
+      expect(await service.getUser('tenant_1', created.userId)).toBeNull();
+    });
+
+    it('should add and remove organization memberships', async () => {
+      const created = await service.createUser({ tenantId: 'tenant_1', phone: '08012345678' });
+
+      const member = await service.addMembership('tenant_2', created.userId);
+      expect(member.tenantId).toBe('tenant_2');
+      expect(await service.getUser('tenant_2', created.userId)).not.toBeNull();
+
+      await service.removeMembership('tenant_2', created.userId);
+      expect(await service.getUser('tenant_2', created.userId)).toBeNull();
+      expect(await service.getUser('tenant_1', created.userId)).not.toBeNull();
     });
   });
 
@@ -495,6 +811,48 @@ describe('IdentityService with Clerk Adapter', () => {
 
       expect(user).toBeNull();
     });
+
+    it('should check membership without listing the organization', async () => {
+      const listSpy = jest.spyOn(adapter, 'listOrganizationMembers');
+
+      await service.getUser('tenant_1', 'user_lookup');
+
+      expect(listSpy).not.toHaveBeenCalled();
+    });
+
+    it('should cache membership checks', async () => {
+      const membershipSpy = jest.spyOn(adapter, 'getOrganizationMembership');
+
+      await service.getUser('tenant_1', 'user_lookup');
+      await service.getUserByEmail('tenant_1', 'lookup@example.com');
+      await service.getUser('tenant_2', 'user_lookup');
+      await service.getUser('tenant_2', 'user_lookup');
+
+      expect(membershipSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refetch membership after invalidation', async () => {
+      expect(await service.getUser('tenant_1', 'user_lookup')).not.toBeNull();
+
+      adapter.removeOrgMember('tenant_1', 'user_lookup');
+      expect(await service.getUser('tenant_1', 'user_lookup')).not.toBeNull();
+
+      service.invalidateMembership('tenant_1', 'user_lookup');
+      expect(await service.getUser('tenant_1', 'user_lookup')).toBeNull();
+    });
+
+    it('should not cache memberships when the TTL is zero', async () => {
+      const uncached = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        clerkAdapter: adapter,
+        membershipCacheTtlMs: 0,
+      });
+
+      expect(await uncached.getUser('tenant_1', 'user_lookup')).not.toBeNull();
+      adapter.removeOrgMember('tenant_1', 'user_lookup');
+      expect(await uncached.getUser('tenant_1', 'user_lookup')).toBeNull();
+    });
   });
 
   describe('listUsers with Clerk', () => {
@@ -526,9 +884,9 @@ describe('IdentityService with Clerk Adapter', () => {
 
       const users = await service.listUsers('tenant_list');
 
-      expect(users).toHaveLength(2);
-      expect(users.map(u => u.userId)).toContain('member_1');
-      expect(users.map(u => u.userId)).toContain('member_2');
+      expect(users.items).toHaveLength(2);
+      expect(users.items.map(u => u.userId)).toContain('member_1');
+      expect(users.items.map(u => u.userId)).toContain('member_2');
     });
 
     it('should respect pagination', async () => {
@@ -546,11 +904,29 @@ describe('IdentityService with Clerk Adapter', () => {
         adapter.addOrgMember('paginated_tenant', `paginated_user_${i}`);
       }
 
-      const page1 = await service.listUsers('paginated_tenant', { limit: 2, offset: 0 });
-      const page2 = await service.listUsers('paginated_tenant', { limit: 2, offset: 2 });
+      const page1 = await service.listUsers('paginated_tenant', { limit: 2 });
+      const page2 = await service.listUsers('paginated_tenant', { limit: 2, cursor: page1.nextCursor });
+      const page3 = await service.listUsers('paginated_tenant', { limit: 2, cursor: page2.nextCursor });
+
+      expect(page1.items).toHaveLength(2);
+      expect(page2.items).toHaveLength(2);
+      expect(page3.items).toHaveLength(1);
+      expect(page3.nextCursor).toBeUndefined();
+      expect(new Set([...page1.items, ...page2.items, ...page3.items].map(u => u.userId)).size).toBe(5);
+    });
+
+    it('should filter members by display name prefix and metadata key', async () => {
+      const base = { phoneNumbers: [], privateMetadata: {}, updatedAt: Date.now() };
+      adapter.addUser({ ...base, id: 'f1', firstName: 'Ada', emailAddresses: [], publicMetadata: { vip: true }, createdAt: 1 });
+      adapter.addUser({ ...base, id: 'f2', firstName: 'Adaeze', emailAddresses: [], publicMetadata: {}, createdAt: 2 });
+      adapter.addUser({ ...base, id: 'f3', firstName: 'Bola', emailAddresses: [], publicMetadata: { vip: true }, createdAt: 3 });
+      ['f1', 'f2', 'f3'].forEach(id => adapter.addOrgMember('filter_tenant', id));
+
+      const byName = await service.listUsers('filter_tenant', { displayNamePrefix: 'ada' });
+      const byMetadata = await service.listUsers('filter_tenant', { metadataKey: 'vip', order: 'desc' });
 
-      expect(page1).toHaveLength(2);
-      expect(page2).toHaveLength(2);
+      expect(byName.items.map(u => u.userId)).toEqual(['f1', 'f2']);
+      expect(byMetadata.items.map(u => u.userId)).toEqual(['f3', 'f1']);
     });
   });
 
@@ -572,8 +948,8 @@ describe('IdentityService with Clerk Adapter', () => {
       const tenantAUsers = await service.listUsers('tenant_a');
       const tenantBUsers = await service.listUsers('tenant_b');
 
-      expect(tenantAUsers).toHaveLength(1);
-      expect(tenantBUsers).toHaveLength(0);
+      expect(tenantAUsers.items).toHaveLength(1);
+      expect(tenantBUsers.items).toHaveLength(0);
     });
 
     it('should enforce tenant context in identity resolution', async () => {
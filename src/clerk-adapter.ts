@@ -5,7 +5,19 @@
  * Authentication happens outside this module - this is purely an adapter/resolver.
  */
 
-import { TenantId, UserId, RoleId, UserProfile } from './types';
+import {
+  TenantId,
+  UserId,
+  RoleId,
+  Permission,
+  PhoneNumber,
+  UserProfile,
+  UpdateUserInput,
+  ListUsersOptions,
+  Page,
+} from './types';
+import { matchesUserFilters, paginateByCreatedAt } from './pagination';
+import { NoActiveTenantError, ClerkApiError } from './errors';
 
 /**
  * Clerk session claims structure
@@ -16,6 +28,7 @@ export interface ClerkSessionClaims {
   org_id?: string;
   org_role?: string;
   org_slug?: string;
+  org_permissions?: string[];
   metadata?: Record<string, unknown>;
   iat: number;
   exp: number;
@@ -31,10 +44,12 @@ export interface ClerkUser {
   emailAddresses: Array<{
     id: string;
     emailAddress: string;
+    verified?: boolean;
   }>;
   phoneNumbers: Array<{
     id: string;
     phoneNumber: string;
+    verified?: boolean;
   }>;
   firstName?: string;
   lastName?: string;
@@ -44,6 +59,34 @@ export interface ClerkUser {
   updatedAt: number;
 }
 
+/**
+ * Clerk organization membership
+ */
+export interface ClerkOrganizationMembership {
+  organizationId: string;
+  userId: string;
+  role: string;
+}
+
+/**
+ * Fields written to a Clerk user
+ *
+ * Omitted fields are left unchanged on update; null clears a name.
+ */
+export interface ClerkUserInput {
+  phoneNumber?: string;
+  /**
+   * Replaces the primary email address
+   */
+  emailAddress?: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  /**
+   * Merged into the user's public metadata; null values remove keys
+   */
+  publicMetadata?: Record<string, unknown>;
+}
+
 /**
  * Clerk adapter interface - allows mocking in tests
  */
@@ -52,9 +95,26 @@ export interface ClerkAdapterInterface {
   getUser(userId: string): Promise<ClerkUser | null>;
   getUserByEmail(email: string): Promise<ClerkUser | null>;
   getUserByPhone(phone: string): Promise<ClerkUser | null>;
-  listOrganizationMembers(orgId: string): Promise<ClerkUser[]>;
+  listOrganizationMembers(orgId: string, options?: ListUsersOptions): Promise<Page<ClerkUser>>;
+  getOrganizationMembership(orgId: string, userId: string): Promise<ClerkOrganizationMembership | null>;
+  createUser(input: ClerkUserInput): Promise<ClerkUser>;
+  /**
+   * @returns The updated user, or null if the user does not exist
+   */
+  updateUser(userId: string, input: ClerkUserInput): Promise<ClerkUser | null>;
+  /**
+   * Delete a user from Clerk, removing them from every organization
+   */
+  deleteUser(userId: string): Promise<void>;
+  addOrganizationMember(orgId: string, userId: string, role?: string): Promise<ClerkOrganizationMembership>;
+  removeOrganizationMember(orgId: string, userId: string): Promise<void>;
 }
 
+/**
+ * Default role of organization members created through the adapter
+ */
+export const DEFAULT_ORGANIZATION_ROLE = 'org:member';
+
 /**
  * Session token verification result
  */
@@ -71,6 +131,7 @@ export interface ClerkTenantContext {
   tenantId: TenantId;
   userId: UserId;
   roles: RoleId[];
+  permissions: Permission[];
   metadata: Record<string, unknown>;
   sessionId: string;
   issuedAt: Date;
@@ -87,7 +148,8 @@ export class MockClerkAdapter implements ClerkAdapterInterface {
   private users: Map<string, ClerkUser> = new Map();
   private emailIndex: Map<string, string> = new Map();
   private phoneIndex: Map<string, string> = new Map();
-  private orgMembers: Map<string, Set<string>> = new Map();
+  private orgMembers: Map<string, Map<string, string>> = new Map();
+  private nextId = 1;
 
   addSession(token: string, claims: ClerkSessionClaims): void {
     this.sessions.set(token, claims);
@@ -122,11 +184,15 @@ export class MockClerkAdapter implements ClerkAdapterInterface {
     }
   }
 
-  addOrgMember(orgId: string, userId: string): void {
+  addOrgMember(orgId: string, userId: string, role = DEFAULT_ORGANIZATION_ROLE): void {
     if (!this.orgMembers.has(orgId)) {
-      this.orgMembers.set(orgId, new Set());
+      this.orgMembers.set(orgId, new Map());
     }
-    this.orgMembers.get(orgId)!.add(userId);
+    this.orgMembers.get(orgId)!.set(userId, role);
+  }
+
+  removeOrgMember(orgId: string, userId: string): void {
+    this.orgMembers.get(orgId)?.delete(userId);
   }
 
   async verifySession(sessionToken: string): Promise<ClerkSessionClaims | null> {
@@ -158,16 +224,117 @@ export class MockClerkAdapter implements ClerkAdapterInterface {
     return this.users.get(userId) || null;
   }
 
-  async listOrganizationMembers(orgId: string): Promise<ClerkUser[]> {
+  async listOrganizationMembers(orgId: string, options: ListUsersOptions = {}): Promise<Page<ClerkUser>> {
     const memberIds = this.orgMembers.get(orgId);
-    if (!memberIds) return [];
+    if (!memberIds) return { items: [], total: 0 };
     
     const members: ClerkUser[] = [];
-    for (const userId of memberIds) {
+    for (const userId of memberIds.keys()) {
       const user = this.users.get(userId);
-      if (user) members.push(user);
+      if (user && matchesUserFilters(clerkUserToProfile(user, orgId), options)) {
+        members.push(user);
+      }
+    }
+    return paginateByCreatedAt(members, options, user => ({ createdAt: user.createdAt, id: user.id }));
+  }
+
+  async getOrganizationMembership(orgId: string, userId: string): Promise<ClerkOrganizationMembership | null> {
+    const role = this.orgMembers.get(orgId)?.get(userId);
+    if (!role || !this.users.has(userId)) return null;
+    return { organizationId: orgId, userId, role };
+  }
+
+  /**
+   * Create a user, rejecting taken identifiers with a 422 like the Backend API
+   */
+  async createUser(input: ClerkUserInput): Promise<ClerkUser> {
+    this.assertIdentifiersAvailable(input);
+
+    const id = `user_mock_${this.nextId++}`;
+    const now = Date.now();
+    const user: ClerkUser = {
+      id,
+      emailAddresses: [],
+      phoneNumbers: [],
+      publicMetadata: {},
+      privateMetadata: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (input.phoneNumber) {
+      const phoneId = `phone_mock_${this.nextId++}`;
+      user.phoneNumbers.push({ id: phoneId, phoneNumber: input.phoneNumber, verified: false });
+      user.primaryPhoneNumberId = phoneId;
+    }
+
+    this.addUser(this.applyUserInput(user, input));
+    return this.users.get(id)!;
+  }
+
+  async updateUser(userId: string, input: ClerkUserInput): Promise<ClerkUser | null> {
+    const user = this.users.get(userId);
+    if (!user) return null;
+    this.assertIdentifiersAvailable(input, userId);
+
+    this.removeUser(userId);
+    this.addUser(this.applyUserInput({ ...user, updatedAt: Date.now() }, input));
+    return this.users.get(userId)!;
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    this.removeUser(userId);
+    for (const members of this.orgMembers.values()) {
+      members.delete(userId);
     }
-    return members;
+  }
+
+  async addOrganizationMember(
+    orgId: string,
+    userId: string,
+    role = DEFAULT_ORGANIZATION_ROLE
+  ): Promise<ClerkOrganizationMembership> {
+    if (!this.users.has(userId)) {
+      throw new ClerkApiError(404, 'User not found');
+    }
+    this.addOrgMember(orgId, userId, role);
+    return { organizationId: orgId, userId, role };
+  }
+
+  async removeOrganizationMember(orgId: string, userId: string): Promise<void> {
+    this.removeOrgMember(orgId, userId);
+  }
+
+  private assertIdentifiersAvailable(input: ClerkUserInput, userId?: string): void {
+    const phoneOwner = input.phoneNumber && this.phoneIndex.get(input.phoneNumber);
+    const emailOwner = input.emailAddress && this.emailIndex.get(input.emailAddress.toLowerCase());
+    if ((phoneOwner && phoneOwner !== userId) || (emailOwner && emailOwner !== userId)) {
+      throw new ClerkApiError(422, 'form_identifier_exists');
+    }
+  }
+
+  private applyUserInput(user: ClerkUser, input: ClerkUserInput): ClerkUser {
+    const updated = { ...user };
+
+    if (input.emailAddress !== undefined) {
+      const emailId = `email_mock_${this.nextId++}`;
+      updated.emailAddresses = [
+        ...updated.emailAddresses.filter(e => e.id !== user.primaryEmailAddressId),
+        { id: emailId, emailAddress: input.emailAddress, verified: false },
+      ];
+      updated.primaryEmailAddressId = emailId;
+    }
+    if (input.firstName !== undefined) updated.firstName = input.firstName ?? undefined;
+    if (input.lastName !== undefined) updated.lastName = input.lastName ?? undefined;
+    if (input.publicMetadata !== undefined) {
+      const publicMetadata = { ...updated.publicMetadata, ...input.publicMetadata };
+      for (const [key, value] of Object.entries(input.publicMetadata)) {
+        if (value === null) delete publicMetadata[key];
+      }
+      updated.publicMetadata = publicMetadata;
+    }
+
+    return updated;
   }
 
   clear(): void {
@@ -185,17 +352,19 @@ export class MockClerkAdapter implements ClerkAdapterInterface {
 export function clerkUserToProfile(clerkUser: ClerkUser, tenantId: TenantId): UserProfile {
   const primaryEmail = clerkUser.emailAddresses.find(
     e => e.id === clerkUser.primaryEmailAddressId
-  )?.emailAddress;
+  );
   
   const primaryPhone = clerkUser.phoneNumbers.find(
     p => p.id === clerkUser.primaryPhoneNumberId
-  )?.phoneNumber || clerkUser.phoneNumbers[0]?.phoneNumber || '';
+  ) || clerkUser.phoneNumbers[0];
 
   return {
     userId: clerkUser.id,
     tenantId,
-    phone: primaryPhone,
-    email: primaryEmail,
+    phone: primaryPhone?.phoneNumber || '',
+    email: primaryEmail?.emailAddress,
+    emailVerified: primaryEmail ? primaryEmail.verified === true : undefined,
+    phoneVerified: primaryPhone ? primaryPhone.verified === true : undefined,
     displayName: [clerkUser.firstName, clerkUser.lastName].filter(Boolean).join(' ') || undefined,
     metadata: {
       ...clerkUser.publicMetadata,
@@ -206,10 +375,50 @@ export function clerkUserToProfile(clerkUser: ClerkUser, tenantId: TenantId): Us
   };
 }
 
+/**
+ * Map profile fields to Clerk user fields
+ * 
+ * The display name is split at its first space into first and last name,
+ * the inverse of clerkUserToProfile; metadata becomes public metadata,
+ * without the `clerkId` key clerkUserToProfile adds. Public metadata is
+ * shared by every organization and its `roles` apply in all of them, so
+ * `roles` is never written from a tenant's profile update.
+ */
+export function toClerkUserInput(input: UpdateUserInput & { phone?: PhoneNumber }): ClerkUserInput {
+  const result: ClerkUserInput = {};
+
+  if (input.phone !== undefined) result.phoneNumber = input.phone;
+  if (input.email !== undefined) result.emailAddress = input.email;
+
+  if (input.displayName !== undefined) {
+    const [firstName, ...rest] = input.displayName.trim().split(/\s+/);
+    result.firstName = firstName;
+    result.lastName = rest.length > 0 ? rest.join(' ') : null;
+  }
+
+  if (input.metadata !== undefined) {
+    const publicMetadata = { ...input.metadata };
+    delete publicMetadata.clerkId;
+    delete publicMetadata.roles;
+    result.publicMetadata = publicMetadata;
+  }
+
+  return result;
+}
+
 /**
  * Extract tenant context from Clerk session claims
+ * @param tenantId Tenant resolved for the session (default the active organization)
+ * @throws NoActiveTenantError if no tenant is given and the session has no active organization
  */
-export function extractTenantContext(claims: ClerkSessionClaims): ClerkTenantContext {
+export function extractTenantContext(
+  claims: ClerkSessionClaims,
+  tenantId: TenantId | undefined = claims.org_id
+): ClerkTenantContext {
+  if (!tenantId) {
+    throw new NoActiveTenantError();
+  }
+
   const roles: RoleId[] = [];
   
   if (claims.org_role) {
@@ -220,9 +429,10 @@ export function extractTenantContext(claims: ClerkSessionClaims): ClerkTenantCon
   roles.push(...metadataRoles);
 
   return {
-    tenantId: claims.org_id || 'default',
+    tenantId,
     userId: claims.sub,
     roles,
+    permissions: claims.org_permissions || [],
     metadata: claims.metadata || {},
     sessionId: claims.sid,
     issuedAt: new Date(claims.iat * 1000),
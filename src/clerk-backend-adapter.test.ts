@@ -0,0 +1,575 @@
+/**
+ * Clerk Backend Adapter Tests
+ *
+ * Runs the production adapter against a local stub of the Clerk Backend API.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { ClerkAdapter } from './clerk-backend-adapter';
+import { signJwt } from './jwt';
+import { ClerkApiError } from './errors';
+
+interface StubResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+type StubHandler = (url: URL, req: IncomingMessage, body?: unknown) => StubResponse;
+
+const apiUser = (id: string, phone: string, email: string): Record<string, unknown> => ({
+  id,
+  primary_email_address_id: `email_${id}`,
+  primary_phone_number_id: `phone_${id}`,
+  email_addresses: [{ id: `email_${id}`, email_address: email, verification: { status: 'verified' } }],
+  phone_numbers: [{ id: `phone_${id}`, phone_number: phone, verification: null }],
+  first_name: 'Ada',
+  last_name: null,
+  public_metadata: { tier: 'gold' },
+  private_metadata: {},
+  created_at: 1700000000000,
+  updated_at: 1700000001000,
+});
+
+describe('ClerkAdapter', () => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: StubHandler;
+  let requests: URL[];
+  let privateKey: KeyObject;
+  let publicJwk: Record<string, unknown>;
+
+  const createAdapter = (overrides: Partial<ConstructorParameters<typeof ClerkAdapter>[0]> = {}): ClerkAdapter =>
+    new ClerkAdapter({
+      secretKey: 'sk_test_123',
+      apiUrl: baseUrl,
+      retryBaseDelayMs: 1,
+      ...overrides,
+    });
+
+  const signToken = (claims: Record<string, unknown>, kid = 'ins_1'): string => {
+    const now = Math.floor(Date.now() / 1000);
+    return signJwt(
+      { sub: 'user_1', sid: 'sess_1', iat: now, exp: now + 60, ...claims },
+      { kid, algorithm: 'RS256', privateKey }
+    );
+  };
+
+  beforeAll(async () => {
+    const keyPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    privateKey = keyPair.privateKey;
+    publicJwk = { ...keyPair.publicKey.export({ format: 'jwk' }), kid: 'ins_1', alg: 'RS256', use: 'sig' };
+
+    server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+      const url = new URL(req.url || '/', baseUrl);
+      requests.push(url);
+
+      if (req.headers.authorization !== 'Bearer sk_test_123') {
+        res.writeHead(401).end();
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const raw = Buffer.concat(chunks).toString();
+
+      const response = handler(url, req, raw ? JSON.parse(raw) : undefined);
+      res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    handler = (url: URL): StubResponse => {
+      if (url.pathname === '/v1/jwks') return { status: 200, body: { keys: [publicJwk] } };
+      return { status: 404, body: { errors: [] } };
+    };
+  });
+
+  describe('verifySession', () => {
+    it('should verify a token signed by a JWKS key', async () => {
+      const adapter = createAdapter();
+
+      const claims = await adapter.verifySession(signToken({ org_id: 'org_1', org_role: 'org:admin' }));
+
+      expect(claims).toMatchObject({ sub: 'user_1', sid: 'sess_1', org_id: 'org_1', org_role: 'org:admin' });
+    });
+
+    it('should map compact v2 organization claims', async () => {
+      const adapter = createAdapter();
+
+      const claims = await adapter.verifySession(signToken({ o: { id: 'org_2', rol: 'member', slg: 'acme' } }));
+
+      expect(claims).toMatchObject({ org_id: 'org_2', org_role: 'org:member', org_slug: 'acme' });
+    });
+
+    it('should cache signing keys', async () => {
+      const adapter = createAdapter();
+
+      await adapter.verifySession(signToken({}));
+      await adapter.verifySession(signToken({}));
+
+      expect(requests.filter(u => u.pathname === '/v1/jwks')).toHaveLength(1);
+    });
+
+    it('should reject tokens signed by an unknown key', async () => {
+      const adapter = createAdapter();
+      const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+      const now = Math.floor(Date.now() / 1000);
+      const forged = signJwt(
+        { sub: 'user_1', sid: 'sess_1', iat: now, exp: now + 60 },
+        { kid: 'ins_1', algorithm: 'RS256', privateKey: otherKey }
+      );
+
+      expect(await adapter.verifySession(forged)).toBeNull();
+      expect(await adapter.verifySession(signToken({}, 'ins_unknown'))).toBeNull();
+    });
+
+    it('should reject non-RS256 tokens', async () => {
+      const adapter = createAdapter();
+      const token = signJwt(
+        { sub: 'user_1', sid: 'sess_1', iat: 1, exp: 9999999999 },
+        { kid: 'ins_1', algorithm: 'HS256', secret: 'sk_test_123' }
+      );
+
+      expect(await adapter.verifySession(token)).toBeNull();
+    });
+
+    it('should apply clock skew tolerance to expiry', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const token = signToken({ iat: now - 120, exp: now - 3 });
+
+      expect(await createAdapter({ clockSkewSeconds: 5 }).verifySession(token)).not.toBeNull();
+      expect(await createAdapter({ clockSkewSeconds: 0 }).verifySession(token)).toBeNull();
+    });
+
+    it('should reject tokens not yet valid', async () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      expect(await createAdapter().verifySession(signToken({ nbf: now + 60 }))).toBeNull();
+      expect(await createAdapter().verifySession(signToken({ iat: now + 60 }))).toBeNull();
+    });
+
+    it('should enforce authorized parties', async () => {
+      const adapter = createAdapter({ authorizedParties: ['https://app.webwaka.com'] });
+
+      expect(await adapter.verifySession(signToken({ azp: 'https://app.webwaka.com' }))).not.toBeNull();
+      expect(await adapter.verifySession(signToken({ azp: 'https://evil.example.com' }))).toBeNull();
+      expect(await adapter.verifySession(signToken({}))).toBeNull();
+    });
+
+    it('should return null when the JWKS endpoint is unavailable', async () => {
+      handler = (): StubResponse => ({ status: 500 });
+
+      expect(await createAdapter().verifySession(signToken({}))).toBeNull();
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should back off while the JWKS endpoint keeps failing', async () => {
+      handler = (): StubResponse => ({ status: 503 });
+      const adapter = createAdapter();
+      const token = signToken({});
+      const start = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(start);
+
+      try {
+        for (let i = 0; i < 5; i++) {
+          expect(await adapter.verifySession(token)).toBeNull();
+        }
+        expect(requests).toHaveLength(1);
+
+        dateSpy.mockReturnValue(start + 11 * 1000);
+        await adapter.verifySession(token);
+        expect(requests).toHaveLength(2);
+
+        // The second failure doubles the wait
+        dateSpy.mockReturnValue(start + 22 * 1000);
+        await adapter.verifySession(token);
+        expect(requests).toHaveLength(2);
+
+        dateSpy.mockReturnValue(start + 32 * 1000);
+        handler = (): StubResponse => ({ status: 200, body: { keys: [publicJwk] } });
+        expect(await adapter.verifySession(token)).not.toBeNull();
+        expect(requests).toHaveLength(3);
+      } finally {
+        dateSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('user lookups', () => {
+    it('should get a user by ID and map snake_case fields', async () => {
+      handler = (url: URL): StubResponse => url.pathname === '/v1/users/user_1'
+        ? { status: 200, body: apiUser('user_1', '+2348012345678', 'ada@example.com') }
+        : { status: 404 };
+
+      const user = await createAdapter().getUser('user_1');
+
+      expect(user).toEqual({
+        id: 'user_1',
+        primaryEmailAddressId: 'email_user_1',
+        primaryPhoneNumberId: 'phone_user_1',
+        emailAddresses: [{ id: 'email_user_1', emailAddress: 'ada@example.com', verified: true }],
+        phoneNumbers: [{ id: 'phone_user_1', phoneNumber: '+2348012345678', verified: false }],
+        firstName: 'Ada',
+        lastName: undefined,
+        publicMetadata: { tier: 'gold' },
+        privateMetadata: {},
+        createdAt: 1700000000000,
+        updatedAt: 1700000001000,
+      });
+    });
+
+    it('should return null for unknown users', async () => {
+      expect(await createAdapter().getUser('missing')).toBeNull();
+    });
+
+    it('should look up users by email and phone', async () => {
+      handler = (url: URL): StubResponse => {
+        if (url.searchParams.get('email_address') === 'ada@example.com' ||
+            url.searchParams.get('phone_number') === '+2348012345678') {
+          return { status: 200, body: [apiUser('user_1', '+2348012345678', 'ada@example.com')] };
+        }
+        return { status: 200, body: [] };
+      };
+      const adapter = createAdapter();
+
+      expect((await adapter.getUserByEmail('ada@example.com'))?.id).toBe('user_1');
+      expect((await adapter.getUserByPhone('+2348012345678'))?.id).toBe('user_1');
+      expect(await adapter.getUserByEmail('nobody@example.com')).toBeNull();
+    });
+  });
+
+  describe('listOrganizationMembers', () => {
+    const memberIds = ['u1', 'u2', 'u3', 'u4', 'u5'];
+
+    beforeEach(() => {
+      handler = (url: URL): StubResponse => {
+        if (url.pathname === '/v1/organizations/org_1/memberships') {
+          const limit = Number(url.searchParams.get('limit'));
+          const offset = Number(url.searchParams.get('offset'));
+          const ordered = url.searchParams.get('order_by') === '-created_at' ? [...memberIds].reverse() : memberIds;
+          return {
+            status: 200,
+            body: {
+              data: ordered.slice(offset, offset + limit).map(id => ({ role: 'org:member', public_user_data: { user_id: id } })),
+              total_count: memberIds.length,
+            },
+          };
+        }
+        if (url.pathname === '/v1/users') {
+          const ids = url.searchParams.getAll('user_id');
+          return {
+            status: 200,
+            body: ids.reverse().map(id => ({
+              ...apiUser(id, `+23480000000${id.slice(1)}`, `${id}@example.com`),
+              public_metadata: Number(id.slice(1)) % 2 === 0 ? { even: true } : {},
+            })),
+          };
+        }
+        return { status: 404 };
+      };
+    });
+
+    it('should fetch only the requested page and return a cursor', async () => {
+      const adapter = createAdapter();
+
+      const page1 = await adapter.listOrganizationMembers('org_1', { limit: 2 });
+      const page2 = await adapter.listOrganizationMembers('org_1', { limit: 2, cursor: page1.nextCursor });
+      const page3 = await adapter.listOrganizationMembers('org_1', { limit: 2, cursor: page2.nextCursor });
+
+      expect([...page1.items, ...page2.items, ...page3.items].map(m => m.id)).toEqual(memberIds);
+      expect(page1.total).toBe(5);
+      expect(page3.nextCursor).toBeUndefined();
+      expect(requests.filter(u => u.pathname.endsWith('/memberships')).map(u => u.searchParams.get('limit')))
+        .toEqual(['2', '2', '2']);
+    });
+
+    it('should page through memberships in batches of pageSize', async () => {
+      const members = await createAdapter({ pageSize: 2 }).listOrganizationMembers('org_1');
+
+      expect(members.items.map(m => m.id)).toEqual(memberIds);
+      expect(requests.filter(u => u.pathname.endsWith('/memberships'))).toHaveLength(3);
+      expect(requests.filter(u => u.pathname === '/v1/users')).toHaveLength(3);
+    });
+
+    it('should request descending order from the API', async () => {
+      const members = await createAdapter().listOrganizationMembers('org_1', { order: 'desc', limit: 2 });
+
+      expect(members.items.map(m => m.id)).toEqual(['u5', 'u4']);
+      expect(requests[0].searchParams.get('order_by')).toBe('-created_at');
+    });
+
+    it('should fill filtered pages across batches and resume after the last match', async () => {
+      const adapter = createAdapter({ pageSize: 2 });
+
+      const page1 = await adapter.listOrganizationMembers('org_1', { limit: 1, metadataKey: 'even' });
+      const page2 = await adapter.listOrganizationMembers('org_1', { limit: 1, metadataKey: 'even', cursor: page1.nextCursor });
+
+      expect(page1.items.map(m => m.id)).toEqual(['u2']);
+      expect(page2.items.map(m => m.id)).toEqual(['u4']);
+      expect(page1.total).toBeUndefined();
+    });
+
+    it('should return an empty page for unknown organizations', async () => {
+      expect((await createAdapter().listOrganizationMembers('org_missing')).items).toEqual([]);
+    });
+  });
+
+  describe('getOrganizationMembership', () => {
+    it('should look up a single membership by user ID', async () => {
+      handler = (url: URL): StubResponse => {
+        if (url.pathname === '/v1/organizations/org_1/memberships') {
+          const data = url.searchParams.get('user_id') === 'u1'
+            ? [{ role: 'org:admin', public_user_data: { user_id: 'u1' } }]
+            : [];
+          return { status: 200, body: { data, total_count: data.length } };
+        }
+        return { status: 404 };
+      };
+      const adapter = createAdapter();
+
+      expect(await adapter.getOrganizationMembership('org_1', 'u1')).toEqual({
+        organizationId: 'org_1',
+        userId: 'u1',
+        role: 'org:admin',
+      });
+      expect(await adapter.getOrganizationMembership('org_1', 'u2')).toBeNull();
+      expect(await adapter.getOrganizationMembership('org_missing', 'u1')).toBeNull();
+      expect(requests.filter(u => u.pathname === '/v1/users')).toHaveLength(0);
+    });
+  });
+
+  describe('user and membership writes', () => {
+    interface SentRequest {
+      method?: string;
+      path: string;
+      body?: unknown;
+    }
+
+    let sent: SentRequest[];
+
+    const recordWrites = (respond: (url: URL, method?: string) => StubResponse): StubHandler =>
+      (url, req, body) => {
+        sent.push({ method: req.method, path: url.pathname, body });
+        return respond(url, req.method);
+      };
+
+    beforeEach(() => {
+      sent = [];
+    });
+
+    it('should create a user without a password', async () => {
+      handler = recordWrites(() => ({ status: 200, body: apiUser('u1', '+2348012345678', 'ada@example.com') }));
+
+      const user = await createAdapter().createUser({
+        phoneNumber: '+2348012345678',
+        emailAddress: 'ada@example.com',
+        firstName: 'Ada',
+        lastName: null,
+        publicMetadata: { tier: 'gold' },
+      });
+
+      expect(user.id).toBe('u1');
+      expect(sent).toEqual([{
+        method: 'POST',
+        path: '/v1/users',
+        body: {
+          phone_number: ['+2348012345678'],
+          email_address: ['ada@example.com'],
+          first_name: 'Ada',
+          last_name: null,
+          public_metadata: { tier: 'gold' },
+          skip_password_requirement: true,
+        },
+      }]);
+    });
+
+    it('should surface rejected creates as ClerkApiError', async () => {
+      handler = (): StubResponse => ({ status: 422, body: { errors: [{ code: 'form_identifier_exists' }] } });
+
+      await expect(createAdapter().createUser({ phoneNumber: '+2348012345678' })).rejects.toMatchObject({
+        code: 'PROVIDER_ERROR',
+        status: 422,
+      });
+    });
+
+    it('should patch names and merge metadata', async () => {
+      handler = recordWrites(() => ({ status: 200, body: apiUser('u1', '+2348012345678', 'ada@example.com') }));
+
+      await createAdapter().updateUser('u1', { firstName: 'Ada', lastName: 'Lovelace', publicMetadata: { tier: 'gold' } });
+
+      expect(sent).toEqual([
+        { method: 'PATCH', path: '/v1/users/u1', body: { first_name: 'Ada', last_name: 'Lovelace' } },
+        { method: 'PATCH', path: '/v1/users/u1/metadata', body: { public_metadata: { tier: 'gold' } } },
+      ]);
+    });
+
+    it('should replace the primary email address', async () => {
+      handler = recordWrites((url, method) => {
+        if (url.pathname === '/v1/users/u1') {
+          return { status: 200, body: apiUser('u1', '+2348012345678', 'ada@example.com') };
+        }
+        return { status: 200, body: method === 'DELETE' ? { deleted: true } : { id: 'email_new' } };
+      });
+
+      await createAdapter().updateUser('u1', { emailAddress: 'ada@new.example.com' });
+
+      expect(sent.map(r => `${r.method} ${r.path}`)).toEqual([
+        'GET /v1/users/u1',
+        'POST /v1/email_addresses',
+        'DELETE /v1/email_addresses/email_u1',
+        'PATCH /v1/users/u1',
+      ]);
+      expect(sent[1].body).toEqual({ user_id: 'u1', email_address: 'ada@new.example.com', primary: true });
+    });
+
+    it('should not re-add an unchanged email address', async () => {
+      handler = recordWrites(() => ({ status: 200, body: apiUser('u1', '+2348012345678', 'ada@example.com') }));
+
+      await createAdapter().updateUser('u1', { emailAddress: 'ADA@example.com' });
+
+      expect(sent.map(r => r.method)).toEqual(['GET', 'PATCH']);
+    });
+
+    it('should return null when updating unknown users', async () => {
+      expect(await createAdapter().updateUser('missing', { firstName: 'Ada' })).toBeNull();
+      expect(await createAdapter().updateUser('missing', { emailAddress: 'ada@example.com' })).toBeNull();
+    });
+
+    it('should delete users, ignoring users that no longer exist', async () => {
+      handler = recordWrites(url => (url.pathname === '/v1/users/u1' ? { status: 200, body: { deleted: true } } : { status: 404 }));
+      const adapter = createAdapter();
+
+      await adapter.deleteUser('u1');
+      await adapter.deleteUser('missing');
+
+      expect(sent.map(r => `${r.method} ${r.path}`)).toEqual(['DELETE /v1/users/u1', 'DELETE /v1/users/missing']);
+    });
+
+    it('should add and remove organization members', async () => {
+      handler = recordWrites((_url, method) => ({
+        status: 200,
+        body: method === 'POST' ? { role: 'org:admin', public_user_data: { user_id: 'u1' } } : {},
+      }));
+      const adapter = createAdapter();
+
+      expect(await adapter.addOrganizationMember('org_1', 'u1', 'org:admin')).toEqual({
+        organizationId: 'org_1',
+        userId: 'u1',
+        role: 'org:admin',
+      });
+      await adapter.removeOrganizationMember('org_1', 'u1');
+
+      expect(sent).toEqual([
+        { method: 'POST', path: '/v1/organizations/org_1/memberships', body: { user_id: 'u1', role: 'org:admin' } },
+        { method: 'DELETE', path: '/v1/organizations/org_1/memberships/u1', body: undefined },
+      ]);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry server errors with backoff', async () => {
+      let calls = 0;
+      handler = (): StubResponse => {
+        calls++;
+        return calls < 3 ? { status: 503 } : { status: 200, body: apiUser('user_1', '+2348012345678', 'a@example.com') };
+      };
+
+      const user = await createAdapter().getUser('user_1');
+
+      expect(user?.id).toBe('user_1');
+      expect(calls).toBe(3);
+    });
+
+    it('should honour Retry-After on rate limits', async () => {
+      let calls = 0;
+      handler = (): StubResponse => {
+        calls++;
+        return calls === 1
+          ? { status: 429, headers: { 'Retry-After': '0' } }
+          : { status: 200, body: apiUser('user_1', '+2348012345678', 'a@example.com') };
+      };
+
+      expect((await createAdapter({ retryBaseDelayMs: 60 * 1000 }).getUser('user_1'))?.id).toBe('user_1');
+      expect(calls).toBe(2);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      handler = (): StubResponse => ({ status: 500, body: { errors: [{ code: 'internal' }] } });
+
+      const error = await createAdapter({ maxRetries: 2 }).getUser('user_1').catch(e => e);
+
+      expect(error).toBeInstanceOf(ClerkApiError);
+      expect((error as ClerkApiError).status).toBe(500);
+      expect(requests).toHaveLength(3);
+    });
+
+    it('should not retry server errors or network failures for creates', async () => {
+      handler = (): StubResponse => ({ status: 503 });
+
+      await expect(createAdapter().createUser({ phoneNumber: '+2348012345678' })).rejects.toBeInstanceOf(ClerkApiError);
+      expect(requests).toHaveLength(1);
+
+      let calls = 0;
+      const adapter = createAdapter({
+        fetch: async () => {
+          calls++;
+          throw new Error('ECONNRESET');
+        },
+      });
+
+      await expect(adapter.createUser({ phoneNumber: '+2348012345678' })).rejects.toThrow('ECONNRESET');
+      expect(calls).toBe(1);
+    });
+
+    it('should retry rate-limited creates', async () => {
+      let calls = 0;
+      handler = (): StubResponse => {
+        calls++;
+        return calls === 1
+          ? { status: 429, headers: { 'Retry-After': '0' } }
+          : { status: 200, body: apiUser('u1', '+2348012345678', 'a@example.com') };
+      };
+
+      expect((await createAdapter().createUser({ phoneNumber: '+2348012345678' })).id).toBe('u1');
+      expect(calls).toBe(2);
+    });
+
+    it('should not retry client errors', async () => {
+      handler = (): StubResponse => ({ status: 422, body: { errors: [] } });
+
+      await expect(createAdapter().getUser('user_1')).rejects.toBeInstanceOf(ClerkApiError);
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should retry network failures through the injected fetch', async () => {
+      let calls = 0;
+      const adapter = createAdapter({
+        fetch: async (url, init) => {
+          calls++;
+          if (calls === 1) throw new Error('ECONNRESET');
+          return fetch(url, init);
+        },
+      });
+      handler = (): StubResponse => ({ status: 200, body: apiUser('user_1', '+2348012345678', 'a@example.com') });
+
+      expect((await adapter.getUser('user_1'))?.id).toBe('user_1');
+      expect(calls).toBe(2);
+    });
+  });
+
+  it('should require a secret key', () => {
+    expect(() => new ClerkAdapter({ secretKey: '' })).toThrow('secret key');
+  });
+});
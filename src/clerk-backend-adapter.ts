@@ -0,0 +1,618 @@
+/**
+ * Production Clerk Adapter
+ *
+ * Implements ClerkAdapterInterface against Clerk's Backend API:
+ * - Session JWTs are verified locally against Clerk's JWKS (RS256). Keys are
+ *   cached and refetched when a token carries an unknown `kid` (key rotation).
+ * - User and organization lookups and writes call the Backend API with
+ *   retries, exponential backoff and Retry-After handling for rate limits.
+ *   Network errors and 5xx responses are retried only for idempotent methods,
+ *   since a POST that failed in flight may already have created the resource.
+ *
+ * `fetch` is injectable so the adapter can be tested against a stub server.
+ */
+
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import {
+  ClerkAdapterInterface,
+  ClerkSessionClaims,
+  ClerkUser,
+  ClerkOrganizationMembership,
+  ClerkUserInput,
+  DEFAULT_ORGANIZATION_ROLE,
+  clerkUserToProfile,
+} from './clerk-adapter';
+import { ListUsersOptions, Page } from './types';
+import { decodeJwt, verifyJwtSignature } from './jwt';
+import {
+  DEFAULT_PAGE_LIMIT,
+  decodeOffsetCursor,
+  encodeCursor,
+  hasUserFilters,
+  matchesUserFilters,
+} from './pagination';
+import { ClerkApiError, NotConfiguredError, ProviderError } from './errors';
+
+/**
+ * Subset of the Fetch API Response used by the adapter
+ */
+export interface FetchResponseLike {
+  ok: boolean;
+  status: number;
+  headers: { get(name: string): string | null };
+  json(): Promise<unknown>;
+  text(): Promise<string>;
+}
+
+/**
+ * Subset of the Fetch API used by the adapter (the global fetch satisfies it)
+ */
+export type FetchLike = (
+  url: string,
+  init?: { method?: string; headers?: Record<string, string>; body?: string }
+) => Promise<FetchResponseLike>;
+
+/**
+ * Clerk adapter configuration
+ */
+export interface ClerkAdapterConfig {
+  /**
+   * Clerk secret key (sk_live_... / sk_test_...)
+   */
+  secretKey: string;
+
+  /**
+   * Backend API base URL (default https://api.clerk.com)
+   */
+  apiUrl?: string;
+
+  /**
+   * JWKS endpoint (default `${apiUrl}/v1/jwks`)
+   */
+  jwksUrl?: string;
+
+  /**
+   * Accepted `azp` values; when set, tokens from other origins are rejected
+   */
+  authorizedParties?: string[];
+
+  /**
+   * Tolerance applied to `exp`, `nbf` and `iat` checks (default 5 seconds)
+   */
+  clockSkewSeconds?: number;
+
+  /**
+   * How long fetched signing keys are trusted (default 1 hour)
+   */
+  jwksCacheTtlMs?: number;
+
+  /**
+   * Retries for 429 responses, and for network errors and 5xx responses to
+   * idempotent requests (default 3)
+   */
+  maxRetries?: number;
+
+  /**
+   * Base delay for exponential backoff (default 250ms)
+   */
+  retryBaseDelayMs?: number;
+
+  /**
+   * Upper bound for any single retry delay, including Retry-After (default 30 seconds)
+   */
+  maxRetryDelayMs?: number;
+
+  /**
+   * Page size for paginated Backend API calls (default 100)
+   */
+  pageSize?: number;
+
+  fetch?: FetchLike;
+}
+
+/**
+ * Backend API request options
+ */
+interface ClerkRequestOptions {
+  method?: string;
+  query?: Array<[string, string]>;
+  body?: unknown;
+  /**
+   * Overrides maxRetries for this request
+   */
+  maxRetries?: number;
+}
+
+/**
+ * User object as returned by the Backend API and sent in webhooks
+ */
+export interface ClerkApiUser {
+  id: string;
+  primary_email_address_id?: string | null;
+  primary_phone_number_id?: string | null;
+  email_addresses?: Array<{ id: string; email_address: string; verification?: { status?: string } | null }>;
+  phone_numbers?: Array<{ id: string; phone_number: string; verification?: { status?: string } | null }>;
+  first_name?: string | null;
+  last_name?: string | null;
+  public_metadata?: Record<string, unknown>;
+  private_metadata?: Record<string, unknown>;
+  created_at: number;
+  updated_at: number;
+}
+
+interface ClerkApiMembership {
+  role?: string;
+  public_user_data?: { user_id?: string };
+}
+
+interface ClerkApiList<T> {
+  data: T[];
+  total_count: number;
+}
+
+/**
+ * Map a Backend API user (snake_case) to ClerkUser
+ */
+export function toClerkUser(user: ClerkApiUser): ClerkUser {
+  return {
+    id: user.id,
+    primaryEmailAddressId: user.primary_email_address_id || undefined,
+    primaryPhoneNumberId: user.primary_phone_number_id || undefined,
+    emailAddresses: (user.email_addresses || []).map(e => ({
+      id: e.id,
+      emailAddress: e.email_address,
+      verified: e.verification?.status === 'verified',
+    })),
+    phoneNumbers: (user.phone_numbers || []).map(p => ({
+      id: p.id,
+      phoneNumber: p.phone_number,
+      verified: p.verification?.status === 'verified',
+    })),
+    firstName: user.first_name || undefined,
+    lastName: user.last_name || undefined,
+    publicMetadata: user.public_metadata || {},
+    privateMetadata: user.private_metadata || {},
+    createdAt: user.created_at,
+    updatedAt: user.updated_at,
+  };
+}
+
+/**
+ * Map verified token claims to ClerkSessionClaims
+ *
+ * Accepts both the v1 claim names (`org_id`, `org_role`, ...) and the
+ * compact v2 organization claim (`o: { id, rol, slg }`).
+ */
+function toSessionClaims(claims: Record<string, unknown>): ClerkSessionClaims {
+  const org = (claims.o || {}) as { id?: string; rol?: string; slg?: string };
+
+  return {
+    sub: claims.sub as string,
+    sid: claims.sid as string,
+    org_id: (claims.org_id as string | undefined) ?? org.id,
+    org_role: (claims.org_role as string | undefined) ?? (org.rol ? `org:${org.rol}` : undefined),
+    org_slug: (claims.org_slug as string | undefined) ?? org.slg,
+    org_permissions: Array.isArray(claims.org_permissions) ? claims.org_permissions as string[] : undefined,
+    metadata: claims.metadata as Record<string, unknown> | undefined,
+    iat: claims.iat as number,
+    exp: claims.exp as number,
+  };
+}
+
+const MIN_JWKS_REFETCH_INTERVAL_MS = 10 * 1000;
+const MAX_JWKS_REFETCH_BACKOFF_MS = 5 * 60 * 1000;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'PATCH', 'DELETE']);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Clerk Adapter backed by the Clerk Backend API
+ */
+export class ClerkAdapter implements ClerkAdapterInterface {
+  private secretKey: string;
+  private apiUrl: string;
+  private jwksUrl: string;
+  private authorizedParties: string[];
+  private clockSkewSeconds: number;
+  private jwksCacheTtlMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private maxRetryDelayMs: number;
+  private pageSize: number;
+  private fetchFn: FetchLike;
+
+  private signingKeys: Map<string, KeyObject> = new Map();
+  private signingKeysFetchedAt = 0;
+  private signingKeysAttemptedAt = 0;
+  private signingKeysFailures = 0;
+  private signingKeysRequest?: Promise<void>;
+
+  constructor(config: ClerkAdapterConfig) {
+    if (!config.secretKey) {
+      throw new NotConfiguredError('Clerk secret key is required');
+    }
+
+    this.secretKey = config.secretKey;
+    this.apiUrl = (config.apiUrl || 'https://api.clerk.com').replace(/\/+$/, '');
+    this.jwksUrl = config.jwksUrl || `${this.apiUrl}/v1/jwks`;
+    this.authorizedParties = config.authorizedParties || [];
+    this.clockSkewSeconds = config.clockSkewSeconds ?? 5;
+    this.jwksCacheTtlMs = config.jwksCacheTtlMs ?? 60 * 60 * 1000;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? 250;
+    this.maxRetryDelayMs = config.maxRetryDelayMs ?? 30 * 1000;
+    this.pageSize = config.pageSize ?? 100;
+    this.fetchFn = config.fetch || fetch;
+  }
+
+  async verifySession(sessionToken: string): Promise<ClerkSessionClaims | null> {
+    const decoded = decodeJwt(sessionToken);
+    if (!decoded || decoded.header.alg !== 'RS256' || !decoded.header.kid) {
+      return null;
+    }
+
+    const publicKey = await this.getSigningKey(decoded.header.kid);
+    if (!publicKey || !verifyJwtSignature(decoded, { kid: decoded.header.kid, algorithm: 'RS256', publicKey })) {
+      return null;
+    }
+
+    const claims = decoded.payload;
+    if (
+      typeof claims.sub !== 'string' ||
+      typeof claims.sid !== 'string' ||
+      typeof claims.iat !== 'number' ||
+      typeof claims.exp !== 'number'
+    ) {
+      return null;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.exp + this.clockSkewSeconds < now) return null;
+    if (claims.iat - this.clockSkewSeconds > now) return null;
+    if (typeof claims.nbf === 'number' && claims.nbf - this.clockSkewSeconds > now) return null;
+
+    if (
+      this.authorizedParties.length > 0 &&
+      (typeof claims.azp !== 'string' || !this.authorizedParties.includes(claims.azp))
+    ) {
+      return null;
+    }
+
+    return toSessionClaims(claims);
+  }
+
+  async getUser(userId: string): Promise<ClerkUser | null> {
+    const user = await this.request<ClerkApiUser>(`/users/${encodeURIComponent(userId)}`);
+    return user ? toClerkUser(user) : null;
+  }
+
+  async getUserByEmail(email: string): Promise<ClerkUser | null> {
+    return this.findUser('email_address', email);
+  }
+
+  async getUserByPhone(phone: string): Promise<ClerkUser | null> {
+    return this.findUser('phone_number', phone);
+  }
+
+  /**
+   * List organization members by membership creation time
+   *
+   * The Backend API pages by offset, so cursors encode the offset of the next
+   * membership. Filters are applied to each fetched batch until the page is
+   * full; `total` is only reported for unfiltered listings.
+   */
+  async listOrganizationMembers(orgId: string, options: ListUsersOptions = {}): Promise<Page<ClerkUser>> {
+    const order = options.order ?? 'asc';
+    const limit = options.limit ?? DEFAULT_PAGE_LIMIT;
+    const filtered = hasUserFilters(options);
+    let offset = options.cursor ? decodeOffsetCursor(options.cursor, order).offset : 0;
+
+    const items: ClerkUser[] = [];
+    let total = 0;
+    let exhausted = false;
+
+    while (items.length < limit && !exhausted) {
+      // Unfiltered pages map one-to-one onto memberships, so never fetch more than needed
+      const batchSize = filtered ? this.pageSize : Math.min(limit - items.length, this.pageSize);
+      const page = await this.request<ClerkApiList<ClerkApiMembership>>(
+        `/organizations/${encodeURIComponent(orgId)}/memberships`,
+        {
+          query: [
+            ['limit', String(batchSize)],
+            ['offset', String(offset)],
+            ['order_by', order === 'asc' ? 'created_at' : '-created_at'],
+          ],
+        }
+      );
+      if (!page) return { items: [], total: 0 };
+      total = page.total_count;
+
+      const userIds = page.data
+        .map(membership => membership.public_user_data?.user_id)
+        .filter((id): id is string => !!id);
+      const users = new Map((await this.getUsersById(userIds)).map(user => [user.id, user]));
+
+      for (const membership of page.data) {
+        if (items.length >= limit) break;
+        offset++;
+
+        const user = users.get(membership.public_user_data?.user_id || '');
+        if (user && (!filtered || matchesUserFilters(clerkUserToProfile(user, orgId), options))) {
+          items.push(user);
+        }
+      }
+
+      exhausted = page.data.length < batchSize || offset >= page.total_count;
+    }
+
+    const result: Page<ClerkUser> = { items };
+    if (!exhausted) result.nextCursor = encodeCursor({ offset, order });
+    if (!filtered) result.total = total;
+    return result;
+  }
+
+  async getOrganizationMembership(orgId: string, userId: string): Promise<ClerkOrganizationMembership | null> {
+    const page = await this.request<ClerkApiList<ClerkApiMembership>>(
+      `/organizations/${encodeURIComponent(orgId)}/memberships`,
+      { query: [['user_id', userId], ['limit', '1']] }
+    );
+
+    const membership = page?.data.find(m => m.public_user_data?.user_id === userId);
+    if (!membership) return null;
+
+    return { organizationId: orgId, userId, role: membership.role || '' };
+  }
+
+  async createUser(input: ClerkUserInput): Promise<ClerkUser> {
+    const user = await this.request<ClerkApiUser>('/users', {
+      method: 'POST',
+      body: {
+        phone_number: input.phoneNumber ? [input.phoneNumber] : undefined,
+        email_address: input.emailAddress ? [input.emailAddress] : undefined,
+        first_name: input.firstName,
+        last_name: input.lastName,
+        public_metadata: input.publicMetadata,
+        skip_password_requirement: true,
+      },
+    });
+    if (!user) {
+      throw new ClerkApiError(404, '');
+    }
+    return toClerkUser(user);
+  }
+
+  /**
+   * Update a user
+   *
+   * A new email address is added as the primary address and the previous
+   * primary address is removed. Public metadata is merged into the existing
+   * metadata through the metadata endpoint.
+   */
+  async updateUser(userId: string, input: ClerkUserInput): Promise<ClerkUser | null> {
+    const path = `/users/${encodeURIComponent(userId)}`;
+
+    if (input.emailAddress !== undefined) {
+      const current = await this.request<ClerkApiUser>(path);
+      if (!current) return null;
+
+      const previousEmailId = current.primary_email_address_id;
+      const previousEmail = current.email_addresses?.find(e => e.id === previousEmailId);
+      if (previousEmail?.email_address.toLowerCase() !== input.emailAddress.toLowerCase()) {
+        await this.request('/email_addresses', {
+          method: 'POST',
+          body: { user_id: userId, email_address: input.emailAddress, primary: true },
+        });
+        if (previousEmailId) {
+          await this.request(`/email_addresses/${encodeURIComponent(previousEmailId)}`, { method: 'DELETE' });
+        }
+      }
+    }
+
+    let user = await this.request<ClerkApiUser>(path, {
+      method: 'PATCH',
+      body: { first_name: input.firstName, last_name: input.lastName },
+    });
+    if (user && input.publicMetadata !== undefined) {
+      // Merged rather than replaced, so keys written by other tenants survive
+      user = await this.request<ClerkApiUser>(`${path}/metadata`, {
+        method: 'PATCH',
+        body: { public_metadata: input.publicMetadata },
+      });
+    }
+    return user ? toClerkUser(user) : null;
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    await this.request(`/users/${encodeURIComponent(userId)}`, { method: 'DELETE' });
+  }
+
+  async addOrganizationMember(
+    orgId: string,
+    userId: string,
+    role = DEFAULT_ORGANIZATION_ROLE
+  ): Promise<ClerkOrganizationMembership> {
+    const membership = await this.request<ClerkApiMembership>(
+      `/organizations/${encodeURIComponent(orgId)}/memberships`,
+      { method: 'POST', body: { user_id: userId, role } }
+    );
+    if (!membership) {
+      throw new ClerkApiError(404, '');
+    }
+    return { organizationId: orgId, userId, role: membership.role || role };
+  }
+
+  async removeOrganizationMember(orgId: string, userId: string): Promise<void> {
+    await this.request(
+      `/organizations/${encodeURIComponent(orgId)}/memberships/${encodeURIComponent(userId)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  /**
+   * Fetch users in batches, preserving the order of the given IDs
+   */
+  private async getUsersById(userIds: string[]): Promise<ClerkUser[]> {
+    const users = new Map<string, ClerkUser>();
+
+    for (let i = 0; i < userIds.length; i += this.pageSize) {
+      const batch = userIds.slice(i, i + this.pageSize);
+      const result = await this.request<ClerkApiUser[]>('/users', {
+        query: [...batch.map((id): [string, string] => ['user_id', id]), ['limit', String(batch.length)]],
+      });
+      for (const user of result || []) {
+        users.set(user.id, toClerkUser(user));
+      }
+    }
+
+    return userIds.map(id => users.get(id)).filter((u): u is ClerkUser => !!u);
+  }
+
+  private async findUser(field: string, value: string): Promise<ClerkUser | null> {
+    const users = await this.request<ClerkApiUser[]>('/users', {
+      query: [[field, value], ['limit', '1']],
+    });
+    return users && users.length > 0 ? toClerkUser(users[0]) : null;
+  }
+
+  /**
+   * Get a JWKS signing key, refetching the key set if the kid is unknown or stale
+   *
+   * Failed fetches back off exponentially from the refetch interval instead
+   * of being retried on the request path.
+   */
+  private async getSigningKey(kid: string): Promise<KeyObject | null> {
+    const now = Date.now();
+    const age = now - this.signingKeysFetchedAt;
+    const stale = age > this.jwksCacheTtlMs;
+    // Unknown kids only trigger a refetch occasionally, so forged tokens cannot hammer the JWKS endpoint
+    const unknown = !this.signingKeys.has(kid) && age > MIN_JWKS_REFETCH_INTERVAL_MS;
+    const backoff = this.signingKeysFailures === 0
+      ? 0
+      : Math.min(MIN_JWKS_REFETCH_INTERVAL_MS * 2 ** (this.signingKeysFailures - 1), MAX_JWKS_REFETCH_BACKOFF_MS);
+
+    if ((stale || unknown) && now - this.signingKeysAttemptedAt >= backoff) {
+      try {
+        await this.refreshSigningKeys();
+      } catch {
+        // Keep serving previously fetched keys if the JWKS endpoint is unavailable
+      }
+    }
+
+    return this.signingKeys.get(kid) || null;
+  }
+
+  private refreshSigningKeys(): Promise<void> {
+    if (!this.signingKeysRequest) {
+      this.signingKeysAttemptedAt = Date.now();
+      this.signingKeysRequest = this.fetchSigningKeys()
+        .then(
+          () => {
+            this.signingKeysFailures = 0;
+          },
+          err => {
+            this.signingKeysFailures++;
+            throw err;
+          }
+        )
+        .finally(() => {
+          this.signingKeysRequest = undefined;
+        });
+    }
+    return this.signingKeysRequest;
+  }
+
+  private async fetchSigningKeys(): Promise<void> {
+    // Not retried on the request path; getSigningKey backs off between failed attempts
+    const jwks = await this.request<{ keys: Array<JsonWebKey & { kid?: string }> }>(
+      this.jwksUrl,
+      { maxRetries: 0 }
+    );
+    if (!jwks) {
+      throw new ProviderError(`JWKS not found at ${this.jwksUrl}`);
+    }
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of jwks.keys || []) {
+      if (jwk.kid && jwk.kty === 'RSA') {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+
+    this.signingKeys = keys;
+    this.signingKeysFetchedAt = Date.now();
+  }
+
+  /**
+   * Call the Backend API
+   * @param path Path relative to /v1, or an absolute URL
+   * @returns Parsed JSON body, or null for 404 responses (deletes of missing
+   * resources therefore succeed)
+   */
+  private async request<T>(path: string, options: ClerkRequestOptions = {}): Promise<T | null> {
+    const url = new URL(path.startsWith('http') ? path : `${this.apiUrl}/v1${path}`);
+    for (const [key, value] of options.query || []) {
+      url.searchParams.append(key, value);
+    }
+
+    const method = options.method || 'GET';
+    const idempotent = IDEMPOTENT_METHODS.has(method);
+    const maxRetries = options.maxRetries ?? this.maxRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: FetchResponseLike;
+      try {
+        response = await this.fetchFn(url.toString(), {
+          method,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        });
+      } catch (err) {
+        if (!idempotent || attempt >= maxRetries) throw err;
+        await sleep(this.backoffDelay(attempt));
+        continue;
+      }
+
+      if (response.ok) {
+        return (await response.json()) as T;
+      }
+
+      if (response.status === 404) {
+        return null;
+      }
+
+      // Rate-limited requests were not processed, so any method may retry them
+      const retryable = response.status === 429 || (idempotent && response.status >= 500);
+      if (retryable && attempt < maxRetries) {
+        await sleep(this.retryDelay(response, attempt));
+        continue;
+      }
+
+      throw new ClerkApiError(response.status, await response.text().catch(() => ''));
+    }
+  }
+
+  private backoffDelay(attempt: number): number {
+    return Math.min(this.retryBaseDelayMs * 2 ** attempt, this.maxRetryDelayMs);
+  }
+
+  /**
+   * Honour Retry-After (seconds or HTTP date) when present, else back off exponentially
+   */
+  private retryDelay(response: FetchResponseLike, attempt: number): number {
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+      if (Number.isFinite(delay)) {
+        return Math.min(Math.max(delay, 0), this.maxRetryDelayMs);
+      }
+    }
+    return this.backoffDelay(attempt);
+  }
+}
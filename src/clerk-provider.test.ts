@@ -0,0 +1,107 @@
+/**
+ * Clerk Identity Provider Tests
+ */
+
+import { MockClerkAdapter, ClerkSessionClaims } from './clerk-adapter';
+import { ClerkIdentityProvider, clerkClaimsToSessionContext } from './clerk-provider';
+import { IdentityService } from './identity-service';
+import { InMemoryUserStorage, InMemorySessionStorage } from './storage';
+import { ClerkApiError, NoActiveTenantError } from './errors';
+
+describe('ClerkIdentityProvider', () => {
+  let adapter: MockClerkAdapter;
+  let provider: ClerkIdentityProvider;
+
+  const now = Math.floor(Date.now() / 1000);
+  const claims: ClerkSessionClaims = {
+    sub: 'user_1',
+    sid: 'sess_1',
+    org_id: 'org_1',
+    org_role: 'org:admin',
+    iat: now,
+    exp: now + 3600,
+  };
+
+  beforeEach(() => {
+    adapter = new MockClerkAdapter();
+    provider = new ClerkIdentityProvider(adapter);
+  });
+
+  describe('sessions', () => {
+    it('should verify sessions through the adapter', async () => {
+      adapter.addSession('token_1', claims);
+
+      expect(await provider.verifySession('token_1')).toEqual(claims);
+      expect(await provider.verifySession('unknown')).toBeNull();
+    });
+
+    it('should map claims to a session in the active organization', async () => {
+      const context = await provider.toSessionContext(claims);
+
+      expect(context).toMatchObject({
+        sessionId: 'sess_1',
+        userId: 'user_1',
+        tenantId: 'org_1',
+        roles: ['org:admin'],
+        expiresAt: new Date((now + 3600) * 1000),
+      });
+    });
+
+    it('should return null for sessions without an active tenant', async () => {
+      expect(await provider.toSessionContext({ ...claims, org_id: undefined })).toBeNull();
+    });
+
+    it('should apply the tenant resolution policy', async () => {
+      provider = new ClerkIdentityProvider(adapter, { tenantResolution: { mode: 'personal' } });
+
+      const context = await provider.toSessionContext({ ...claims, org_id: undefined });
+
+      expect(context?.tenantId).toBe('personal_user_1');
+      expect(await provider.directory.isTenantMember('personal_user_1', 'user_1')).toBe(true);
+      expect(await provider.directory.isTenantMember('personal_user_2', 'user_1')).toBe(false);
+    });
+  });
+
+  describe('clerkClaimsToSessionContext', () => {
+    it('should throw without a tenant', () => {
+      expect(() => clerkClaimsToSessionContext({ ...claims, org_id: undefined })).toThrow(NoActiveTenantError);
+    });
+  });
+
+  describe('directory', () => {
+    it('should create users as organization members', async () => {
+      const user = await provider.directory.createUser('org_1', { phone: '+2348012345678', displayName: 'Ada Obi' });
+
+      expect(await provider.directory.isTenantMember('org_1', user.id)).toBe(true);
+      expect(provider.directory.toUserProfile(user, 'org_1')).toMatchObject({
+        userId: user.id,
+        tenantId: 'org_1',
+        phone: '+2348012345678',
+        displayName: 'Ada Obi',
+      });
+    });
+
+    it('should delete the user if adding the membership fails', async () => {
+      jest.spyOn(adapter, 'addOrganizationMember').mockRejectedValue(new ClerkApiError(500, ''));
+
+      await expect(
+        provider.directory.createUser('org_1', { phone: '+2348012345678' })
+      ).rejects.toThrow(ClerkApiError);
+      expect(await adapter.getUserByPhone('+2348012345678')).toBeNull();
+    });
+  });
+
+  it('should back an IdentityService configured with identityProvider', async () => {
+    const service = new IdentityService({
+      userStorage: new InMemoryUserStorage(),
+      sessionStorage: new InMemorySessionStorage(),
+      identityProvider: provider,
+    });
+    const created = await service.createUser({ tenantId: 'org_1', phone: '+2348012345678' });
+    adapter.addSession('token_1', { ...claims, sub: created.userId });
+
+    const identity = await service.resolveIdentity('token_1');
+
+    expect(identity).toMatchObject({ userId: created.userId, tenantId: 'org_1', roles: ['org:admin'] });
+  });
+});
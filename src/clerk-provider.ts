@@ -0,0 +1,158 @@
+/**
+ * Clerk as an IdentityProvider
+ *
+ * Wraps a ClerkAdapterInterface: sessions are verified by the adapter and
+ * mapped through the tenant resolution policy, and tenants are Clerk
+ * organizations in the provider's user directory.
+ */
+
+import {
+  TenantId,
+  UserId,
+  PhoneNumber,
+  UserProfile,
+  SessionContext,
+  UpdateUserInput,
+  ListUsersOptions,
+  Page,
+} from './types';
+import { IdentityProvider, UserDirectory, DirectoryUserInput } from './identity-provider';
+import {
+  ClerkAdapterInterface,
+  ClerkSessionClaims,
+  ClerkUser,
+  clerkUserToProfile,
+  extractTenantContext,
+  toClerkUserInput,
+} from './clerk-adapter';
+import {
+  TenantResolutionPolicy,
+  TenantRequest,
+  DEFAULT_TENANT_RESOLUTION_POLICY,
+  isPersonalTenant,
+  resolveSessionTenant,
+} from './tenant-resolution';
+
+/**
+ * Clerk provider configuration
+ */
+export interface ClerkIdentityProviderConfig {
+  /**
+   * Tenant of sessions without an active organization (default: reject)
+   */
+  tenantResolution?: TenantResolutionPolicy;
+}
+
+/**
+ * Map Clerk session claims to a session context
+ * @param tenantId Tenant resolved for the session (default the active organization)
+ * @throws NoActiveTenantError if no tenant is given and the session has no active organization
+ */
+export function clerkClaimsToSessionContext(claims: ClerkSessionClaims, tenantId?: TenantId): SessionContext {
+  const tenantContext = extractTenantContext(claims, tenantId);
+  return {
+    sessionId: tenantContext.sessionId,
+    userId: tenantContext.userId,
+    tenantId: tenantContext.tenantId,
+    roles: tenantContext.roles,
+    permissions: tenantContext.permissions,
+    issuedAt: tenantContext.issuedAt,
+    expiresAt: tenantContext.expiresAt,
+  };
+}
+
+class ClerkUserDirectory implements UserDirectory<ClerkUser> {
+  private adapter: ClerkAdapterInterface;
+  private tenantResolution: TenantResolutionPolicy;
+
+  constructor(adapter: ClerkAdapterInterface, tenantResolution: TenantResolutionPolicy) {
+    this.adapter = adapter;
+    this.tenantResolution = tenantResolution;
+  }
+
+  toUserProfile(user: ClerkUser, tenantId: TenantId): UserProfile {
+    return clerkUserToProfile(user, tenantId);
+  }
+
+  getUser(userId: UserId): Promise<ClerkUser | null> {
+    return this.adapter.getUser(userId);
+  }
+
+  getUserByEmail(email: string): Promise<ClerkUser | null> {
+    return this.adapter.getUserByEmail(email);
+  }
+
+  getUserByPhone(phone: PhoneNumber): Promise<ClerkUser | null> {
+    return this.adapter.getUserByPhone(phone);
+  }
+
+  listTenantMembers(tenantId: TenantId, options: ListUsersOptions): Promise<Page<ClerkUser>> {
+    return this.adapter.listOrganizationMembers(tenantId, options);
+  }
+
+  async isTenantMember(tenantId: TenantId, userId: UserId): Promise<boolean> {
+    // Personal workspaces are not Clerk organizations
+    if (isPersonalTenant(this.tenantResolution, tenantId, userId)) return true;
+    return (await this.adapter.getOrganizationMembership(tenantId, userId)) !== null;
+  }
+
+  async createUser(tenantId: TenantId, input: DirectoryUserInput): Promise<ClerkUser> {
+    const user = await this.adapter.createUser(toClerkUserInput(input));
+    try {
+      await this.adapter.addOrganizationMember(tenantId, user.id);
+    } catch (err) {
+      // Do not leave a user outside every organization behind
+      await this.adapter.deleteUser(user.id).catch(() => undefined);
+      throw err;
+    }
+    return user;
+  }
+
+  updateUser(userId: UserId, input: UpdateUserInput): Promise<ClerkUser | null> {
+    return this.adapter.updateUser(userId, toClerkUserInput(input));
+  }
+
+  deleteUser(userId: UserId): Promise<void> {
+    return this.adapter.deleteUser(userId);
+  }
+
+  async addTenantMember(tenantId: TenantId, userId: UserId): Promise<void> {
+    await this.adapter.addOrganizationMember(tenantId, userId);
+  }
+
+  removeTenantMember(tenantId: TenantId, userId: UserId): Promise<void> {
+    return this.adapter.removeOrganizationMember(tenantId, userId);
+  }
+}
+
+/**
+ * Clerk identity provider
+ */
+export class ClerkIdentityProvider implements IdentityProvider<ClerkSessionClaims, ClerkUser> {
+  readonly name = 'clerk';
+  readonly directory: UserDirectory<ClerkUser>;
+  private adapter: ClerkAdapterInterface;
+  private tenantResolution: TenantResolutionPolicy;
+
+  constructor(adapter: ClerkAdapterInterface, config: ClerkIdentityProviderConfig = {}) {
+    this.adapter = adapter;
+    this.tenantResolution = config.tenantResolution || DEFAULT_TENANT_RESOLUTION_POLICY;
+    this.directory = new ClerkUserDirectory(adapter, this.tenantResolution);
+  }
+
+  verifySession(sessionToken: string): Promise<ClerkSessionClaims | null> {
+    return this.adapter.verifySession(sessionToken);
+  }
+
+  async toSessionContext(claims: ClerkSessionClaims, request?: TenantRequest): Promise<SessionContext | null> {
+    const tenantId = await resolveSessionTenant(claims, this.tenantResolution, request);
+    if (!tenantId) return null;
+    if (claims.org_id || this.tenantResolution.mode !== 'slug') {
+      return clerkClaimsToSessionContext(claims, tenantId);
+    }
+
+    // A slug can name any organization, so the session only gets one the user belongs to, with their role there
+    const membership = await this.adapter.getOrganizationMembership(tenantId, claims.sub);
+    return membership ? clerkClaimsToSessionContext({ ...claims, org_role: membership.role }, tenantId) : null;
+  }
+}
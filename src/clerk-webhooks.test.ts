@@ -0,0 +1,253 @@
+/**
+ * Clerk Webhook Tests
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { ClerkWebhookHandler, verifyWebhookSignature, WebhookHeaders } from './clerk-webhooks';
+import { MockClerkAdapter, ClerkUser } from './clerk-adapter';
+import { MembershipCache } from './membership-cache';
+import { IdentityService } from './identity-service';
+import { InMemoryUserStorage, InMemorySessionStorage } from './storage';
+import { ValidationError, WebhookVerificationError } from './errors';
+
+const secretBytes = randomBytes(24);
+const signingSecret = `whsec_${secretBytes.toString('base64')}`;
+
+const sign = (payload: string, id = 'msg_1', timestamp = Math.floor(Date.now() / 1000), key = secretBytes): WebhookHeaders => ({
+  'svix-id': id,
+  'svix-timestamp': String(timestamp),
+  'svix-signature': `v1,${createHmac('sha256', key).update(`${id}.${timestamp}.${payload}`).digest('base64')}`,
+});
+
+const apiUser = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  id: 'user_1',
+  primary_email_address_id: 'e1',
+  email_addresses: [{ id: 'e1', email_address: 'ada@example.com' }],
+  phone_numbers: [{ id: 'p1', phone_number: '+2348012345678' }],
+  first_name: 'Ada',
+  last_name: 'Obi',
+  public_metadata: {},
+  created_at: 1700000000000,
+  updated_at: 1700000000000,
+  ...overrides,
+});
+
+const clerkUser: ClerkUser = {
+  id: 'user_1',
+  primaryEmailAddressId: 'e1',
+  emailAddresses: [{ id: 'e1', emailAddress: 'ada@example.com' }],
+  phoneNumbers: [{ id: 'p1', phoneNumber: '+2348012345678' }],
+  firstName: 'Ada',
+  publicMetadata: {},
+  privateMetadata: {},
+  createdAt: 1700000000000,
+  updatedAt: 1700000000000,
+};
+
+describe('verifyWebhookSignature', () => {
+  const payload = JSON.stringify({ type: 'user.created', data: {} });
+
+  it('should accept a valid signature', () => {
+    expect(() => verifyWebhookSignature(payload, sign(payload), signingSecret)).not.toThrow();
+  });
+
+  it('should accept any matching signature among several', () => {
+    const headers = sign(payload);
+    headers['svix-signature'] = `v1,${randomBytes(32).toString('base64')} ${headers['svix-signature']}`;
+
+    expect(() => verifyWebhookSignature(payload, headers, signingSecret)).not.toThrow();
+  });
+
+  it('should reject a tampered payload or wrong secret', () => {
+    expect(() => verifyWebhookSignature(`${payload} `, sign(payload), signingSecret)).toThrow(WebhookVerificationError);
+    expect(() => verifyWebhookSignature(payload, sign(payload, 'msg_1', undefined, randomBytes(24)), signingSecret))
+      .toThrow(WebhookVerificationError);
+  });
+
+  it('should reject timestamps outside the tolerance', () => {
+    const old = Math.floor(Date.now() / 1000) - 600;
+
+    expect(() => verifyWebhookSignature(payload, sign(payload, 'msg_1', old), signingSecret))
+      .toThrow('Webhook timestamp outside tolerance');
+    expect(() => verifyWebhookSignature(payload, sign(payload, 'msg_1', old), signingSecret, 900)).not.toThrow();
+  });
+
+  it('should reject missing headers and unknown signature versions', () => {
+    const headers = sign(payload);
+
+    expect(() => verifyWebhookSignature(payload, { ...headers, 'svix-id': undefined }, signingSecret))
+      .toThrow('Missing webhook signature headers');
+    expect(() => verifyWebhookSignature(payload, {
+      ...headers,
+      'svix-signature': (headers['svix-signature'] as string).replace('v1,', 'v2,'),
+    }, signingSecret)).toThrow(WebhookVerificationError);
+  });
+});
+
+describe('ClerkWebhookHandler', () => {
+  let userStorage: InMemoryUserStorage;
+  let sessionStorage: InMemorySessionStorage;
+  let membershipCache: MembershipCache;
+  let adapter: MockClerkAdapter;
+  let handler: ClerkWebhookHandler;
+
+  const deliver = (type: string, data: Record<string, unknown>): ReturnType<ClerkWebhookHandler['handle']> => {
+    const payload = JSON.stringify({ type, object: 'event', data });
+    return handler.handle(payload, sign(payload));
+  };
+
+  const membership = (orgId: string, userId = 'user_1'): Record<string, unknown> => ({
+    id: 'orgmem_1',
+    role: 'org:member',
+    organization: { id: orgId },
+    public_user_data: { user_id: userId },
+  });
+
+  beforeEach(() => {
+    userStorage = new InMemoryUserStorage();
+    sessionStorage = new InMemorySessionStorage();
+    membershipCache = new MembershipCache({ ttlMs: 60 * 1000 });
+    adapter = new MockClerkAdapter();
+    adapter.addUser(clerkUser);
+    handler = new ClerkWebhookHandler({ signingSecret, userStorage, sessionStorage, membershipCache, clerkAdapter: adapter });
+  });
+
+  it('should reject unsigned payloads without applying them', async () => {
+    const payload = JSON.stringify({ type: 'organizationMembership.created', data: membership('org_1') });
+
+    await expect(handler.handle(payload, {})).rejects.toThrow(WebhookVerificationError);
+    expect(await userStorage.getUser('org_1', 'user_1')).toBeNull();
+  });
+
+  it('should reject authentic payloads that are not Clerk events', async () => {
+    expect(() => handler.verify('not json', sign('not json'))).toThrow(ValidationError);
+    expect(() => handler.verify('{"type":1}', sign('{"type":1}'))).toThrow(ValidationError);
+  });
+
+  it('should mirror new members and invalidate cached membership checks', async () => {
+    membershipCache.set('org_1', 'user_1', false);
+
+    const result = await deliver('organizationMembership.created', membership('org_1'));
+
+    expect(result).toEqual({ id: 'msg_1', type: 'organizationMembership.created', handled: true });
+    expect(membershipCache.get('org_1', 'user_1')).toBeUndefined();
+    expect(await userStorage.getUser('org_1', 'user_1')).toMatchObject({ phone: '+2348012345678', displayName: 'Ada' });
+  });
+
+  it('should be idempotent for redelivered membership events', async () => {
+    await deliver('organizationMembership.created', membership('org_1'));
+    await deliver('organizationMembership.created', membership('org_1'));
+
+    expect(await userStorage.listTenantsForUser('user_1')).toEqual(['org_1']);
+  });
+
+  it('should remove departed members and their sessions', async () => {
+    await deliver('organizationMembership.created', membership('org_1'));
+    await sessionStorage.createSession({
+      sessionId: 'sess_1',
+      userId: 'user_1',
+      tenantId: 'org_1',
+      roles: [],
+      issuedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    });
+    membershipCache.set('org_1', 'user_1', true);
+
+    await deliver('organizationMembership.deleted', membership('org_1'));
+
+    expect(await userStorage.getUser('org_1', 'user_1')).toBeNull();
+    expect(await sessionStorage.getSession('sess_1')).toBeNull();
+    expect(membershipCache.get('org_1', 'user_1')).toBeUndefined();
+  });
+
+  it('should apply user updates in every tenant holding the user', async () => {
+    await deliver('organizationMembership.created', membership('org_1'));
+    await deliver('organizationMembership.created', membership('org_2'));
+
+    await deliver('user.updated', apiUser({ first_name: 'Adaeze', public_metadata: { plan: 'pro' } }));
+
+    for (const tenantId of ['org_1', 'org_2']) {
+      const profile = await userStorage.getUser(tenantId, 'user_1');
+      expect(profile?.displayName).toBe('Adaeze Obi');
+      expect(profile?.metadata).toMatchObject({ plan: 'pro' });
+    }
+  });
+
+  it('should move mirrored profiles to a changed phone number', async () => {
+    await deliver('organizationMembership.created', membership('org_1'));
+
+    const result = await deliver('user.updated', apiUser({ phone_numbers: [{ id: 'p2', phone_number: '+2348098765432' }] }));
+
+    expect(result.conflicts).toBeUndefined();
+    expect(await userStorage.getUser('org_1', 'user_1')).toMatchObject({ phone: '+2348098765432' });
+    expect(await userStorage.getUserByPhone('org_1', '+2348012345678')).toBeNull();
+  });
+
+  it('should report updates clashing with another local user as conflicts', async () => {
+    await deliver('organizationMembership.created', membership('org_1'));
+    await userStorage.createUser({
+      userId: 'local_1',
+      tenantId: 'org_1',
+      phone: '+2348098765432',
+      emailVerified: false,
+      phoneVerified: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const result = await deliver('user.updated', apiUser({
+      first_name: 'Adaeze',
+      phone_numbers: [{ id: 'p2', phone_number: '+2348098765432' }],
+    }));
+
+    expect(result).toMatchObject({ handled: true, conflicts: [{ tenantId: 'org_1', userId: 'user_1' }] });
+    expect(await userStorage.getUser('org_1', 'user_1')).toMatchObject({ phone: '+2348012345678', displayName: 'Adaeze Obi' });
+  });
+
+  it('should report new members clashing with another local user as conflicts', async () => {
+    await userStorage.createUser({
+      userId: 'local_1',
+      tenantId: 'org_1',
+      phone: '+2348012345678',
+      emailVerified: false,
+      phoneVerified: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const result = await deliver('organizationMembership.created', membership('org_1'));
+
+    expect(result.conflicts).toEqual([{ tenantId: 'org_1', userId: 'user_1', reason: expect.any(String) }]);
+    expect(await userStorage.getUser('org_1', 'user_1')).toBeNull();
+  });
+
+  it('should remove deleted users from every tenant', async () => {
+    await deliver('organizationMembership.created', membership('org_1'));
+    await deliver('organizationMembership.created', membership('org_2'));
+    membershipCache.set('org_3', 'user_1', true);
+
+    await deliver('user.deleted', { id: 'user_1', object: 'user', deleted: true });
+
+    expect(await userStorage.listTenantsForUser('user_1')).toEqual([]);
+    expect(membershipCache.get('org_3', 'user_1')).toBeUndefined();
+  });
+
+  it('should report unhandled event types', async () => {
+    expect((await deliver('email.created', {})).handled).toBe(false);
+  });
+
+  it('should make revoked Clerk sessions fail validation', async () => {
+    const service = new IdentityService({ userStorage, sessionStorage, clerkAdapter: adapter, membershipCache });
+    const now = Math.floor(Date.now() / 1000);
+    adapter.addSession('clerk_token', { sub: 'user_1', sid: 'sess_clerk', org_id: 'org_1', iat: now, exp: now + 60 });
+    expect((await service.validateSession('clerk_token')).valid).toBe(true);
+
+    await deliver('session.revoked', { id: 'sess_clerk', user_id: 'user_1', expire_at: Date.now() + 60 * 1000 });
+
+    expect(await service.validateSession('clerk_token')).toEqual({ valid: false, reason: 'Session revoked' });
+  });
+
+  it('should require a signing secret', () => {
+    expect(() => new ClerkWebhookHandler({ signingSecret: '' })).toThrow('signing secret');
+  });
+});
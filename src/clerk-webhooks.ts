@@ -0,0 +1,339 @@
+/**
+ * Clerk webhook ingestion
+ *
+ * Clerk delivers webhooks through Svix. Every payload is verified against the
+ * endpoint's signing secret (`whsec_...`) before any state is touched, then
+ * mapped onto local storage and caches:
+ * - `user.updated` / `user.deleted` update or remove the mirrored profile in
+ *   every tenant that holds one, including phone number changes
+ * - `organizationMembership.*` invalidates cached membership checks and adds
+ *   or removes the member's profile in that tenant
+ * - `session.revoked` deny-lists the session so validateSession rejects it
+ *
+ * `user.created` carries no organization, so nothing is stored until the
+ * user joins one. Changes that clash with another local user's phone number
+ * or email address are skipped and reported as conflicts instead of failing
+ * the webhook, since Svix redeliveries would fail the same way.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { UserStorage, SessionStorage } from './storage';
+import { MembershipCache } from './membership-cache';
+import { ClerkAdapterInterface, clerkUserToProfile } from './clerk-adapter';
+import { ClerkApiUser, toClerkUser } from './clerk-backend-adapter';
+import { NotConfiguredError, UserExistsError, ValidationError, WebhookVerificationError } from './errors';
+
+/**
+ * Default tolerance between the webhook timestamp and the local clock
+ */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Request headers, as exposed by Node's IncomingMessage or a plain object
+ */
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Verified Clerk webhook event
+ */
+export interface ClerkWebhookEvent {
+  type: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * A change that could not be applied because it clashes with another local user
+ */
+export interface ClerkWebhookConflict {
+  tenantId: string;
+  userId: string;
+  reason: string;
+}
+
+/**
+ * Outcome of handling a webhook
+ */
+export interface ClerkWebhookResult {
+  /**
+   * Svix message ID - stable across redeliveries of the same event
+   */
+  id: string;
+  type: string;
+  /**
+   * False for event types this handler ignores
+   */
+  handled: boolean;
+  /**
+   * Changes skipped because they clash with other local users, if any
+   */
+  conflicts?: ClerkWebhookConflict[];
+}
+
+/**
+ * Clerk webhook handler configuration
+ */
+export interface ClerkWebhookHandlerConfig {
+  signingSecret: string;
+  toleranceSeconds?: number;
+  userStorage?: UserStorage;
+  sessionStorage?: SessionStorage;
+  membershipCache?: MembershipCache;
+  /**
+   * Used to fetch the full user when a membership is created
+   */
+  clerkAdapter?: ClerkAdapterInterface;
+}
+
+interface ClerkWebhookMembership {
+  organization?: { id?: string };
+  public_user_data?: { user_id?: string };
+}
+
+interface ClerkWebhookSession {
+  id?: string;
+  expire_at?: number;
+}
+
+function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) {
+      return Array.isArray(value) ? value[0] : value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Verify a Svix webhook signature
+ *
+ * The signature header may list several space-separated `v1,<base64>`
+ * signatures (one per active secret during rotation); any match is accepted.
+ * @throws WebhookVerificationError if headers are missing, the timestamp is
+ *   outside the tolerance, or no signature matches
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  headers: WebhookHeaders,
+  signingSecret: string,
+  toleranceSeconds = DEFAULT_WEBHOOK_TOLERANCE_SECONDS
+): void {
+  const id = getHeader(headers, 'svix-id');
+  const timestamp = getHeader(headers, 'svix-timestamp');
+  const signatures = getHeader(headers, 'svix-signature');
+  if (!id || !timestamp || !signatures) {
+    throw new WebhookVerificationError('Missing webhook signature headers');
+  }
+
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isInteger(timestampSeconds)) {
+    throw new WebhookVerificationError('Invalid webhook timestamp');
+  }
+
+  // Bounds replay of captured payloads to the tolerance window
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestampSeconds) > toleranceSeconds) {
+    throw new WebhookVerificationError('Webhook timestamp outside tolerance');
+  }
+
+  const secret = signingSecret.startsWith('whsec_') ? signingSecret.slice('whsec_'.length) : signingSecret;
+  const expected = createHmac('sha256', Buffer.from(secret, 'base64'))
+    .update(`${id}.${timestamp}.${payload}`)
+    .digest();
+
+  for (const entry of signatures.split(' ')) {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature) continue;
+
+    const candidate = Buffer.from(signature, 'base64');
+    if (candidate.length === expected.length && timingSafeEqual(candidate, expected)) return;
+  }
+
+  throw new WebhookVerificationError();
+}
+
+/**
+ * Verifies Clerk webhooks and applies them to local state
+ *
+ * Handling is idempotent, so Svix redeliveries are safe.
+ */
+export class ClerkWebhookHandler {
+  private signingSecret: string;
+  private toleranceSeconds: number;
+  private userStorage?: UserStorage;
+  private sessionStorage?: SessionStorage;
+  private membershipCache?: MembershipCache;
+  private clerkAdapter?: ClerkAdapterInterface;
+
+  constructor(config: ClerkWebhookHandlerConfig) {
+    if (!config.signingSecret) {
+      throw new NotConfiguredError('Clerk webhook signing secret is required');
+    }
+
+    this.signingSecret = config.signingSecret;
+    this.toleranceSeconds = config.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+    this.userStorage = config.userStorage;
+    this.sessionStorage = config.sessionStorage;
+    this.membershipCache = config.membershipCache;
+    this.clerkAdapter = config.clerkAdapter;
+  }
+
+  /**
+   * Verify and apply a webhook
+   * @param payload The raw request body, exactly as received
+   * @throws WebhookVerificationError if the payload is not authentic
+   */
+  async handle(payload: string, headers: WebhookHeaders): Promise<ClerkWebhookResult> {
+    const event = this.verify(payload, headers);
+    const id = getHeader(headers, 'svix-id')!;
+
+    const conflicts: ClerkWebhookConflict[] = [];
+    const handled = await this.apply(event, conflicts);
+    const result: ClerkWebhookResult = { id, type: event.type, handled };
+    if (conflicts.length > 0) {
+      result.conflicts = conflicts;
+    }
+    return result;
+  }
+
+  /**
+   * Verify a webhook and parse its event without applying it
+   * @throws WebhookVerificationError if the payload is not authentic
+   * @throws ValidationError if an authentic payload is not a Clerk event
+   */
+  verify(payload: string, headers: WebhookHeaders): ClerkWebhookEvent {
+    verifyWebhookSignature(payload, headers, this.signingSecret, this.toleranceSeconds);
+
+    let event: ClerkWebhookEvent;
+    try {
+      event = JSON.parse(payload) as ClerkWebhookEvent;
+    } catch {
+      throw new ValidationError([{ path: [], message: 'Webhook payload is not valid JSON' }]);
+    }
+    if (!event || typeof event.type !== 'string' || !event.data || typeof event.data !== 'object') {
+      throw new ValidationError([{ path: [], message: 'Malformed Clerk webhook event' }]);
+    }
+    return event;
+  }
+
+  private async apply(event: ClerkWebhookEvent, conflicts: ClerkWebhookConflict[]): Promise<boolean> {
+    switch (event.type) {
+      case 'user.created':
+        return true;
+      case 'user.updated':
+        await this.onUserUpdated(event.data as unknown as ClerkApiUser, conflicts);
+        return true;
+      case 'user.deleted':
+        await this.onUserDeleted(event.data.id as string);
+        return true;
+      case 'organizationMembership.created':
+      case 'organizationMembership.updated':
+      case 'organizationMembership.deleted':
+        await this.onMembershipChanged(event.type, event.data as ClerkWebhookMembership, conflicts);
+        return true;
+      case 'session.revoked':
+        await this.onSessionRevoked(event.data as ClerkWebhookSession);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private async onUserUpdated(data: ClerkApiUser, conflicts: ClerkWebhookConflict[]): Promise<void> {
+    const userStorage = this.userStorage;
+    if (!userStorage) return;
+
+    const user = toClerkUser(data);
+    for (const tenantId of await userStorage.listTenantsForUser(user.id)) {
+      const { phone, email, emailVerified, phoneVerified, displayName, metadata } = clerkUserToProfile(user, tenantId);
+      const existing = await userStorage.getUser(tenantId, user.id);
+
+      // Profiles are keyed by phone, so a removed number keeps the old one
+      if (existing && phone && phone !== existing.phone) {
+        await this.applyChange(conflicts, tenantId, user.id, () => userStorage.changePhone(tenantId, user.id, phone));
+      }
+      await this.applyChange(conflicts, tenantId, user.id, () =>
+        userStorage.updateUser(tenantId, user.id, { email, emailVerified, phoneVerified, displayName, metadata })
+      );
+    }
+  }
+
+  /**
+   * Apply a profile change, recording a conflict if it clashes with another user
+   */
+  private async applyChange(
+    conflicts: ClerkWebhookConflict[],
+    tenantId: string,
+    userId: string,
+    change: () => Promise<unknown>
+  ): Promise<void> {
+    try {
+      await change();
+    } catch (error) {
+      if (!(error instanceof UserExistsError)) throw error;
+      conflicts.push({ tenantId, userId, reason: error.message });
+    }
+  }
+
+  private async onUserDeleted(userId: string): Promise<void> {
+    if (!userId) return;
+
+    this.membershipCache?.invalidateUser(userId);
+    if (!this.userStorage) return;
+
+    for (const tenantId of await this.userStorage.listTenantsForUser(userId)) {
+      await this.removeTenantUser(tenantId, userId);
+    }
+  }
+
+  private async onMembershipChanged(
+    type: string,
+    data: ClerkWebhookMembership,
+    conflicts: ClerkWebhookConflict[]
+  ): Promise<void> {
+    const tenantId = data.organization?.id;
+    const userId = data.public_user_data?.user_id;
+    if (!tenantId || !userId) return;
+
+    this.membershipCache?.invalidate(tenantId, userId);
+
+    if (type === 'organizationMembership.deleted') {
+      await this.removeTenantUser(tenantId, userId);
+      return;
+    }
+
+    if (type === 'organizationMembership.created') {
+      await this.mirrorTenantUser(tenantId, userId, conflicts);
+    }
+  }
+
+  private async mirrorTenantUser(tenantId: string, userId: string, conflicts: ClerkWebhookConflict[]): Promise<void> {
+    const userStorage = this.userStorage;
+    if (!userStorage || !this.clerkAdapter) return;
+    if (await userStorage.getUser(tenantId, userId)) return;
+
+    const user = await this.clerkAdapter.getUser(userId);
+    if (!user) return;
+
+    const profile = clerkUserToProfile(user, tenantId);
+    // Profiles are keyed by phone, so users without one cannot be mirrored
+    if (!profile.phone) return;
+
+    await this.applyChange(conflicts, tenantId, userId, () => userStorage.createUser(profile));
+  }
+
+  private async removeTenantUser(tenantId: string, userId: string): Promise<void> {
+    await this.sessionStorage?.deleteUserSessions(tenantId, userId);
+    await this.userStorage?.deleteUser(tenantId, userId);
+  }
+
+  private async onSessionRevoked(data: ClerkWebhookSession): Promise<void> {
+    if (!this.sessionStorage || !data.id) return;
+
+    // Keep the deny-list entry until the session would have expired anyway
+    const expiresAt = typeof data.expire_at === 'number'
+      ? new Date(data.expire_at)
+      : new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    await this.sessionStorage.revokeSession(data.id, expiresAt);
+    await this.sessionStorage.deleteSession(data.id);
+  }
+}
@@ -0,0 +1,45 @@
+import { hashCredential, verifyCredential } from './credentials';
+
+describe('hashCredential', () => {
+  it('should produce a self-describing scrypt hash', async () => {
+    const hash = await hashCredential('password123', { cost: 1024 });
+
+    expect(hash.split('$')).toHaveLength(6);
+    expect(hash.startsWith('scrypt$1024$8$1$')).toBe(true);
+    expect(hash).not.toContain('password123');
+  });
+
+  it('should use a random salt per hash', async () => {
+    const hash1 = await hashCredential('password123', { cost: 1024 });
+    const hash2 = await hashCredential('password123', { cost: 1024 });
+
+    expect(hash1).not.toBe(hash2);
+  });
+});
+
+describe('verifyCredential', () => {
+  it('should accept the matching credential', async () => {
+    const hash = await hashCredential('password123', { cost: 1024 });
+
+    expect(await verifyCredential('password123', hash)).toBe(true);
+  });
+
+  it('should reject a different credential', async () => {
+    const hash = await hashCredential('password123', { cost: 1024 });
+
+    expect(await verifyCredential('password124', hash)).toBe(false);
+  });
+
+  it('should reject malformed hashes', async () => {
+    expect(await verifyCredential('password123', 'not-a-hash')).toBe(false);
+    expect(await verifyCredential('password123', 'bcrypt$1$2$3$salt$hash')).toBe(false);
+    expect(await verifyCredential('password123', 'scrypt$x$8$1$c2FsdA==$aGFzaA==')).toBe(false);
+    expect(await verifyCredential('password123', 'scrypt$1024$8$1$c2FsdA==$aGFzaA==')).toBe(false);
+  });
+
+  it('should reject hashes with parameters scrypt cannot use', async () => {
+    const [, , , , salt, key] = (await hashCredential('password123', { cost: 1024 })).split('$');
+
+    expect(await verifyCredential('password123', `scrypt$1000$8$1$${salt}$${key}`)).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Credential hashing utilities
+ *
+ * Credentials are hashed with scrypt from Node's crypto module using a random
+ * per-credential salt. Hashes are self-describing so cost parameters can be
+ * raised later without invalidating existing records:
+ *
+ *   scrypt$<N>$<r>$<p>$<salt (base64)>$<hash (base64)>
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, ScryptOptions } from 'crypto';
+
+/**
+ * scrypt cost parameters
+ */
+export interface CredentialHashOptions {
+  cost?: number;
+  blockSize?: number;
+  parallelization?: number;
+}
+
+const HASH_PREFIX = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+const DEFAULT_COST = 16384;
+const DEFAULT_BLOCK_SIZE = 8;
+const DEFAULT_PARALLELIZATION = 1;
+
+function deriveKey(credential: string, salt: Buffer, options: Required<CredentialHashOptions>): Promise<Buffer> {
+  const scryptOptions: ScryptOptions = {
+    N: options.cost,
+    r: options.blockSize,
+    p: options.parallelization,
+    maxmem: 256 * options.cost * options.blockSize,
+  };
+
+  return new Promise((resolve, reject) => {
+    scrypt(credential.normalize('NFKC'), salt, KEY_LENGTH, scryptOptions, (err, derivedKey) => {
+      if (err) reject(err);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Hash a credential with a random salt
+ * @param credential Raw credential (password, PIN, ...)
+ * @param options Optional scrypt cost parameters
+ * @returns Encoded hash suitable for storage
+ */
+export async function hashCredential(credential: string, options: CredentialHashOptions = {}): Promise<string> {
+  const params: Required<CredentialHashOptions> = {
+    cost: options.cost ?? DEFAULT_COST,
+    blockSize: options.blockSize ?? DEFAULT_BLOCK_SIZE,
+    parallelization: options.parallelization ?? DEFAULT_PARALLELIZATION,
+  };
+
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(credential, salt, params);
+
+  return [
+    HASH_PREFIX,
+    params.cost,
+    params.blockSize,
+    params.parallelization,
+    salt.toString('base64'),
+    key.toString('base64'),
+  ].join('$');
+}
+
+/**
+ * Verify a credential against an encoded hash
+ * @param credential Raw credential to check
+ * @param encodedHash Hash produced by hashCredential
+ * @returns true if the credential matches, false otherwise (including malformed hashes)
+ */
+export async function verifyCredential(credential: string, encodedHash: string): Promise<boolean> {
+  const parts = encodedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== HASH_PREFIX) {
+    return false;
+  }
+
+  const [, cost, blockSize, parallelization, saltB64, keyB64] = parts;
+  const params: Required<CredentialHashOptions> = {
+    cost: Number(cost),
+    blockSize: Number(blockSize),
+    parallelization: Number(parallelization),
+  };
+
+  if (![params.cost, params.blockSize, params.parallelization].every(n => Number.isInteger(n) && n > 0)) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyB64, 'base64');
+  if (expected.length !== KEY_LENGTH) {
+    return false;
+  }
+
+  let actual: Buffer;
+  try {
+    actual = await deriveKey(credential, Buffer.from(saltB64, 'base64'), params);
+  } catch {
+    // Parameters scrypt rejects (cost not a power of 2, over the memory limit, ...)
+    return false;
+  }
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,59 @@
+import {
+  signEmailVerificationToken,
+  verifyEmailVerificationToken,
+  InMemoryEmailSender,
+} from './email-verification';
+import { signJwt } from './jwt';
+
+const SECRET = 'email-verification-secret-at-least-32-bytes';
+
+const claims = { tenantId: 'tenant-1', userId: 'user-1', email: 'ada@example.com' };
+
+describe('email verification tokens', () => {
+  it('should round-trip the verified address', () => {
+    const token = signEmailVerificationToken(claims, SECRET, new Date(Date.now() + 60 * 1000));
+
+    expect(verifyEmailVerificationToken(token, SECRET)).toEqual(claims);
+  });
+
+  it('should reject expired tokens', () => {
+    const token = signEmailVerificationToken(claims, SECRET, new Date(Date.now() - 1000));
+
+    expect(verifyEmailVerificationToken(token, SECRET)).toBeNull();
+  });
+
+  it('should reject tokens signed with another secret', () => {
+    const token = signEmailVerificationToken(claims, 'another-secret-that-is-32-bytes-long', new Date(Date.now() + 60 * 1000));
+
+    expect(verifyEmailVerificationToken(token, SECRET)).toBeNull();
+  });
+
+  it('should reject tokens issued for another purpose', () => {
+    const token = signJwt(
+      { sub: 'user-1', org_id: 'tenant-1', email: 'ada@example.com', exp: Math.floor(Date.now() / 1000) + 60 },
+      { kid: 'email-verification', algorithm: 'HS256', secret: SECRET }
+    );
+
+    expect(verifyEmailVerificationToken(token, SECRET)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyEmailVerificationToken('not-a-token', SECRET)).toBeNull();
+  });
+});
+
+describe('InMemoryEmailSender', () => {
+  it('should capture sent messages', async () => {
+    const sender = new InMemoryEmailSender();
+
+    await sender.sendEmail('ada@example.com', 'First', 'one');
+    await sender.sendEmail('ada@example.com', 'Second', 'two');
+
+    expect(sender.messages).toHaveLength(2);
+    expect(sender.lastMessageTo('ada@example.com')?.subject).toBe('Second');
+    expect(sender.lastMessageTo('bob@example.com')).toBeUndefined();
+
+    sender.clear();
+    expect(sender.messages).toHaveLength(0);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Email verification primitives
+ *
+ * Verification links carry a signed, expiring token (an HS256 JWT) naming
+ * the tenant, user and address being verified, so nothing has to be stored
+ * while a verification is pending. A token only confirms the address it was
+ * issued for: once the user's email changes, older tokens stop working.
+ * Delivery is delegated to a pluggable EmailSender.
+ */
+
+import { TenantId, UserId } from './types';
+import { JwtKey, signJwt, decodeJwt, verifyJwtSignature } from './jwt';
+
+/**
+ * Email delivery interface - implement this for your email provider
+ */
+export interface EmailSender {
+  sendEmail(to: string, subject: string, body: string): Promise<void>;
+}
+
+/**
+ * Email verification configuration
+ */
+export interface EmailVerificationConfig {
+  /**
+   * HMAC key for verification tokens (at least 32 bytes)
+   */
+  secret: string | Buffer;
+  ttlMs?: number;
+  subject?: string;
+  /**
+   * Email body; typically embeds the token in a link to your confirmation page
+   */
+  messageTemplate?: (token: string) => string;
+}
+
+/**
+ * Default email verification settings
+ */
+export const DEFAULT_EMAIL_VERIFICATION_CONFIG: Required<Omit<EmailVerificationConfig, 'secret'>> = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  subject: 'Verify your email address',
+  messageTemplate: (token: string) => `Use this code to verify your WebWaka email address: ${token}`,
+};
+
+/**
+ * Address a verification token was issued for
+ */
+export interface EmailVerificationClaims {
+  tenantId: TenantId;
+  userId: UserId;
+  email: string;
+}
+
+/**
+ * Email captured by InMemoryEmailSender
+ */
+export interface SentEmail {
+  to: string;
+  subject: string;
+  body: string;
+  sentAt: Date;
+}
+
+interface EmailVerificationPayload {
+  typ: 'email_verification';
+  sub: UserId;
+  org_id: TenantId;
+  email: string;
+  iat: number;
+  exp: number;
+}
+
+function verificationKey(secret: string | Buffer): JwtKey {
+  return { kid: 'email-verification', algorithm: 'HS256', secret };
+}
+
+/**
+ * Issue a verification token
+ */
+export function signEmailVerificationToken(
+  claims: EmailVerificationClaims,
+  secret: string | Buffer,
+  expiresAt: Date
+): string {
+  const payload: EmailVerificationPayload = {
+    typ: 'email_verification',
+    sub: claims.userId,
+    org_id: claims.tenantId,
+    email: claims.email,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  };
+  return signJwt(payload, verificationKey(secret));
+}
+
+/**
+ * Verify a token's signature, purpose and expiry
+ * @returns The address it confirms, or null if the token is invalid
+ */
+export function verifyEmailVerificationToken(token: string, secret: string | Buffer): EmailVerificationClaims | null {
+  const decoded = decodeJwt<Partial<EmailVerificationPayload>>(token);
+  if (!decoded || !verifyJwtSignature(decoded, verificationKey(secret))) return null;
+
+  const { typ, sub, org_id, email, exp } = decoded.payload;
+  if (typ !== 'email_verification' || !sub || !org_id || !email || typeof exp !== 'number') return null;
+  if (exp * 1000 <= Date.now()) return null;
+
+  return { tenantId: org_id, userId: sub, email };
+}
+
+/**
+ * In-memory email sender for testing
+ *
+ * Captures every message instead of delivering it.
+ */
+export class InMemoryEmailSender implements EmailSender {
+  readonly messages: SentEmail[] = [];
+
+  async sendEmail(to: string, subject: string, body: string): Promise<void> {
+    this.messages.push({ to, subject, body, sentAt: new Date() });
+  }
+
+  /**
+   * Get the most recent message sent to an address
+   */
+  lastMessageTo(email: string): SentEmail | undefined {
+    for (let i = this.messages.length - 1; i >= 0; i--) {
+      if (this.messages[i].to === email) return this.messages[i];
+    }
+    return undefined;
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  IdentityError,
+  serializeError,
+  ValidationError,
+  UserNotFoundError,
+  InvalidSessionError,
+  AccountLockedError,
+  ClerkApiError,
+  ProviderError,
+  InvalidCredentialsError,
+} from './errors';
+
+describe('IdentityError', () => {
+  it('should carry a stable code and HTTP status hint', () => {
+    const error = new UserNotFoundError();
+
+    expect(error).toBeInstanceOf(IdentityError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('UserNotFoundError');
+    expect(error.code).toBe('USER_NOT_FOUND');
+    expect(error.httpStatus).toBe(404);
+  });
+
+  it('should keep existing error types in the hierarchy', () => {
+    const error = new InvalidCredentialsError();
+
+    expect(error).toBeInstanceOf(IdentityError);
+    expect(error.code).toBe('INVALID_CREDENTIALS');
+    expect(error.message).toBe('Invalid credentials');
+  });
+
+  it('should serialize without the stack trace', () => {
+    const json = JSON.parse(JSON.stringify(new InvalidSessionError('Session expired')));
+
+    expect(json).toEqual({
+      name: 'InvalidSessionError',
+      code: 'INVALID_SESSION',
+      message: 'Invalid session: Session expired',
+      httpStatus: 401,
+      details: { reason: 'Session expired' },
+    });
+  });
+
+  it('should include retry times in serialized lockout errors', () => {
+    const retryAfter = new Date('2024-01-01T00:00:30Z');
+
+    expect(new AccountLockedError(retryAfter).toJSON().details).toEqual({
+      retryAfter: '2024-01-01T00:00:30.000Z',
+    });
+  });
+
+  it('should keep provider response bodies out of the serialized form', () => {
+    const json = new ClerkApiError(500, '{"secret":"internal"}').toJSON();
+
+    expect(json.code).toBe('PROVIDER_ERROR');
+    expect(json.httpStatus).toBe(502);
+    expect(JSON.stringify(json)).not.toContain('internal');
+  });
+
+  it('should report Clerk API failures as provider errors', () => {
+    expect(new ClerkApiError(503, '')).toBeInstanceOf(ProviderError);
+    expect(new ProviderError().code).toBe('PROVIDER_ERROR');
+  });
+
+  it('should describe the first validation issue', () => {
+    const error = new ValidationError([
+      { path: ['phone'], message: 'Invalid Nigerian phone number' },
+      { path: ['tenantId'], message: 'Required' },
+    ]);
+
+    expect(error.message).toBe('Validation failed: phone: Invalid Nigerian phone number');
+    expect(error.details).toEqual({ issues: error.issues });
+  });
+});
+
+describe('serializeError', () => {
+  it('should serialize identity errors as-is', () => {
+    expect(serializeError(new UserNotFoundError())).toEqual(new UserNotFoundError().toJSON());
+  });
+
+  it('should hide the message of unexpected errors', () => {
+    expect(serializeError(new Error('connection string: postgres://user:pass@db'))).toEqual({
+      name: 'IdentityError',
+      code: 'INTERNAL_ERROR',
+      message: 'Internal error',
+      httpStatus: 500,
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Error types for the Identity service
+ *
+ * Every error thrown by the service extends IdentityError, which carries a
+ * stable `code` for programmatic handling and an HTTP status hint for API
+ * layers. Match on `code` rather than on messages, which may change.
+ */
+
+/**
+ * Stable error codes
+ */
+export type IdentityErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'INVALID_PHONE'
+  | 'USER_EXISTS'
+  | 'USER_NOT_FOUND'
+  | 'TENANT_MISMATCH'
+  | 'INVALID_CREDENTIALS'
+  | 'INVALID_OTP'
+  | 'OTP_COOLDOWN'
+  | 'ACCOUNT_LOCKED'
+  | 'INVALID_SESSION'
+  | 'NO_ACTIVE_TENANT'
+  | 'INVALID_REFRESH_TOKEN'
+  | 'INVALID_VERIFICATION_TOKEN'
+  | 'PERMISSION_DENIED'
+  | 'INVALID_CURSOR'
+  | 'WEBHOOK_VERIFICATION_FAILED'
+  | 'NOT_CONFIGURED'
+  | 'PROVIDER_ERROR'
+  | 'INTERNAL_ERROR';
+
+/**
+ * JSON-safe error representation for API responses and logs
+ */
+export interface SerializedIdentityError {
+  name: string;
+  code: IdentityErrorCode;
+  message: string;
+  httpStatus: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Base class for all Identity service errors
+ *
+ * Messages and details never include credentials, tokens or phone numbers,
+ * so serialized errors can be returned to clients as-is.
+ */
+export class IdentityError extends Error {
+  readonly code: IdentityErrorCode;
+  /**
+   * Suggested HTTP response status
+   */
+  readonly httpStatus: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: IdentityErrorCode, message: string, httpStatus: number, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'IdentityError';
+    this.code = code;
+    this.httpStatus = httpStatus;
+    this.details = details;
+  }
+
+  /**
+   * Serialize without the stack trace
+   */
+  toJSON(): SerializedIdentityError {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      httpStatus: this.httpStatus,
+      ...(this.details ? { details: this.details } : {}),
+    };
+  }
+}
+
+/**
+ * Serialize any thrown value for an API response
+ *
+ * Errors that are not IdentityErrors are reported as a generic internal
+ * error, since their messages may leak implementation details.
+ */
+export function serializeError(error: unknown): SerializedIdentityError {
+  if (error instanceof IdentityError) {
+    return error.toJSON();
+  }
+  return { name: 'IdentityError', code: 'INTERNAL_ERROR', message: 'Internal error', httpStatus: 500 };
+}
+
+/**
+ * One failed validation rule
+ */
+export interface ValidationIssue {
+  /**
+   * Path to the offending field, empty for the input itself
+   */
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * Thrown when input fails schema validation
+ */
+export class ValidationError extends IdentityError {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super('VALIDATION_FAILED', describeIssues(issues), 400, { issues });
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+function describeIssues(issues: ValidationIssue[]): string {
+  const first = issues[0];
+  if (!first) return 'Validation failed';
+  const field = first.path.length > 0 ? `${first.path.join('.')}: ` : '';
+  return `Validation failed: ${field}${first.message}`;
+}
+
+/**
+ * Thrown when a phone number is not a valid Nigerian number
+ */
+export class InvalidPhoneError extends IdentityError {
+  constructor(message = 'Invalid Nigerian phone number') {
+    super('INVALID_PHONE', message, 400);
+    this.name = 'InvalidPhoneError';
+  }
+}
+
+/**
+ * Thrown when creating a user whose ID or phone number is already taken
+ */
+export class UserExistsError extends IdentityError {
+  constructor(message = 'User already exists') {
+    super('USER_EXISTS', message, 409);
+    this.name = 'UserExistsError';
+  }
+}
+
+/**
+ * Thrown when a user does not exist in the requested tenant
+ */
+export class UserNotFoundError extends IdentityError {
+  constructor() {
+    super('USER_NOT_FOUND', 'User not found', 404);
+    this.name = 'UserNotFoundError';
+  }
+}
+
+/**
+ * Thrown when an operation targets a tenant other than the caller's
+ */
+export class TenantMismatchError extends IdentityError {
+  constructor(message = 'Tenant mismatch') {
+    super('TENANT_MISMATCH', message, 403);
+    this.name = 'TenantMismatchError';
+  }
+}
+
+/**
+ * Thrown when a session token is missing, expired, revoked or otherwise invalid
+ */
+export class InvalidSessionError extends IdentityError {
+  readonly reason?: string;
+
+  constructor(reason?: string) {
+    super(
+      'INVALID_SESSION',
+      reason ? `Invalid session: ${reason}` : 'Invalid session',
+      401,
+      reason ? { reason } : undefined
+    );
+    this.name = 'InvalidSessionError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown when an authentic session has no active tenant and the tenant
+ * resolution policy does not provide one
+ */
+export class NoActiveTenantError extends IdentityError {
+  constructor() {
+    super('NO_ACTIVE_TENANT', 'Session has no active tenant', 403);
+    this.name = 'NoActiveTenantError';
+  }
+}
+
+/**
+ * Thrown when an operation needs an optional dependency that was not configured
+ */
+export class NotConfiguredError extends IdentityError {
+  constructor(message: string) {
+    super('NOT_CONFIGURED', message, 501);
+    this.name = 'NotConfiguredError';
+  }
+}
+
+/**
+ * Thrown when authentication fails
+ *
+ * The message is deliberately generic so callers cannot distinguish an
+ * unknown phone number from a wrong credential.
+ */
+export class InvalidCredentialsError extends IdentityError {
+  constructor() {
+    super('INVALID_CREDENTIALS', 'Invalid credentials', 401);
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+/**
+ * Thrown when a one-time passcode is wrong, expired, or has used up its attempts
+ */
+export class InvalidOtpError extends IdentityError {
+  constructor() {
+    super('INVALID_OTP', 'Invalid or expired code', 401);
+    this.name = 'InvalidOtpError';
+  }
+}
+
+/**
+ * Thrown when a new one-time passcode is requested before the resend cooldown ends
+ */
+export class OtpCooldownError extends IdentityError {
+  readonly retryAfter: Date;
+
+  constructor(retryAfter: Date) {
+    super('OTP_COOLDOWN', `Code recently sent, retry after ${retryAfter.toISOString()}`, 429, {
+      retryAfter: retryAfter.toISOString(),
+    });
+    this.name = 'OtpCooldownError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown when a valid session lacks a required permission
+ */
+export class PermissionDeniedError extends IdentityError {
+  readonly permission: string;
+
+  constructor(permission: string) {
+    super('PERMISSION_DENIED', `Permission denied: ${permission}`, 403, { permission });
+    this.name = 'PermissionDeniedError';
+    this.permission = permission;
+  }
+}
+
+/**
+ * Thrown when a refresh token is unknown, expired, revoked or reused
+ */
+export class InvalidRefreshTokenError extends IdentityError {
+  constructor(message = 'Invalid refresh token') {
+    super('INVALID_REFRESH_TOKEN', message, 401);
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+/**
+ * Thrown when an external identity provider is unavailable or returns an
+ * unusable response
+ */
+export class ProviderError extends IdentityError {
+  constructor(message = 'Identity provider request failed') {
+    super('PROVIDER_ERROR', message, 502);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Thrown when the Clerk Backend API returns an unexpected error response
+ *
+ * `status` is Clerk's response status; the response body is kept off the
+ * serialized form.
+ */
+export class ClerkApiError extends ProviderError {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(status: number, body: string) {
+    super(`Clerk API request failed with status ${status}`);
+    this.name = 'ClerkApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * Thrown when a pagination cursor is malformed or was issued for a different listing
+ */
+export class InvalidCursorError extends IdentityError {
+  constructor() {
+    super('INVALID_CURSOR', 'Invalid pagination cursor', 400);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Thrown when a webhook payload's signature or timestamp cannot be verified
+ */
+export class WebhookVerificationError extends IdentityError {
+  constructor(message = 'Invalid webhook signature') {
+    super('WEBHOOK_VERIFICATION_FAILED', message, 401);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+/**
+ * Thrown when authentication is temporarily blocked after repeated failures
+ */
+export class AccountLockedError extends IdentityError {
+  readonly retryAfter: Date;
+
+  constructor(retryAfter: Date) {
+    super('ACCOUNT_LOCKED', `Too many failed attempts, retry after ${retryAfter.toISOString()}`, 429, {
+      retryAfter: retryAfter.toISOString(),
+    });
+    this.name = 'AccountLockedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Thrown when an email verification token is malformed, expired, or no longer
+ * matches the user's address
+ */
+export class InvalidVerificationTokenError extends IdentityError {
+  constructor() {
+    super('INVALID_VERIFICATION_TOKEN', 'Invalid or expired verification token', 400);
+    this.name = 'InvalidVerificationTokenError';
+  }
+}
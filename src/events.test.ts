@@ -0,0 +1,119 @@
+/**
+ * Domain Event Tests
+ */
+
+import { IdentityEventBus, OutboxRelay } from './events';
+import { InMemoryOutboxStorage } from './storage';
+import { IdentityEvent } from './types';
+
+const userDeleted = (id = 'evt_1'): IdentityEvent<'user.deleted'> => ({
+  id,
+  type: 'user.deleted',
+  occurredAt: new Date(),
+  payload: { tenantId: 'tenant_1', userId: 'user_1' },
+});
+
+describe('IdentityEventBus', () => {
+  it('should deliver events to handlers of the matching type', async () => {
+    const bus = new IdentityEventBus();
+    const deleted: string[] = [];
+    const created: string[] = [];
+    bus.subscribe('user.deleted', event => { deleted.push(event.payload.userId); });
+    bus.subscribe('user.created', event => { created.push(event.payload.userId); });
+
+    await bus.publish(userDeleted());
+
+    expect(deleted).toEqual(['user_1']);
+    expect(created).toEqual([]);
+  });
+
+  it('should stop delivering after unsubscribe', async () => {
+    const bus = new IdentityEventBus();
+    const handler = jest.fn();
+    const unsubscribe = bus.subscribe('user.deleted', handler);
+
+    unsubscribe();
+    await bus.publish(userDeleted());
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should isolate failing handlers', async () => {
+    const onHandlerError = jest.fn();
+    const bus = new IdentityEventBus({ onHandlerError });
+    const healthy = jest.fn();
+    bus.subscribe('user.deleted', async () => { throw new Error('boom'); });
+    bus.subscribe('user.deleted', healthy);
+
+    const errors = await bus.publish(userDeleted());
+
+    expect(healthy).toHaveBeenCalled();
+    expect(errors).toHaveLength(1);
+    expect(onHandlerError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ id: 'evt_1' }));
+  });
+});
+
+describe('OutboxRelay', () => {
+  let storage: InMemoryOutboxStorage;
+  let bus: IdentityEventBus;
+
+  beforeEach(() => {
+    storage = new InMemoryOutboxStorage();
+    bus = new IdentityEventBus();
+  });
+
+  it('should mark delivered records', async () => {
+    const relay = new OutboxRelay(storage, bus);
+    const record = { event: userDeleted(), attempts: 0, nextAttemptAt: new Date() };
+    await storage.enqueue(record);
+
+    expect(await relay.deliver(record)).toBe(true);
+
+    const stored = await storage.getRecord('evt_1');
+    expect(stored?.deliveredAt).toBeInstanceOf(Date);
+    expect(await storage.listDue(new Date(), 10)).toEqual([]);
+  });
+
+  it('should schedule retries with backoff and redeliver once due', async () => {
+    const relay = new OutboxRelay(storage, bus, { retryBaseDelayMs: 0 });
+    let fail = true;
+    bus.subscribe('user.deleted', () => {
+      if (fail) throw new Error('downstream unavailable');
+    });
+    const record = { event: userDeleted(), attempts: 0, nextAttemptAt: new Date() };
+    await storage.enqueue(record);
+
+    expect(await relay.deliver(record)).toBe(false);
+    expect(await storage.getRecord('evt_1')).toMatchObject({ attempts: 1, lastError: 'downstream unavailable' });
+
+    fail = false;
+    expect(await relay.dispatchPending()).toBe(1);
+    expect((await storage.getRecord('evt_1'))?.deliveredAt).toBeInstanceOf(Date);
+  });
+
+  it('should delay retries by the backoff interval', async () => {
+    const relay = new OutboxRelay(storage, bus, { retryBaseDelayMs: 60 * 1000 });
+    bus.subscribe('user.deleted', () => { throw new Error('down'); });
+    const record = { event: userDeleted(), attempts: 0, nextAttemptAt: new Date() };
+    await storage.enqueue(record);
+
+    await relay.deliver(record);
+
+    expect(await relay.dispatchPending()).toBe(0);
+    expect((await storage.getRecord('evt_1'))?.attempts).toBe(1);
+  });
+
+  it('should abandon records after the maximum number of attempts', async () => {
+    const relay = new OutboxRelay(storage, bus, { maxAttempts: 2, retryBaseDelayMs: 0 });
+    bus.subscribe('user.deleted', () => { throw new Error('down'); });
+    await storage.enqueue({ event: userDeleted(), attempts: 0, nextAttemptAt: new Date() });
+
+    await relay.dispatchPending();
+    await relay.dispatchPending();
+
+    const stored = await storage.getRecord('evt_1');
+    expect(stored?.attempts).toBe(2);
+    expect(stored?.abandonedAt).toBeInstanceOf(Date);
+    expect(await storage.listDue(new Date(), 10)).toEqual([]);
+  });
+});
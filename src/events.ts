@@ -0,0 +1,157 @@
+/**
+ * Domain events for downstream suites
+ *
+ * IdentityEventBus delivers typed events to subscribed handlers. A failing
+ * handler never affects the other handlers or the operation that emitted the
+ * event. When an OutboxStorage is configured, events are persisted before
+ * delivery and OutboxRelay retries failed deliveries with backoff, so
+ * delivery of persisted events is at-least-once and handlers should be
+ * idempotent (use `event.id` to deduplicate). Events are persisted after
+ * the change they describe, not in the same transaction.
+ */
+
+import { IdentityEvent, IdentityEventType, OutboxRecord } from './types';
+import { OutboxStorage } from './storage';
+
+/**
+ * Handler for one event type
+ */
+export type IdentityEventHandler<K extends IdentityEventType = IdentityEventType> = (
+  event: IdentityEvent<K>
+) => void | Promise<void>;
+
+/**
+ * Event bus configuration
+ */
+export interface IdentityEventBusConfig {
+  /**
+   * Called for every handler failure, e.g. to log it
+   */
+  onHandlerError?: (error: unknown, event: IdentityEvent) => void;
+}
+
+/**
+ * In-process typed event bus
+ */
+export class IdentityEventBus {
+  private handlers: Map<IdentityEventType, Set<IdentityEventHandler>> = new Map();
+  private onHandlerError?: (error: unknown, event: IdentityEvent) => void;
+
+  constructor(config: IdentityEventBusConfig = {}) {
+    this.onHandlerError = config.onHandlerError;
+  }
+
+  /**
+   * Subscribe to an event type
+   * @returns A function that removes the subscription
+   */
+  subscribe<K extends IdentityEventType>(type: K, handler: IdentityEventHandler<K>): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    handlers.add(handler as IdentityEventHandler);
+
+    return () => this.unsubscribe(type, handler);
+  }
+
+  /**
+   * Remove a subscription
+   */
+  unsubscribe<K extends IdentityEventType>(type: K, handler: IdentityEventHandler<K>): void {
+    this.handlers.get(type)?.delete(handler as IdentityEventHandler);
+  }
+
+  /**
+   * Deliver an event to every handler subscribed to its type
+   *
+   * Handlers run concurrently; one rejecting does not stop the others.
+   * @returns The errors thrown by failing handlers (empty if all succeeded)
+   */
+  async publish(event: IdentityEvent): Promise<unknown[]> {
+    const handlers = Array.from(this.handlers.get(event.type) || []);
+    const results = await Promise.allSettled(handlers.map(async handler => handler(event)));
+
+    const errors: unknown[] = [];
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        errors.push(result.reason);
+        this.onHandlerError?.(result.reason, event);
+      }
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Outbox delivery configuration
+ */
+export interface OutboxRelayConfig {
+  /**
+   * Attempts before a record is abandoned (default 10)
+   */
+  maxAttempts?: number;
+  retryBaseDelayMs?: number;
+  maxRetryDelayMs?: number;
+}
+
+/**
+ * Delivers outbox records through an event bus and records the outcome
+ */
+export class OutboxRelay {
+  private storage: OutboxStorage;
+  private bus: IdentityEventBus;
+  private maxAttempts: number;
+  private retryBaseDelayMs: number;
+  private maxRetryDelayMs: number;
+
+  constructor(storage: OutboxStorage, bus: IdentityEventBus, config: OutboxRelayConfig = {}) {
+    this.storage = storage;
+    this.bus = bus;
+    this.maxAttempts = config.maxAttempts ?? 10;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? 1000;
+    this.maxRetryDelayMs = config.maxRetryDelayMs ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Attempt delivery of one record
+   * @returns Whether every handler succeeded
+   */
+  async deliver(record: OutboxRecord): Promise<boolean> {
+    const errors = await this.bus.publish(record.event);
+    const now = new Date();
+
+    if (errors.length === 0) {
+      await this.storage.markDelivered(record.event.id, now);
+      return true;
+    }
+
+    const attempts = record.attempts + 1;
+    const delay = Math.min(this.retryBaseDelayMs * 2 ** (attempts - 1), this.maxRetryDelayMs);
+    const nextAttemptAt = attempts >= this.maxAttempts ? null : new Date(now.getTime() + delay);
+
+    await this.storage.markFailed(record.event.id, describeErrors(errors), now, nextAttemptAt);
+    return false;
+  }
+
+  /**
+   * Retry every record that is due
+   * @returns The number of records delivered
+   */
+  async dispatchPending(limit = 100): Promise<number> {
+    const due = await this.storage.listDue(new Date(), limit);
+
+    let delivered = 0;
+    for (const record of due) {
+      if (await this.deliver(record)) delivered++;
+    }
+
+    return delivered;
+  }
+}
+
+function describeErrors(errors: unknown[]): string {
+  return errors.map(error => (error instanceof Error ? error.message : String(error))).join('; ');
+}
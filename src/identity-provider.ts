@@ -0,0 +1,84 @@
+/**
+ * Identity provider abstraction
+ *
+ * An IdentityProvider verifies externally issued session tokens and maps
+ * their claims to a SessionContext. Providers that also manage users (such
+ * as Clerk) expose a UserDirectory, and the service then reads and writes
+ * users through it. Without a directory, users live in the service's
+ * UserStorage, keyed by the provider's subject.
+ */
+
+import {
+  TenantId,
+  UserId,
+  PhoneNumber,
+  UserProfile,
+  UpdateUserInput,
+  SessionContext,
+  ListUsersOptions,
+  Page,
+} from './types';
+import { TenantRequest } from './tenant-resolution';
+
+/**
+ * External identity provider
+ */
+export interface IdentityProvider<TClaims = unknown, TUser = unknown> {
+  /**
+   * Provider name, for logs and diagnostics
+   */
+  readonly name: string;
+  /**
+   * Provider-managed users, if the provider has a user directory
+   */
+  readonly directory?: UserDirectory<TUser>;
+
+  /**
+   * Verify a session token
+   * @returns The verified claims, or null if the token is invalid or expired
+   */
+  verifySession(sessionToken: string): Promise<TClaims | null>;
+
+  /**
+   * Map verified claims to a session
+   * @param request Per-request tenant details, for providers that resolve tenants from them
+   * @returns null if the session has no active tenant
+   */
+  toSessionContext(claims: TClaims, request?: TenantRequest): Promise<SessionContext | null>;
+}
+
+/**
+ * Fields for creating a user in a directory
+ */
+export type DirectoryUserInput = UpdateUserInput & { phone: PhoneNumber };
+
+/**
+ * Users and tenant memberships managed by an identity provider
+ */
+export interface UserDirectory<TUser = unknown> {
+  /**
+   * Map a provider user to a profile in the given tenant
+   */
+  toUserProfile(user: TUser, tenantId: TenantId): UserProfile;
+
+  getUser(userId: UserId): Promise<TUser | null>;
+  getUserByEmail(email: string): Promise<TUser | null>;
+  getUserByPhone(phone: PhoneNumber): Promise<TUser | null>;
+  listTenantMembers(tenantId: TenantId, options: ListUsersOptions): Promise<Page<TUser>>;
+  isTenantMember(tenantId: TenantId, userId: UserId): Promise<boolean>;
+
+  /**
+   * Create a user as a member of the tenant
+   */
+  createUser(tenantId: TenantId, input: DirectoryUserInput): Promise<TUser>;
+  /**
+   * @returns The updated user, or null if the user does not exist
+   */
+  updateUser(userId: UserId, input: UpdateUserInput): Promise<TUser | null>;
+  /**
+   * Delete a user, removing them from every tenant
+   */
+  deleteUser(userId: UserId): Promise<void>;
+  addTenantMember(tenantId: TenantId, userId: UserId): Promise<void>;
+  removeTenantMember(tenantId: TenantId, userId: UserId): Promise<void>;
+}
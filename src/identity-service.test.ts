@@ -1,6 +1,34 @@
-import { IdentityService } from './identity-service';
-import { InMemoryUserStorage, InMemorySessionStorage } from './storage';
-import { CreateUserInput, AuthenticateInput } from './types';
+import { IdentityService, IdentityServiceConfig } from './identity-service';
+import {
+  InMemoryUserStorage,
+  InMemorySessionStorage,
+  InMemoryCredentialStorage,
+  InMemoryOutboxStorage,
+  InMemoryRateLimitStore,
+  InMemoryIdentityStorage,
+} from './storage';
+import { CreateUserInput, AuthenticateInput, UserProfile, IdentityEvent } from './types';
+import {
+  InvalidCredentialsError,
+  InvalidOtpError,
+  OtpCooldownError,
+  PermissionDeniedError,
+  InvalidRefreshTokenError,
+  InvalidCursorError,
+  AccountLockedError,
+  UserExistsError,
+  UserNotFoundError,
+  ValidationError,
+  InvalidSessionError,
+  InvalidPhoneError,
+  InvalidVerificationTokenError,
+  TenantMismatchError,
+} from './errors';
+import { InMemorySmsSender } from './otp';
+import { InMemoryAuditSink } from './audit';
+import { InMemoryEmailSender } from './email-verification';
+import { IdentityEventBus } from './events';
+import { decodeJwt, signJwt } from './jwt';
 
 describe('IdentityService', () => {
   let service: IdentityService;
@@ -50,6 +78,15 @@ describe('IdentityService', () => {
       await service.createUser(input);
 
       await expect(service.createUser(input)).rejects.toThrow('already exists');
+      await expect(service.createUser(input)).rejects.toBeInstanceOf(UserExistsError);
+    });
+
+    it('should reject duplicate emails in same tenant', async () => {
+      await service.createUser({ tenantId: 'tenant-1', phone: '08012345678', email: 'ada@example.com' });
+
+      await expect(
+        service.createUser({ tenantId: 'tenant-1', phone: '08031234567', email: 'ADA@example.com' })
+      ).rejects.toBeInstanceOf(UserExistsError);
     });
 
     it('should allow same phone number in different tenants', async () => {
@@ -70,6 +107,33 @@ describe('IdentityService', () => {
       expect(user2.tenantId).toBe('tenant-2');
       expect(user1.phone).toBe(user2.phone);
     });
+
+    it('should read national numbers in the tenant default country', async () => {
+      const multiCountry = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        tenantCountries: { 'tenant-gh': 'GH' },
+      });
+
+      const ghanaian = await multiCountry.createUser({ tenantId: 'tenant-gh', phone: '024 123 4567' });
+      const nigerian = await multiCountry.createUser({ tenantId: 'tenant-ng', phone: '08012345678' });
+
+      expect(ghanaian.phone).toBe('+233241234567');
+      expect(nigerian.phone).toBe('+2348012345678');
+      expect((await multiCountry.getUserByPhone('tenant-gh', '0241234567'))?.userId).toBe(ghanaian.userId);
+      await expect(
+        multiCountry.createUser({ tenantId: 'tenant-ng', phone: '0241234567' })
+      ).rejects.toThrow(InvalidPhoneError);
+    });
+
+    it('should reject invalid input with a validation error', async () => {
+      const error = await service.createUser({ tenantId: '', phone: '08012345678' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.code).toBe('VALIDATION_FAILED');
+      expect(error.httpStatus).toBe(400);
+      expect(error.issues[0].path).toEqual(['tenantId']);
+    });
   });
 
   describe('getUser', () => {
@@ -157,7 +221,8 @@ describe('IdentityService', () => {
         phone: '08012345678',
       };
 
-      await service.createUser(userInput);
+      const user = await service.createUser(userInput);
+      await service.setCredential('tenant-1', user.userId, 'password123');
 
       const authInput: AuthenticateInput = {
         tenantId: 'tenant-1',
@@ -182,6 +247,229 @@ describe('IdentityService', () => {
 
       await expect(service.authenticate(authInput)).rejects.toThrow('Invalid credentials');
     });
+
+    it('should reject a wrong credential for an existing user', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await service.setCredential('tenant-1', user.userId, 'password123');
+
+      await expect(service.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'wrong-password',
+      })).rejects.toBeInstanceOf(InvalidCredentialsError);
+    });
+
+    it('should reject users without a credential', async () => {
+      await service.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      await expect(service.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      })).rejects.toBeInstanceOf(InvalidCredentialsError);
+    });
+  });
+
+  describe('roles', () => {
+    it('should persist roles given at creation and use them for sessions', async () => {
+      const user = await service.createUser({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        roles: ['cashier', 'manager'],
+      });
+      await service.setCredential('tenant-1', user.userId, 'password123');
+
+      expect(await service.listRoles('tenant-1', user.userId)).toEqual(['cashier', 'manager']);
+
+      const result = await service.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      });
+      expect(result.roles).toEqual(['cashier', 'manager']);
+
+      const context = await service.assertTenantContext(result.sessionId);
+      expect(context.roles).toEqual(['cashier', 'manager']);
+    });
+
+    it('should assign and revoke roles', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      await service.assignRole('tenant-1', user.userId, 'admin');
+      await service.assignRole('tenant-1', user.userId, 'admin');
+      await service.assignRole('tenant-1', user.userId, 'viewer');
+      await service.revokeRole('tenant-1', user.userId, 'viewer');
+
+      expect(await service.listRoles('tenant-1', user.userId)).toEqual(['admin']);
+    });
+
+    it('should scope role assignments to the tenant', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678', roles: ['admin'] });
+
+      expect(await service.listRoles('tenant-2', user.userId)).toEqual([]);
+      await expect(service.assignRole('tenant-2', user.userId, 'admin')).rejects.toThrow(UserNotFoundError);
+    });
+
+    it('should let explicit roles override stored assignments', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678', roles: ['admin'] });
+      await service.setCredential('tenant-1', user.userId, 'password123');
+
+      const result = await service.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      }, ['viewer']);
+
+      expect(result.roles).toEqual(['viewer']);
+    });
+
+    it('should remove role assignments when the user is deleted', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678', roles: ['admin'] });
+
+      await service.deleteUser('tenant-1', user.userId);
+
+      expect(await service.listRoles('tenant-1', user.userId)).toEqual([]);
+    });
+  });
+
+  describe('authorize', () => {
+    const login = async (roles: string[]): Promise<string> => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678', roles });
+      await service.setCredential('tenant-1', user.userId, 'password123');
+      const result = await service.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      });
+      return result.sessionId;
+    };
+
+    it('should grant permissions through role definitions', async () => {
+      await service.defineRole('tenant-1', 'cashier', ['orders:create', 'orders:read']);
+      await service.defineRole('tenant-1', 'manager', ['orders:*']);
+      const sessionId = await login(['manager']);
+
+      const context = await service.authorize(sessionId, 'orders:refund');
+
+      expect(context.tenantId).toBe('tenant-1');
+      expect(context.permissions).toEqual(['orders:*']);
+    });
+
+    it('should throw PermissionDeniedError for missing permissions', async () => {
+      await service.defineRole('tenant-1', 'cashier', ['orders:create']);
+      const sessionId = await login(['cashier']);
+
+      await expect(service.authorize(sessionId, 'orders:refund')).rejects.toBeInstanceOf(PermissionDeniedError);
+    });
+
+    it('should only use role definitions from the session tenant', async () => {
+      await service.defineRole('tenant-2', 'cashier', ['*']);
+      const sessionId = await login(['cashier']);
+
+      await expect(service.authorize(sessionId, 'orders:read')).rejects.toThrow('Permission denied');
+    });
+
+    it('should reject invalid sessions', async () => {
+      await expect(service.authorize('invalid-session', 'orders:read')).rejects.toThrow(InvalidSessionError);
+    });
+
+    it('should reject malformed permissions', async () => {
+      await expect(service.defineRole('tenant-1', 'bad', ['orders::read'])).rejects.toThrow();
+    });
+
+    it('should list and delete role definitions', async () => {
+      await service.defineRole('tenant-1', 'cashier', ['orders:create', 'orders:create']);
+      await service.defineRole('tenant-1', 'auditor', ['reports:read']);
+
+      const definitions = await service.listRoleDefinitions('tenant-1');
+      expect(definitions.map(d => d.roleId).sort()).toEqual(['auditor', 'cashier']);
+      expect(definitions.find(d => d.roleId === 'cashier')!.permissions).toEqual(['orders:create']);
+
+      await service.deleteRoleDefinition('tenant-1', 'cashier');
+      expect((await service.listRoleDefinitions('tenant-1')).map(d => d.roleId)).toEqual(['auditor']);
+    });
+  });
+
+  describe('credentials', () => {
+    it('should reject setting a credential for unknown users', async () => {
+      await expect(
+        service.setCredential('tenant-1', 'non-existent', 'password123')
+      ).rejects.toThrow('User not found');
+    });
+
+    it('should reject credentials that are too short', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      await expect(service.setCredential('tenant-1', user.userId, 'short')).rejects.toThrow();
+    });
+
+    it('should store only a hash of the credential', async () => {
+      const credentialStorage = new InMemoryCredentialStorage();
+      const localService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        credentialStorage,
+      });
+      const user = await localService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      await localService.setCredential('tenant-1', user.userId, 'password123');
+
+      const record = await credentialStorage.getCredential('tenant-1', user.userId);
+      expect(record).not.toBeNull();
+      expect(record!.hash).not.toContain('password123');
+      expect(record!.hash.startsWith('scrypt$')).toBe(true);
+    });
+
+    it('should change a credential when the current one matches', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await service.setCredential('tenant-1', user.userId, 'password123');
+
+      await service.changeCredential('tenant-1', user.userId, 'password123', 'new-password');
+
+      await expect(service.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      })).rejects.toThrow('Invalid credentials');
+
+      const result = await service.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'new-password',
+      });
+      expect(result.userId).toBe(user.userId);
+    });
+
+    it('should refuse to change a credential when the current one is wrong', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await service.setCredential('tenant-1', user.userId, 'password123');
+
+      await expect(
+        service.changeCredential('tenant-1', user.userId, 'not-the-password', 'new-password')
+      ).rejects.toBeInstanceOf(InvalidCredentialsError);
+    });
+
+    it('should revoke sessions when a credential is reset', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await service.setCredential('tenant-1', user.userId, 'password123');
+      const session = await service.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      });
+
+      await service.resetCredential('tenant-1', user.userId, 'reset-password');
+
+      const validation = await service.validateSession(session.sessionId);
+      expect(validation.valid).toBe(false);
+
+      const result = await service.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'reset-password',
+      });
+      expect(result.userId).toBe(user.userId);
+    });
   });
 
   describe('validateSession', () => {
@@ -191,7 +479,8 @@ describe('IdentityService', () => {
         phone: '08012345678',
       };
 
-      await service.createUser(userInput);
+      const user = await service.createUser(userInput);
+      await service.setCredential('tenant-1', user.userId, 'password123');
 
       const authResult = await service.authenticate({
         tenantId: 'tenant-1',
@@ -221,7 +510,8 @@ describe('IdentityService', () => {
         displayName: 'Test User',
       };
 
-      await service.createUser(userInput);
+      const user = await service.createUser(userInput);
+      await service.setCredential('tenant-1', user.userId, 'password123');
 
       const authResult = await service.authenticate({
         tenantId: 'tenant-1',
@@ -244,7 +534,8 @@ describe('IdentityService', () => {
         phone: '08012345678',
       };
 
-      await service.createUser(userInput);
+      const user = await service.createUser(userInput);
+      await service.setCredential('tenant-1', user.userId, 'password123');
 
       const authResult = await service.authenticate({
         tenantId: 'tenant-1',
@@ -271,6 +562,8 @@ describe('IdentityService', () => {
         phone: '08087654321',
       });
 
+      await service.setCredential('tenant-1', user1.userId, 'password123');
+
       const crossTenantAccess = await service.getUser('tenant-1', user2.userId);
       expect(crossTenantAccess).toBeNull();
 
@@ -347,11 +640,12 @@ describe('IdentityService', () => {
 
       const users = await service.listUsers('list-tenant');
 
-      expect(users).toHaveLength(2);
-      expect(users.every(u => u.tenantId === 'list-tenant')).toBe(true);
+      expect(users.items).toHaveLength(2);
+      expect(users.items.every(u => u.tenantId === 'list-tenant')).toBe(true);
+      expect(users.total).toBe(2);
     });
 
-    it('should support pagination', async () => {
+    it('should page through users with cursors', async () => {
       for (let i = 0; i < 5; i++) {
         await service.createUser({
           tenantId: 'paginated-tenant',
@@ -359,25 +653,94 @@ describe('IdentityService', () => {
         });
       }
 
-      const page1 = await service.listUsers('paginated-tenant', { limit: 2, offset: 0 });
-      const page2 = await service.listUsers('paginated-tenant', { limit: 2, offset: 2 });
+      const page1 = await service.listUsers('paginated-tenant', { limit: 2 });
+      const page2 = await service.listUsers('paginated-tenant', { limit: 2, cursor: page1.nextCursor });
+      const page3 = await service.listUsers('paginated-tenant', { limit: 2, cursor: page2.nextCursor });
+
+      expect(page1.items).toHaveLength(2);
+      expect(page2.items).toHaveLength(2);
+      expect(page3.items).toHaveLength(1);
+      expect(page3.nextCursor).toBeUndefined();
+      expect(new Set([...page1.items, ...page2.items, ...page3.items].map(u => u.userId)).size).toBe(5);
+    });
+
+    it('should order users by creation time', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      try {
+        const first = await service.createUser({ tenantId: 'ordered-tenant', phone: '08011111111' });
+        jest.advanceTimersByTime(1000);
+        const second = await service.createUser({ tenantId: 'ordered-tenant', phone: '08022222222' });
+
+        const asc = await service.listUsers('ordered-tenant');
+        const desc = await service.listUsers('ordered-tenant', { order: 'desc' });
+
+        expect(asc.items.map(u => u.userId)).toEqual([first.userId, second.userId]);
+        expect(desc.items.map(u => u.userId)).toEqual([second.userId, first.userId]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should keep cursors stable when earlier users are deleted', async () => {
+      const users: UserProfile[] = [];
+      for (let i = 0; i < 4; i++) {
+        users.push(await service.createUser({ tenantId: 'stable-tenant', phone: `0801234567${i}` }));
+      }
+
+      const page1 = await service.listUsers('stable-tenant', { limit: 2 });
+      await service.deleteUser('stable-tenant', page1.items[0].userId);
+      const page2 = await service.listUsers('stable-tenant', { limit: 2, cursor: page1.nextCursor });
+
+      const seen = [...page1.items, ...page2.items].map(u => u.userId);
+      expect(new Set(seen).size).toBe(4);
+      expect(seen.sort()).toEqual(users.map(u => u.userId).sort());
+    });
+
+    it('should filter by display name prefix, email domain and metadata key', async () => {
+      await service.createUser({ tenantId: 'filter-tenant', phone: '08011111111', displayName: 'Ada Obi', email: 'ada@acme.ng' });
+      await service.createUser({ tenantId: 'filter-tenant', phone: '08022222222', displayName: 'Bola Ade', email: 'bola@acme.ng', metadata: { vip: true } });
+      await service.createUser({ tenantId: 'filter-tenant', phone: '08033333333', displayName: 'adaeze', email: 'adaeze@other.com', metadata: { vip: false } });
+
+      const byName = await service.listUsers('filter-tenant', { displayNamePrefix: 'ADA' });
+      const byDomain = await service.listUsers('filter-tenant', { emailDomain: 'acme.ng' });
+      const byMetadata = await service.listUsers('filter-tenant', { metadataKey: 'vip', emailDomain: 'acme.ng' });
+
+      expect(byName.items.map(u => u.displayName).sort()).toEqual(['Ada Obi', 'adaeze']);
+      expect(byName.total).toBe(2);
+      expect(byDomain.items.map(u => u.email).sort()).toEqual(['ada@acme.ng', 'bola@acme.ng']);
+      expect(byMetadata.items.map(u => u.displayName)).toEqual(['Bola Ade']);
+    });
+
+    it('should reject malformed cursors', async () => {
+      await expect(service.listUsers('list-tenant', { cursor: 'not-a-cursor' })).rejects.toThrow(InvalidCursorError);
+    });
+
+    it('should reject cursors from a different sort order', async () => {
+      for (let i = 0; i < 3; i++) {
+        await service.createUser({ tenantId: 'order-tenant', phone: `0801234567${i}` });
+      }
+
+      const page = await service.listUsers('order-tenant', { limit: 1 });
 
-      expect(page1).toHaveLength(2);
-      expect(page2).toHaveLength(2);
+      await expect(
+        service.listUsers('order-tenant', { limit: 1, cursor: page.nextCursor, order: 'desc' })
+      ).rejects.toThrow(InvalidCursorError);
     });
 
-    it('should return empty array for tenant with no users', async () => {
+    it('should return an empty page for tenant with no users', async () => {
       const users = await service.listUsers('empty-tenant');
-      expect(users).toEqual([]);
+      expect(users.items).toEqual([]);
+      expect(users.nextCursor).toBeUndefined();
     });
   });
 
   describe('assertTenantContext', () => {
     it('should return tenant context from valid session', async () => {
-      await service.createUser({
+      const user = await service.createUser({
         tenantId: 'context-tenant',
         phone: '08099999999',
       });
+      await service.setCredential('context-tenant', user.userId, 'password');
 
       const authResult = await service.authenticate({
         tenantId: 'context-tenant',
@@ -397,7 +760,7 @@ describe('IdentityService', () => {
     it('should throw for invalid session', async () => {
       await expect(
         service.assertTenantContext('invalid-session')
-      ).rejects.toThrow('Unauthorized');
+      ).rejects.toThrow(InvalidSessionError);
     });
   });
 
@@ -407,6 +770,7 @@ describe('IdentityService', () => {
         tenantId: 'delete-tenant',
         phone: '08077777777',
       });
+      await service.setCredential('delete-tenant', user.userId, 'password');
 
       const authResult = await service.authenticate({
         tenantId: 'delete-tenant',
@@ -430,6 +794,7 @@ describe('IdentityService', () => {
         tenantId: 'multi-session-tenant',
         phone: '08066666666',
       });
+      await service.setCredential('multi-session-tenant', user.userId, 'password');
 
       const session1 = await service.authenticate({
         tenantId: 'multi-session-tenant',
@@ -452,4 +817,1181 @@ describe('IdentityService', () => {
       expect(validation2.valid).toBe(false);
     });
   });
+
+  describe('phone OTP login', () => {
+    let smsSender: InMemorySmsSender;
+    let otpService: IdentityService;
+
+    const extractCode = (phone: string): string => {
+      const sms = smsSender.lastMessageTo(phone);
+      return sms!.message.match(/\d{6}/)![0];
+    };
+
+    beforeEach(() => {
+      smsSender = new InMemorySmsSender();
+      otpService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        smsSender,
+        otp: { maxAttempts: 3, resendCooldownMs: 30 * 1000 },
+      });
+    });
+
+    it('should send a code and issue a session when it is verified', async () => {
+      const user = await otpService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      const request = await otpService.requestOtp('tenant-1', '0801 234 5678');
+      expect(request.expiresAt).toBeInstanceOf(Date);
+      expect(smsSender.messages).toHaveLength(1);
+      expect(smsSender.messages[0].to).toBe('+2348012345678');
+
+      const result = await otpService.verifyOtp('tenant-1', '08012345678', extractCode('+2348012345678'));
+
+      expect(result.userId).toBe(user.userId);
+      expect(result.tenantId).toBe('tenant-1');
+      const validation = await otpService.validateSession(result.sessionId);
+      expect(validation.valid).toBe(true);
+    });
+
+    it('should not send a code to unregistered numbers', async () => {
+      const request = await otpService.requestOtp('tenant-1', '08012345678');
+
+      expect(request.expiresAt).toBeInstanceOf(Date);
+      expect(smsSender.messages).toHaveLength(0);
+      await expect(
+        otpService.verifyOtp('tenant-1', '08012345678', '123456')
+      ).rejects.toBeInstanceOf(InvalidOtpError);
+    });
+
+    it('should apply the resend cooldown to unregistered numbers', async () => {
+      await otpService.requestOtp('tenant-1', '08012345678');
+
+      await expect(
+        otpService.requestOtp('tenant-1', '08012345678')
+      ).rejects.toBeInstanceOf(OtpCooldownError);
+    });
+
+    it('should only accept a code once', async () => {
+      await otpService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await otpService.requestOtp('tenant-1', '08012345678');
+      const code = extractCode('+2348012345678');
+
+      await otpService.verifyOtp('tenant-1', '08012345678', code);
+
+      await expect(
+        otpService.verifyOtp('tenant-1', '08012345678', code)
+      ).rejects.toBeInstanceOf(InvalidOtpError);
+    });
+
+    it('should discard the challenge after too many wrong attempts', async () => {
+      await otpService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await otpService.requestOtp('tenant-1', '08012345678');
+      const code = extractCode('+2348012345678');
+      const wrong = code === '000000' ? '111111' : '000000';
+
+      for (let i = 0; i < 3; i++) {
+        await expect(
+          otpService.verifyOtp('tenant-1', '08012345678', wrong)
+        ).rejects.toBeInstanceOf(InvalidOtpError);
+      }
+
+      await expect(
+        otpService.verifyOtp('tenant-1', '08012345678', code)
+      ).rejects.toBeInstanceOf(InvalidOtpError);
+    });
+
+    it('should keep the resend cooldown after the attempts run out', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      try {
+        await otpService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+        await otpService.requestOtp('tenant-1', '08012345678');
+        const wrong = extractCode('+2348012345678') === '000000' ? '111111' : '000000';
+        for (let i = 0; i < 3; i++) {
+          await expect(
+            otpService.verifyOtp('tenant-1', '08012345678', wrong)
+          ).rejects.toBeInstanceOf(InvalidOtpError);
+        }
+
+        await expect(
+          otpService.requestOtp('tenant-1', '08012345678')
+        ).rejects.toBeInstanceOf(OtpCooldownError);
+        expect(smsSender.messages).toHaveLength(1);
+
+        jest.advanceTimersByTime(31 * 1000);
+        await otpService.requestOtp('tenant-1', '08012345678');
+        expect(smsSender.messages).toHaveLength(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+        it('should reject expired codes', async () => {
+      const expiringService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        smsSender,
+        otp: { ttlMs: -1 },
+      });
+      await expiringService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await expiringService.requestOtp('tenant-1', '08012345678');
+
+      await expect(
+        expiringService.verifyOtp('tenant-1', '08012345678', extractCode('+2348012345678'))
+      ).rejects.toBeInstanceOf(InvalidOtpError);
+    });
+
+    it('should enforce the resend cooldown', async () => {
+      await otpService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await otpService.requestOtp('tenant-1', '08012345678');
+
+      const error = await otpService.requestOtp('tenant-1', '08012345678').catch(e => e);
+
+      expect(error).toBeInstanceOf(OtpCooldownError);
+      expect((error as OtpCooldownError).retryAfter.getTime()).toBeGreaterThan(Date.now());
+      expect(smsSender.messages).toHaveLength(1);
+    });
+
+    it('should scope codes to the tenant', async () => {
+      await otpService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await otpService.createUser({ tenantId: 'tenant-2', phone: '08012345678' });
+      await otpService.requestOtp('tenant-1', '08012345678');
+
+      await expect(
+        otpService.verifyOtp('tenant-2', '08012345678', extractCode('+2348012345678'))
+      ).rejects.toBeInstanceOf(InvalidOtpError);
+    });
+
+    it('should require an SMS sender', async () => {
+      await expect(service.requestOtp('tenant-1', '08012345678')).rejects.toThrow('SMS sender not configured');
+    });
+  });
+
+  describe('phone number change', () => {
+    let smsSender: InMemorySmsSender;
+    let phoneService: IdentityService;
+    let auditSink: InMemoryAuditSink;
+
+    const extractCode = (phone: string): string => {
+      const sms = smsSender.lastMessageTo(phone);
+      return sms!.message.match(/\d{6}/)![0];
+    };
+
+    beforeEach(() => {
+      smsSender = new InMemorySmsSender();
+      auditSink = new InMemoryAuditSink();
+      phoneService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        smsSender,
+        auditSink,
+      });
+    });
+
+    it('should move the user to a verified new number', async () => {
+      const user = await phoneService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      await phoneService.requestPhoneChange('tenant-1', user.userId, '08031234567');
+      const updated = await phoneService.changePhone(
+        'tenant-1', user.userId, '08031234567', extractCode('+2348031234567'), 'session-1', { ipAddress: '10.0.0.1' }
+      );
+
+      expect(updated.phone).toBe('+2348031234567');
+      expect((await phoneService.getUserByPhone('tenant-1', '08031234567'))?.userId).toBe(user.userId);
+      expect(await phoneService.getUserByPhone('tenant-1', '08012345678')).toBeNull();
+      expect(auditSink.query({ action: 'user.phone_changed' })).toEqual([
+        expect.objectContaining({ tenantId: 'tenant-1', targetId: user.userId, ipAddress: '10.0.0.1' }),
+      ]);
+    });
+
+    it('should revoke the user\'s other sessions', async () => {
+      const user = await phoneService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await phoneService.setCredential('tenant-1', user.userId, 'password123');
+      const current = await phoneService.authenticate({ tenantId: 'tenant-1', phone: '08012345678', credential: 'password123' });
+      const other = await phoneService.authenticate({ tenantId: 'tenant-1', phone: '08012345678', credential: 'password123' });
+
+      await phoneService.requestPhoneChange('tenant-1', user.userId, '08031234567');
+      await phoneService.changePhone(
+        'tenant-1', user.userId, '08031234567', extractCode('+2348031234567'), current.sessionId
+      );
+
+      expect((await phoneService.validateSession(current.sessionId)).valid).toBe(true);
+      expect((await phoneService.validateSession(other.sessionId)).valid).toBe(false);
+      await expect(
+        phoneService.authenticate({ tenantId: 'tenant-1', phone: '08031234567', credential: 'password123' })
+      ).resolves.toMatchObject({ userId: user.userId });
+    });
+
+    it('should keep the current session token and revoke the others', async () => {
+      const tokenService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        smsSender,
+        sessionTokens: {
+          keys: [{ kid: 'k1', algorithm: 'HS256', secret: 'test-secret' }],
+          activeKeyId: 'k1',
+        },
+      });
+      const user = await tokenService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await tokenService.setCredential('tenant-1', user.userId, 'password123');
+      const input = { tenantId: 'tenant-1', phone: '08012345678', credential: 'password123' };
+      const current = await tokenService.authenticate(input);
+      const other = await tokenService.authenticate(input);
+
+      await tokenService.requestPhoneChange('tenant-1', user.userId, '08031234567');
+      await tokenService.changePhone(
+        'tenant-1', user.userId, '08031234567', extractCode('+2348031234567'), current.sessionId
+      );
+
+      expect((await tokenService.validateSession(current.token!)).valid).toBe(true);
+      expect((await tokenService.validateSession(other.token!)).valid).toBe(false);
+    });
+
+    it('should reject numbers already registered in the tenant', async () => {
+      const user = await phoneService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await phoneService.createUser({ tenantId: 'tenant-1', phone: '08031234567' });
+
+      await expect(
+        phoneService.requestPhoneChange('tenant-1', user.userId, '08031234567')
+      ).rejects.toBeInstanceOf(UserExistsError);
+      expect(smsSender.messages).toHaveLength(0);
+    });
+
+    it('should reject a number registered after the code was sent', async () => {
+      const user = await phoneService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await phoneService.requestPhoneChange('tenant-1', user.userId, '08031234567');
+      await phoneService.createUser({ tenantId: 'tenant-1', phone: '08031234567' });
+
+      await expect(
+        phoneService.changePhone('tenant-1', user.userId, '08031234567', extractCode('+2348031234567'), 'session-1')
+      ).rejects.toBeInstanceOf(UserExistsError);
+      expect((await phoneService.getUser('tenant-1', user.userId))?.phone).toBe('+2348012345678');
+    });
+
+    it('should not accept a code issued to another user', async () => {
+      const alice = await phoneService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      const bob = await phoneService.createUser({ tenantId: 'tenant-1', phone: '08021234567' });
+      await phoneService.requestPhoneChange('tenant-1', alice.userId, '08031234567');
+
+      await expect(
+        phoneService.changePhone('tenant-1', bob.userId, '08031234567', extractCode('+2348031234567'), 'session-1')
+      ).rejects.toBeInstanceOf(InvalidOtpError);
+    });
+
+    it('should not accept phone change codes for login', async () => {
+      const user = await phoneService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await phoneService.requestPhoneChange('tenant-1', user.userId, '08031234567');
+
+      await expect(
+        phoneService.verifyOtp('tenant-1', '08031234567', extractCode('+2348031234567'))
+      ).rejects.toBeInstanceOf(InvalidOtpError);
+    });
+
+    it('should reject wrong codes', async () => {
+      const user = await phoneService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await phoneService.requestPhoneChange('tenant-1', user.userId, '08031234567');
+
+      await expect(
+        phoneService.changePhone('tenant-1', user.userId, '08031234567', '000000', 'session-1')
+      ).rejects.toBeInstanceOf(InvalidOtpError);
+      expect((await phoneService.getUser('tenant-1', user.userId))?.phone).toBe('+2348012345678');
+    });
+  });
+
+  describe('email verification', () => {
+    let emailSender: InMemoryEmailSender;
+    let emailService: IdentityService;
+    let auditSink: InMemoryAuditSink;
+
+    const extractToken = (email: string): string => {
+      const message = emailSender.lastMessageTo(email);
+      return message!.body.split(' ').pop()!;
+    };
+
+    beforeEach(() => {
+      emailSender = new InMemoryEmailSender();
+      auditSink = new InMemoryAuditSink();
+      emailService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        emailSender,
+        emailVerification: { secret: 'email-verification-secret-at-least-32-bytes' },
+        auditSink,
+      });
+    });
+
+    it('should start new users unverified', async () => {
+      const user = await emailService.createUser({ tenantId: 'tenant-1', phone: '08012345678', email: 'ada@example.com' });
+
+      expect(user.emailVerified).toBe(false);
+      expect(user.phoneVerified).toBe(false);
+    });
+
+    it('should verify the email with the emailed token', async () => {
+      const user = await emailService.createUser({ tenantId: 'tenant-1', phone: '08012345678', email: 'ada@example.com' });
+
+      await emailService.sendEmailVerification('tenant-1', user.userId);
+      const verified = await emailService.confirmEmail(extractToken('ada@example.com'), { ipAddress: '10.0.0.1' });
+
+      expect(verified.emailVerified).toBe(true);
+      expect((await emailService.getUser('tenant-1', user.userId))?.emailVerified).toBe(true);
+      expect(auditSink.query({ action: 'user.email_verified' })).toEqual([
+        expect.objectContaining({ tenantId: 'tenant-1', targetId: user.userId, ipAddress: '10.0.0.1' }),
+      ]);
+    });
+
+    it('should clear verification when the email changes', async () => {
+      const user = await emailService.createUser({ tenantId: 'tenant-1', phone: '08012345678', email: 'ada@example.com' });
+      await emailService.sendEmailVerification('tenant-1', user.userId);
+      await emailService.confirmEmail(extractToken('ada@example.com'));
+
+      const sameEmail = await emailService.updateUser('tenant-1', user.userId, { email: 'ADA@example.com' });
+      expect(sameEmail.emailVerified).toBe(true);
+
+      const changed = await emailService.updateUser('tenant-1', user.userId, { email: 'ada@new.example.com' });
+      expect(changed.emailVerified).toBe(false);
+    });
+
+    it('should reject tokens issued for a previous address', async () => {
+      const user = await emailService.createUser({ tenantId: 'tenant-1', phone: '08012345678', email: 'ada@example.com' });
+      await emailService.sendEmailVerification('tenant-1', user.userId);
+      const staleToken = extractToken('ada@example.com');
+
+      await emailService.updateUser('tenant-1', user.userId, { email: 'ada@new.example.com' });
+
+      await expect(emailService.confirmEmail(staleToken)).rejects.toBeInstanceOf(InvalidVerificationTokenError);
+    });
+
+    it('should reject tampered tokens', async () => {
+      const user = await emailService.createUser({ tenantId: 'tenant-1', phone: '08012345678', email: 'ada@example.com' });
+      await emailService.sendEmailVerification('tenant-1', user.userId);
+
+      await expect(
+        emailService.confirmEmail(`${extractToken('ada@example.com')}x`)
+      ).rejects.toBeInstanceOf(InvalidVerificationTokenError);
+    });
+
+    it('should require an email address', async () => {
+      const user = await emailService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      await expect(emailService.sendEmailVerification('tenant-1', user.userId)).rejects.toBeInstanceOf(ValidationError);
+      expect(emailSender.messages).toHaveLength(0);
+    });
+
+    it('should require email verification to be configured', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678', email: 'ada@example.com' });
+
+      await expect(service.sendEmailVerification('tenant-1', user.userId)).rejects.toThrow('not configured');
+    });
+
+    it('should mark the phone verified after an OTP login', async () => {
+      const smsSender = new InMemorySmsSender();
+      const otpService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        smsSender,
+      });
+      const user = await otpService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      await otpService.requestOtp('tenant-1', '08012345678');
+      const code = smsSender.lastMessageTo('+2348012345678')!.message.match(/\d{6}/)![0];
+      await otpService.verifyOtp('tenant-1', '08012345678', code);
+
+      expect((await otpService.getUser('tenant-1', user.userId))?.phoneVerified).toBe(true);
+    });
+  });
+
+  describe('tenant memberships', () => {
+    let auditSink: InMemoryAuditSink;
+    let events: IdentityEvent[];
+    let memberService: IdentityService;
+
+    beforeEach(() => {
+      auditSink = new InMemoryAuditSink();
+      events = [];
+      memberService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        auditSink,
+      });
+      memberService.subscribe('membership.added', event => { events.push(event); });
+      memberService.subscribe('membership.removed', event => { events.push(event); });
+    });
+
+    const signIn = async (tenantId: string, userId: string): Promise<string> => {
+      await memberService.setCredential(tenantId, userId, 'password123');
+      const result = await memberService.authenticate({ tenantId, phone: '08012345678', credential: 'password123' });
+      return result.sessionId;
+    };
+
+    it('should add the same user to another tenant', async () => {
+      const user = await memberService.createUser({
+        tenantId: 'tenant-1', phone: '08012345678', email: 'ada@example.com', metadata: { branch: 'Ikeja' },
+      });
+
+      const member = await memberService.addMembership('tenant-2', user.userId, ['manager'], { actorId: 'admin-1' });
+
+      expect(member).toMatchObject({ userId: user.userId, tenantId: 'tenant-2', phone: '+2348012345678', email: 'ada@example.com' });
+      expect(member.metadata).toBeUndefined();
+      expect((await memberService.listTenantsForUser(user.userId)).sort()).toEqual(['tenant-1', 'tenant-2']);
+      expect(await memberService.listRoles('tenant-2', user.userId)).toEqual(['manager']);
+      expect(auditSink.query({ action: 'membership.added' })).toEqual([
+        expect.objectContaining({ tenantId: 'tenant-2', targetId: user.userId, actorId: 'admin-1' }),
+      ]);
+      expect(events[0].payload).toMatchObject({ tenantId: 'tenant-2', userId: user.userId, roles: ['manager'] });
+    });
+
+    it('should return an existing membership unchanged', async () => {
+      const user = await memberService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      const member = await memberService.addMembership('tenant-1', user.userId, ['manager']);
+
+      expect(member.createdAt).toEqual(user.createdAt);
+      expect(await memberService.listRoles('tenant-1', user.userId)).toEqual([]);
+      expect(events).toEqual([]);
+    });
+
+    it('should reject unknown users', async () => {
+      await expect(memberService.addMembership('tenant-2', 'missing')).rejects.toBeInstanceOf(UserNotFoundError);
+    });
+
+    it('should reject an email address held by another user in the tenant', async () => {
+      const user = await memberService.createUser({ tenantId: 'tenant-1', phone: '08012345678', email: 'ada@example.com' });
+      await memberService.createUser({ tenantId: 'tenant-2', phone: '08098765432', email: 'ada@example.com' });
+
+      await expect(memberService.addMembership('tenant-2', user.userId)).rejects.toBeInstanceOf(UserExistsError);
+    });
+
+    it('should link profiles created with the same phone number in another tenant', async () => {
+      const user = await memberService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      const other = await memberService.createUser({ tenantId: 'tenant-2', phone: '+2348012345678' });
+
+      expect(other.userId).toBe(user.userId);
+      expect((await memberService.getGlobalIdentity(user.userId))?.memberships.map(m => m.tenantId)).toEqual([
+        'tenant-1',
+        'tenant-2',
+      ]);
+    });
+
+    it('should keep the global identity in identity storage', async () => {
+      const identityStorage = new InMemoryIdentityStorage();
+      memberService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        identityStorage,
+      });
+      const user = await memberService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await memberService.addMembership('tenant-2', user.userId);
+
+      expect(await identityStorage.getIdentityByPhone('+2348012345678')).toMatchObject({
+        userId: user.userId,
+        memberships: [{ tenantId: 'tenant-1' }, { tenantId: 'tenant-2' }],
+      });
+
+      await memberService.removeMembership('tenant-1', user.userId);
+      await memberService.deleteUser('tenant-2', user.userId);
+
+      expect(await identityStorage.getIdentity(user.userId)).toBeNull();
+    });
+
+    it('should describe the global identity', async () => {
+      const user = await memberService.createUser({ tenantId: 'tenant-1', phone: '08012345678', roles: ['cashier'] });
+      await memberService.addMembership('tenant-2', user.userId, ['manager']);
+
+      const identity = await memberService.getGlobalIdentity(user.userId);
+
+      expect(identity?.userId).toBe(user.userId);
+      expect(identity?.memberships).toEqual(expect.arrayContaining([
+        { tenantId: 'tenant-1', roles: ['cashier'], joinedAt: user.createdAt },
+        expect.objectContaining({ tenantId: 'tenant-2', roles: ['manager'] }),
+      ]));
+      expect(await memberService.getGlobalIdentity('missing')).toBeNull();
+    });
+
+    it('should switch a session to another tenant with that tenant\'s roles', async () => {
+      const user = await memberService.createUser({ tenantId: 'tenant-1', phone: '08012345678', roles: ['cashier'] });
+      await memberService.addMembership('tenant-2', user.userId, ['manager']);
+      await memberService.setCredential('tenant-2', user.userId, 'tenant-2-password');
+      const sessionId = await signIn('tenant-1', user.userId);
+
+      const switched = await memberService.switchTenant(
+        sessionId,
+        { tenantId: 'tenant-2', credential: 'tenant-2-password' },
+        { ipAddress: '10.0.0.1' }
+      );
+
+      expect(switched).toMatchObject({ userId: user.userId, tenantId: 'tenant-2', roles: ['manager'] });
+      expect((await memberService.assertTenantContext(switched.sessionId)).tenantId).toBe('tenant-2');
+      expect((await memberService.validateSession(sessionId)).valid).toBe(true);
+      expect(auditSink.query({ action: 'session.tenant_switched' })).toEqual([
+        expect.objectContaining({ tenantId: 'tenant-2', actorId: user.userId, reason: 'from tenant-1', ipAddress: '10.0.0.1' }),
+      ]);
+    });
+
+    it('should not switch to a tenant the user does not belong to', async () => {
+      const user = await memberService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      const sessionId = await signIn('tenant-1', user.userId);
+
+      await expect(
+        memberService.switchTenant(sessionId, { tenantId: 'tenant-2', credential: 'password123' })
+      ).rejects.toBeInstanceOf(TenantMismatchError);
+      await expect(
+        memberService.switchTenant('invalid-session', { tenantId: 'tenant-1', credential: 'password123' })
+      ).rejects.toBeInstanceOf(InvalidSessionError);
+    });
+
+    it('should not switch without the user\'s credential in the target tenant', async () => {
+      const user = await memberService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await memberService.setCredential('tenant-1', user.userId, 'victim-password');
+      // An admin of tenant-2 adds the user and sets a credential they know
+      await memberService.addMembership('tenant-2', user.userId);
+      const sessionId = await signIn('tenant-2', user.userId);
+
+      await expect(
+        memberService.switchTenant(sessionId, { tenantId: 'tenant-1', credential: 'password123' })
+      ).rejects.toBeInstanceOf(InvalidCredentialsError);
+      expect(auditSink.query({ action: 'session.tenant_switched' })).toEqual([]);
+    });
+
+    it('should remove a membership and its sessions only', async () => {
+      const user = await memberService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await memberService.addMembership('tenant-2', user.userId, ['manager']);
+      const tenant1Session = await signIn('tenant-1', user.userId);
+      const tenant2Session = await signIn('tenant-2', user.userId);
+
+      await memberService.removeMembership('tenant-2', user.userId);
+
+      expect((await memberService.validateSession(tenant2Session)).valid).toBe(false);
+      expect((await memberService.validateSession(tenant1Session)).valid).toBe(true);
+      expect(await memberService.listTenantsForUser(user.userId)).toEqual(['tenant-1']);
+      expect(await memberService.listRoles('tenant-2', user.userId)).toEqual([]);
+      expect(auditSink.query({ action: 'membership.removed' })).toHaveLength(1);
+      expect(events.map(e => e.type)).toEqual(['membership.added', 'membership.removed']);
+      await expect(memberService.removeMembership('tenant-2', user.userId)).rejects.toBeInstanceOf(UserNotFoundError);
+    });
+  });
+
+  describe('session tokens', () => {
+    let sessionStorage: InMemorySessionStorage;
+    let tokenService: IdentityService;
+
+    const login = async (): Promise<{ userId: string; token: string }> => {
+      const user = await tokenService.createUser({ tenantId: 'tenant-1', phone: '08012345678', roles: ['admin'] });
+      await tokenService.setCredential('tenant-1', user.userId, 'password123');
+      const result = await tokenService.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      });
+      return { userId: user.userId, token: result.token! };
+    };
+
+    beforeEach(() => {
+      sessionStorage = new InMemorySessionStorage();
+      tokenService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage,
+        sessionTokens: {
+          keys: [{ kid: 'k1', algorithm: 'HS256', secret: 'test-secret' }],
+          activeKeyId: 'k1',
+        },
+      });
+    });
+
+    it('should issue a signed token without storing the session', async () => {
+      const { token } = await login();
+      const claims = decodeJwt(token)!.payload;
+
+      expect(await sessionStorage.getSession(claims.sid as string)).toBeNull();
+
+      const validation = await tokenService.validateSession(token);
+      expect(validation.valid).toBe(true);
+      expect(validation.context?.tenantId).toBe('tenant-1');
+      expect(validation.context?.roles).toEqual(['admin']);
+    });
+
+    it('should resolve identity from a session token', async () => {
+      const { userId, token } = await login();
+
+      const identity = await tokenService.resolveIdentity(token);
+
+      expect(identity.userId).toBe(userId);
+      expect(identity.roles).toEqual(['admin']);
+    });
+
+    it('should deny-list tokens on logout', async () => {
+      const { token } = await login();
+
+      await tokenService.logout(token);
+
+      const validation = await tokenService.validateSession(token);
+      expect(validation).toEqual({ valid: false, reason: 'Session revoked' });
+    });
+
+    it('should revoke all tokens of a user on logoutAll', async () => {
+      const { userId, token } = await login();
+
+      await tokenService.logoutAll('tenant-1', userId);
+
+      expect((await tokenService.validateSession(token)).reason).toBe('Session revoked');
+    });
+
+    it('should accept tokens issued right after logoutAll', async () => {
+      const { userId } = await login();
+      await tokenService.logoutAll('tenant-1', userId);
+
+      const result = await tokenService.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      });
+
+      expect((await tokenService.validateSession(result.token!)).valid).toBe(true);
+    });
+
+    it('should reject tokens signed with an unknown key', async () => {
+      const forged = signJwt(
+        { sub: 'u', sid: 's', org_id: 'tenant-1', iat: 1, exp: 9999999999 },
+        { kid: 'k1', algorithm: 'HS256', secret: 'wrong-secret' }
+      );
+
+      const validation = await tokenService.validateSession(forged);
+
+      expect(validation.valid).toBe(false);
+    });
+
+    it('should keep accepting opaque session IDs from storage', async () => {
+      await sessionStorage.createSession({
+        sessionId: 'opaque-session',
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        roles: [],
+        issuedAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      });
+
+      expect((await tokenService.validateSession('opaque-session')).valid).toBe(true);
+    });
+  });
+
+  describe('refresh tokens', () => {
+    let refreshService: IdentityService;
+
+    const login = async (): Promise<{ userId: string; refreshToken: string; sessionId: string }> => {
+      const user = await refreshService.createUser({ tenantId: 'tenant-1', phone: '08012345678', roles: ['user'] });
+      await refreshService.setCredential('tenant-1', user.userId, 'password123');
+      const result = await refreshService.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      });
+      return { userId: user.userId, refreshToken: result.refreshToken!, sessionId: result.sessionId };
+    };
+
+    beforeEach(() => {
+      refreshService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        sessionDurationMs: 5 * 60 * 1000,
+        refreshTokenDurationMs: 30 * 24 * 60 * 60 * 1000,
+      });
+    });
+
+    it('should issue a refresh token alongside a short-lived session', async () => {
+      const user = await refreshService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await refreshService.setCredential('tenant-1', user.userId, 'password123');
+
+      const result = await refreshService.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      });
+
+      expect(result.refreshToken).toBeDefined();
+      expect(result.refreshExpiresAt!.getTime()).toBeGreaterThan(result.expiresAt.getTime());
+    });
+
+    it('should not issue refresh tokens unless configured', async () => {
+      const user = await service.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await service.setCredential('tenant-1', user.userId, 'password123');
+
+      const result = await service.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      });
+
+      expect(result.refreshToken).toBeUndefined();
+    });
+
+    it('should rotate the refresh token on every use', async () => {
+      const { userId, refreshToken } = await login();
+
+      const refreshed = await refreshService.refreshSession(refreshToken);
+
+      expect(refreshed.userId).toBe(userId);
+      expect(refreshed.roles).toEqual(['user']);
+      expect(refreshed.refreshToken).toBeDefined();
+      expect(refreshed.refreshToken).not.toBe(refreshToken);
+      expect((await refreshService.validateSession(refreshed.sessionId)).valid).toBe(true);
+
+      const again = await refreshService.refreshSession(refreshed.refreshToken!);
+      expect(again.sessionId).not.toBe(refreshed.sessionId);
+    });
+
+    it('should revoke the whole family when a used token is presented again', async () => {
+      const { refreshToken, sessionId } = await login();
+      const rotated = await refreshService.refreshSession(refreshToken);
+
+      await expect(refreshService.refreshSession(refreshToken)).rejects.toThrow('Refresh token reuse detected');
+
+      await expect(refreshService.refreshSession(rotated.refreshToken!)).rejects.toBeInstanceOf(InvalidRefreshTokenError);
+      expect((await refreshService.validateSession(sessionId)).valid).toBe(false);
+      expect((await refreshService.validateSession(rotated.sessionId)).valid).toBe(false);
+    });
+
+    it('should reject unknown and expired refresh tokens', async () => {
+      await expect(refreshService.refreshSession('unknown-token')).rejects.toBeInstanceOf(InvalidRefreshTokenError);
+
+      const expiringService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        refreshTokenDurationMs: -1,
+      });
+      const user = await expiringService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await expiringService.setCredential('tenant-1', user.userId, 'password123');
+      const result = await expiringService.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      });
+
+      await expect(expiringService.refreshSession(result.refreshToken!)).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('should revoke refresh tokens on logoutAll', async () => {
+      const { userId, refreshToken } = await login();
+
+      await refreshService.logoutAll('tenant-1', userId);
+
+      await expect(refreshService.refreshSession(refreshToken)).rejects.toBeInstanceOf(InvalidRefreshTokenError);
+    });
+
+    it('should revoke a refresh token explicitly', async () => {
+      const { refreshToken, sessionId } = await login();
+
+      await refreshService.revokeRefreshToken(refreshToken);
+
+      await expect(refreshService.refreshSession(refreshToken)).rejects.toBeInstanceOf(InvalidRefreshTokenError);
+      expect((await refreshService.validateSession(sessionId)).valid).toBe(false);
+    });
+
+    it('should pick up role changes on refresh', async () => {
+      const { userId, refreshToken } = await login();
+      await refreshService.assignRole('tenant-1', userId, 'manager');
+
+      const refreshed = await refreshService.refreshSession(refreshToken);
+
+      expect(refreshed.roles).toEqual(['user', 'manager']);
+    });
+  });
+
+  describe('session expiry policies', () => {
+    const minutes = (n: number): number => n * 60 * 1000;
+    let sessionStorage: InMemorySessionStorage;
+
+    const storeSession = async (ageMs: number, lastSeenAgoMs: number, expiresInMs: number): Promise<string> => {
+      const now = Date.now();
+      await sessionStorage.createSession({
+        sessionId: 'policy-session',
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        roles: [],
+        issuedAt: new Date(now - ageMs),
+        lastSeenAt: new Date(now - lastSeenAgoMs),
+        expiresAt: new Date(now + expiresInMs),
+      });
+      return 'policy-session';
+    };
+
+    const createService = (config: Partial<IdentityServiceConfig>): IdentityService => new IdentityService({
+      userStorage: new InMemoryUserStorage(),
+      sessionStorage,
+      sessionDurationMs: minutes(60),
+      ...config,
+    });
+
+    beforeEach(() => {
+      sessionStorage = new InMemorySessionStorage();
+    });
+
+    it('should reject sessions idle for longer than the idle timeout', async () => {
+      const policyService = createService({ idleTimeoutMs: minutes(15) });
+      const sessionId = await storeSession(minutes(30), minutes(20), minutes(30));
+
+      const validation = await policyService.validateSession(sessionId);
+
+      expect(validation).toEqual({ valid: false, reason: 'Session idle timeout exceeded' });
+      expect(await sessionStorage.getSession(sessionId)).toBeNull();
+    });
+
+    it('should record activity so active sessions stay within the idle timeout', async () => {
+      const policyService = createService({ idleTimeoutMs: minutes(15) });
+      const sessionId = await storeSession(minutes(30), minutes(10), minutes(30));
+
+      const validation = await policyService.validateSession(sessionId);
+
+      expect(validation.valid).toBe(true);
+      const stored = await sessionStorage.getSession(sessionId);
+      expect(Date.now() - stored!.lastSeenAt!.getTime()).toBeLessThan(1000);
+    });
+
+    it('should throttle activity writes', async () => {
+      const policyService = createService({ idleTimeoutMs: minutes(15), sessionTouchIntervalMs: minutes(1) });
+      const sessionId = await storeSession(minutes(30), 10 * 1000, minutes(30));
+      const before = (await sessionStorage.getSession(sessionId))!.lastSeenAt;
+
+      await policyService.validateSession(sessionId);
+
+      expect((await sessionStorage.getSession(sessionId))!.lastSeenAt).toEqual(before);
+    });
+
+    it('should write activity at least twice per idle timeout', async () => {
+      const policyService = createService({ idleTimeoutMs: minutes(1) });
+      const sessionId = await storeSession(minutes(5), 40 * 1000, minutes(30));
+
+      await policyService.validateSession(sessionId);
+
+      const stored = await sessionStorage.getSession(sessionId);
+      expect(Date.now() - stored!.lastSeenAt!.getTime()).toBeLessThan(1000);
+    });
+
+    it('should slide the expiry of active sessions', async () => {
+      const policyService = createService({ slidingExpiration: true });
+      const sessionId = await storeSession(minutes(50), minutes(5), minutes(10));
+
+      const validation = await policyService.validateSession(sessionId);
+
+      expect(validation.valid).toBe(true);
+      expect(validation.context!.expiresAt.getTime()).toBeGreaterThan(Date.now() + minutes(59));
+    });
+
+    it('should cap sliding renewal at the absolute lifetime', async () => {
+      const policyService = createService({ slidingExpiration: true, absoluteSessionLifetimeMs: minutes(90) });
+      const sessionId = await storeSession(minutes(80), minutes(5), minutes(5));
+
+      const validation = await policyService.validateSession(sessionId);
+
+      expect(validation.context!.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + minutes(10));
+    });
+
+    it('should reject sessions older than the absolute lifetime', async () => {
+      const policyService = createService({ slidingExpiration: true, absoluteSessionLifetimeMs: minutes(90) });
+      const sessionId = await storeSession(minutes(100), minutes(1), minutes(30));
+
+      const validation = await policyService.validateSession(sessionId);
+
+      expect(validation).toEqual({ valid: false, reason: 'Session lifetime exceeded' });
+    });
+
+    it('should cap the initial expiry at the absolute lifetime', async () => {
+      const policyService = createService({ absoluteSessionLifetimeMs: minutes(30) });
+      const user = await policyService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await policyService.setCredential('tenant-1', user.userId, 'password123');
+
+      const result = await policyService.authenticate({
+        tenantId: 'tenant-1',
+        phone: '08012345678',
+        credential: 'password123',
+      });
+
+      expect(result.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + minutes(30));
+    });
+
+    it('should keep reporting plain expiry separately', async () => {
+      const policyService = createService({ idleTimeoutMs: minutes(15) });
+      const sessionId = await storeSession(minutes(30), minutes(1), -1000);
+
+      const validation = await policyService.validateSession(sessionId);
+
+      expect(validation.reason).toBe('Session expired');
+    });
+  });
+
+  describe('audit log', () => {
+    let auditSink: InMemoryAuditSink;
+    let auditedService: IdentityService;
+
+    beforeEach(() => {
+      auditSink = new InMemoryAuditSink();
+      auditedService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        auditSink,
+      });
+    });
+
+    it('should record user lifecycle events with the acting user', async () => {
+      const context = { actorId: 'admin-1', ipAddress: '10.0.0.1' };
+      const user = await auditedService.createUser({ tenantId: 'tenant-1', phone: '08012345678' }, context);
+      await auditedService.updateUser('tenant-1', user.userId, { displayName: 'Ada' }, context);
+      await auditedService.deleteUser('tenant-1', user.userId, context);
+
+      const events = auditSink.query({ userId: user.userId });
+
+      expect(events.map(e => e.action)).toEqual(['user.created', 'user.updated', 'user.deleted']);
+      expect(events.every(e => e.actorId === 'admin-1' && e.ipAddress === '10.0.0.1')).toBe(true);
+      expect(events.every(e => e.tenantId === 'tenant-1' && e.timestamp instanceof Date)).toBe(true);
+    });
+
+    it('should record successful and failed authentication', async () => {
+      const user = await auditedService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await auditedService.authenticate({ tenantId: 'tenant-1', phone: '08012345678', credential: 'password123' })
+        .catch(() => undefined);
+      await auditedService.setCredential('tenant-1', user.userId, 'password123');
+      await auditedService.authenticate({ tenantId: 'tenant-1', phone: '08012345678', credential: 'wrong-password' })
+        .catch(() => undefined);
+      await auditedService.authenticate({ tenantId: 'tenant-1', phone: '08099999999', credential: 'password123' })
+        .catch(() => undefined);
+      await auditedService.authenticate({ tenantId: 'tenant-1', phone: '08012345678', credential: 'password123' });
+
+      const failures = auditSink.query({ action: 'auth.failed' });
+      const successes = auditSink.query({ action: 'auth.succeeded' });
+
+      expect(failures.map(e => e.reason)).toEqual(['No credential set', 'Invalid credential', 'Unknown phone number']);
+      expect(failures[2].targetId).toBeUndefined();
+      expect(successes).toHaveLength(1);
+      expect(successes[0]).toMatchObject({ tenantId: 'tenant-1', actorId: user.userId, targetId: user.userId });
+    });
+
+    it('should never record credentials or session IDs', async () => {
+      const user = await auditedService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await auditedService.setCredential('tenant-1', user.userId, 'password123');
+      const result = await auditedService.authenticate({ tenantId: 'tenant-1', phone: '08012345678', credential: 'password123' });
+      await auditedService.logout(result.sessionId);
+
+      const serialized = JSON.stringify(auditSink.events);
+      expect(serialized).not.toContain('password123');
+      expect(serialized).not.toContain(result.sessionId);
+    });
+
+    it('should record logout and logoutAll', async () => {
+      const user = await auditedService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await auditedService.setCredential('tenant-1', user.userId, 'password123');
+      const result = await auditedService.authenticate({ tenantId: 'tenant-1', phone: '08012345678', credential: 'password123' });
+
+      await auditedService.logout(result.sessionId);
+      await auditedService.logoutAll('tenant-1', user.userId, { actorId: 'admin-1' });
+
+      expect(auditSink.query({ action: 'session.logout' })[0]).toMatchObject({ actorId: user.userId, targetId: user.userId });
+      expect(auditSink.query({ action: 'session.logout_all' })[0]).toMatchObject({ actorId: 'admin-1', targetId: user.userId });
+    });
+
+    it('should record failed session validation with the session owner when known', async () => {
+      const expiring = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        sessionDurationMs: 1,
+        auditSink,
+      });
+      const user = await expiring.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await expiring.setCredential('tenant-1', user.userId, 'password123');
+      const result = await expiring.authenticate({ tenantId: 'tenant-1', phone: '08012345678', credential: 'password123' });
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      const expired = await expiring.validateSession(result.sessionId, { ipAddress: '10.0.0.2' });
+      await expiring.validateSession('unknown-session');
+
+      expect(expired.context).toBeUndefined();
+      const failures = auditSink.query({ action: 'session.validation_failed' });
+      expect(failures[0]).toMatchObject({ tenantId: 'tenant-1', targetId: user.userId, reason: 'Session expired', ipAddress: '10.0.0.2' });
+      expect(failures[1]).toMatchObject({ reason: 'Session not found' });
+      expect(failures[1].tenantId).toBeUndefined();
+    });
+
+    it('should not fail operations when the sink throws', async () => {
+      const failing = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        auditSink: { record: async () => { throw new Error('sink down'); } },
+      });
+
+      await expect(failing.createUser({ tenantId: 'tenant-1', phone: '08012345678' })).resolves.toBeDefined();
+    });
+  });
+
+  describe('domain events', () => {
+    let events: IdentityEvent[];
+    let eventService: IdentityService;
+
+    const record = (event: IdentityEvent): void => { events.push(event); };
+
+    beforeEach(() => {
+      events = [];
+      eventService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+      });
+      eventService.subscribe('user.created', record);
+      eventService.subscribe('user.updated', record);
+      eventService.subscribe('user.deleted', record);
+      eventService.subscribe('session.created', record);
+      eventService.subscribe('session.revoked', record);
+    });
+
+    it('should emit user lifecycle events', async () => {
+      const user = await eventService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await eventService.updateUser('tenant-1', user.userId, { displayName: 'Ada' });
+      await eventService.deleteUser('tenant-1', user.userId);
+
+      expect(events.map(e => e.type)).toEqual(['user.created', 'user.updated', 'session.revoked', 'user.deleted']);
+      expect(events[1].payload).toMatchObject({ tenantId: 'tenant-1', userId: user.userId, profile: { displayName: 'Ada' } });
+      expect(events[2].payload).toMatchObject({ scope: 'user', reason: 'user_deleted' });
+      expect(new Set(events.map(e => e.id)).size).toBe(4);
+    });
+
+    it('should emit session events without session IDs', async () => {
+      const user = await eventService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await eventService.setCredential('tenant-1', user.userId, 'password123');
+      const result = await eventService.authenticate({ tenantId: 'tenant-1', phone: '08012345678', credential: 'password123' });
+      await eventService.logout(result.sessionId);
+
+      const sessionEvents = events.filter(e => e.type.startsWith('session.'));
+      expect(sessionEvents.map(e => e.type)).toEqual(['session.created', 'session.revoked']);
+      expect(sessionEvents[1].payload).toMatchObject({ userId: user.userId, scope: 'session', reason: 'logout' });
+      expect(JSON.stringify(sessionEvents)).not.toContain(result.sessionId);
+    });
+
+    it('should stop delivering after unsubscribe', async () => {
+      eventService.unsubscribe('user.created', record);
+
+      await eventService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+
+      expect(events).toEqual([]);
+    });
+
+    it('should not fail operations when a handler throws', async () => {
+      eventService.subscribe('user.created', () => { throw new Error('handler failed'); });
+
+      await expect(eventService.createUser({ tenantId: 'tenant-1', phone: '08012345678' })).resolves.toBeDefined();
+      expect(events).toHaveLength(1);
+    });
+
+    it('should keep failed deliveries in the outbox and retry them', async () => {
+      const outboxStorage = new InMemoryOutboxStorage();
+      const eventBus = new IdentityEventBus();
+      const outboxService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        eventBus,
+        outboxStorage,
+        outbox: { retryBaseDelayMs: 0 },
+      });
+      let available = false;
+      const delivered: string[] = [];
+      eventBus.subscribe('user.created', event => {
+        if (!available) throw new Error('downstream unavailable');
+        delivered.push(event.payload.userId);
+      });
+
+      const user = await outboxService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      expect(delivered).toEqual([]);
+
+      available = true;
+      expect(await outboxService.processOutbox()).toBe(1);
+      expect(delivered).toEqual([user.userId]);
+      expect(await outboxService.processOutbox()).toBe(0);
+    });
+  });
+
+  describe('brute-force protection', () => {
+    let rateLimitStore: InMemoryRateLimitStore;
+    let lockoutService: IdentityService;
+
+    const attempt = (credential: string, phone = '08012345678', ipAddress?: string): Promise<unknown> =>
+      lockoutService.authenticate({ tenantId: 'tenant-1', phone, credential }, undefined, { ipAddress });
+
+    const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+    beforeEach(async () => {
+      rateLimitStore = new InMemoryRateLimitStore();
+      lockoutService = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        rateLimitStore,
+        lockout: { maxAttempts: 2, ipMaxAttempts: 3, baseLockoutMs: 60 * 1000 },
+      });
+      const user = await lockoutService.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await lockoutService.setCredential('tenant-1', user.userId, 'password123');
+    });
+
+    it('should lock the account after repeated failures', async () => {
+      await expect(attempt('wrong-password')).rejects.toBeInstanceOf(InvalidCredentialsError);
+      await expect(attempt('wrong-password')).rejects.toBeInstanceOf(InvalidCredentialsError);
+
+      const error = await attempt('password123').catch(e => e);
+
+      expect(error).toBeInstanceOf(AccountLockedError);
+      expect((error as AccountLockedError).retryAfter.getTime()).toBeGreaterThan(Date.now() + 50 * 1000);
+    });
+
+    it('should allow login again once the lock expires and reset the count', async () => {
+      const shortLock = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+        rateLimitStore,
+        lockout: { maxAttempts: 1, baseLockoutMs: 20 },
+      });
+      const user = await shortLock.createUser({ tenantId: 'tenant-1', phone: '08012345678' });
+      await shortLock.setCredential('tenant-1', user.userId, 'password123');
+      const input = { tenantId: 'tenant-1', phone: '08012345678' };
+
+      await expect(shortLock.authenticate({ ...input, credential: 'wrong-password' })).rejects.toBeInstanceOf(InvalidCredentialsError);
+      await expect(shortLock.authenticate({ ...input, credential: 'password123' })).rejects.toBeInstanceOf(AccountLockedError);
+      await wait(30);
+
+      await expect(shortLock.authenticate({ ...input, credential: 'password123' })).resolves.toBeDefined();
+      expect(await rateLimitStore.get('account:tenant-1:+2348012345678')).toBeNull();
+    });
+
+    it('should double the lock on each failure past the threshold', async () => {
+      await attempt('wrong-password').catch(() => undefined);
+      await attempt('wrong-password').catch(() => undefined);
+      const first = (await rateLimitStore.get('account:tenant-1:+2348012345678'))!;
+
+      // Expire the lock without forgetting the failures
+      await rateLimitStore.lock('account:tenant-1:+2348012345678', new Date(Date.now() - 1));
+      await attempt('wrong-password').catch(() => undefined);
+      const second = (await rateLimitStore.get('account:tenant-1:+2348012345678'))!;
+
+      expect(first.lockedUntil!.getTime() - first.lastFailureAt.getTime()).toBe(60 * 1000);
+      expect(second.lockedUntil!.getTime() - second.lastFailureAt.getTime()).toBe(120 * 1000);
+    });
+
+    it('should count failures for unknown phone numbers', async () => {
+      await attempt('password123', '08099999999').catch(() => undefined);
+      await attempt('password123', '08099999999').catch(() => undefined);
+
+      await expect(attempt('password123', '08099999999')).rejects.toBeInstanceOf(AccountLockedError);
+    });
+
+    it('should lock an IP address spraying many accounts', async () => {
+      await attempt('password123', '08011111111', '10.0.0.1').catch(() => undefined);
+      await attempt('password123', '08022222222', '10.0.0.1').catch(() => undefined);
+      await attempt('password123', '08033333333', '10.0.0.1').catch(() => undefined);
+
+      await expect(attempt('password123', '08012345678', '10.0.0.1')).rejects.toBeInstanceOf(AccountLockedError);
+      await expect(attempt('password123', '08012345678', '10.0.0.2')).resolves.toBeDefined();
+    });
+
+    it('should keep other accounts usable when one is locked', async () => {
+      const other = await lockoutService.createUser({ tenantId: 'tenant-1', phone: '08022222222' });
+      await lockoutService.setCredential('tenant-1', other.userId, 'password456');
+      await attempt('wrong-password').catch(() => undefined);
+      await attempt('wrong-password').catch(() => undefined);
+
+      await expect(attempt('password456', '08022222222')).resolves.toMatchObject({ userId: other.userId });
+      await expect(attempt('password123')).rejects.toBeInstanceOf(AccountLockedError);
+    });
+  });
 });
@@ -2,15 +2,18 @@
  * Core Identity Service
  * 
  * Provides canonical identity resolution, user profiles, authentication primitives,
- * and tenant-aware session context. Acts as a Clerk adapter/resolver.
+ * and tenant-aware session context. Sessions and users can be delegated to an
+ * external identity provider such as Clerk or any OIDC issuer.
  */
 
-import { randomBytes } from 'crypto';
+import { randomBytes, createHash } from 'crypto';
 import {
   TenantId,
+  PhoneNumber,
   UserId,
   SessionId,
   RoleId,
+  Permission,
   UserProfile,
   SessionContext,
   IdentityResolution,
@@ -20,24 +23,108 @@ import {
   AuthResult,
   SessionValidation,
   TenantContext,
+  OtpRequestResult,
+  RoleDefinition,
+  RefreshTokenRecord,
+  ListUsersOptions,
+  Page,
+  IdentityEvent,
+  IdentityEventMap,
+  IdentityEventType,
+  SessionRevocationReason,
+  GlobalIdentity,
+  TenantMembership,
+  IdentityRecord,
+  SwitchTenantInput,
+  OtpChallenge,
 } from './types';
-import { normalizeNigerianPhone } from './phone-utils';
+import { normalizePhone, DEFAULT_COUNTRY } from './phone-utils';
 import {
   validate,
   CreateUserInputSchema,
   UpdateUserInputSchema,
   AuthenticateInputSchema,
+  SwitchTenantInputSchema,
   TenantIdSchema,
   UserIdSchema,
   SessionIdSchema,
+  SessionTokenSchema,
+  RoleIdSchema,
+  PermissionSchema,
   EmailSchema,
+  CredentialSchema,
+  OtpCodeSchema,
+  ListUsersOptionsSchema,
 } from './validation';
-import { UserStorage, SessionStorage } from './storage';
 import {
-  ClerkAdapterInterface,
-  extractTenantContext,
-  clerkUserToProfile,
-} from './clerk-adapter';
+  UserStorage,
+  SessionStorage,
+  CredentialStorage,
+  OtpStorage,
+  OutboxStorage,
+  RateLimitStore,
+  RoleStorage,
+  ProviderLinkStorage,
+  IdentityStorage,
+  InMemoryCredentialStorage,
+  InMemoryOtpStorage,
+  InMemoryRateLimitStore,
+  InMemoryRoleStorage,
+  InMemoryProviderLinkStorage,
+  InMemoryIdentityStorage,
+} from './storage';
+import { hashCredential, verifyCredential } from './credentials';
+import {
+  SmsSender,
+  OtpConfig,
+  DEFAULT_OTP_CONFIG,
+  generateOtpCode,
+  generateOtpSalt,
+  hashOtpCode,
+  verifyOtpCode,
+} from './otp';
+import { hasPermission, resolvePermissions } from './permissions';
+import { SessionTokenSigner, SessionTokenConfig } from './session-tokens';
+import { isJwt } from './jwt';
+import { MembershipCache } from './membership-cache';
+import { DEFAULT_PAGE_LIMIT } from './pagination';
+import { AuditSink, AuditEvent, AuditContext } from './audit';
+import {
+  EmailSender,
+  EmailVerificationConfig,
+  DEFAULT_EMAIL_VERIFICATION_CONFIG,
+  signEmailVerificationToken,
+  verifyEmailVerificationToken,
+} from './email-verification';
+import { IdentityEventBus, IdentityEventHandler, OutboxRelay, OutboxRelayConfig } from './events';
+import {
+  LockoutConfig,
+  DEFAULT_LOCKOUT_CONFIG,
+  accountLockoutKey,
+  ipLockoutKey,
+  lockoutDurationMs,
+} from './lockout';
+import {
+  InvalidCredentialsError,
+  InvalidOtpError,
+  OtpCooldownError,
+  PermissionDeniedError,
+  InvalidRefreshTokenError,
+  AccountLockedError,
+  UserExistsError,
+  UserNotFoundError,
+  InvalidSessionError,
+  NotConfiguredError,
+  ValidationError,
+  InvalidVerificationTokenError,
+  TenantMismatchError,
+  NoActiveTenantError,
+  IdentityError,
+} from './errors';
+import { ClerkAdapterInterface } from './clerk-adapter';
+import { ClerkIdentityProvider, clerkClaimsToSessionContext } from './clerk-provider';
+import { IdentityProvider, UserDirectory, DirectoryUserInput } from './identity-provider';
+import { TenantResolutionPolicy, TenantRequest } from './tenant-resolution';
 
 /**
  * Identity service configuration
@@ -45,75 +132,317 @@ import {
 export interface IdentityServiceConfig {
   userStorage: UserStorage;
   sessionStorage: SessionStorage;
+  credentialStorage?: CredentialStorage;
+  roleStorage?: RoleStorage;
+  /**
+   * Global identities linking a person's profiles across tenants (standalone mode)
+   */
+  identityStorage?: IdentityStorage;
+  otpStorage?: OtpStorage;
+  smsSender?: SmsSender;
+  otp?: OtpConfig;
   sessionDurationMs?: number;
+  /**
+   * Invalidate stored sessions with no activity for this long
+   */
+  idleTimeoutMs?: number;
+  /**
+   * Extend a stored session's expiry by sessionDurationMs on activity
+   */
+  slidingExpiration?: boolean;
+  /**
+   * Hard cap on a session's lifetime from issue, regardless of activity
+   */
+  absoluteSessionLifetimeMs?: number;
+  /**
+   * Minimum interval between activity writes for the same session (default 1
+   * minute, at most half of idleTimeoutMs)
+   */
+  sessionTouchIntervalMs?: number;
+  refreshTokenDurationMs?: number;
+  sessionTokens?: SessionTokenConfig;
+  /**
+   * External provider that verifies sessions and, if it has a user directory, owns user data
+   */
+  identityProvider?: IdentityProvider;
+  /**
+   * Shorthand for `identityProvider: new ClerkIdentityProvider(clerkAdapter, { tenantResolution })`
+   */
   clerkAdapter?: ClerkAdapterInterface;
+  /**
+   * How long provider membership checks are cached (default 1 minute, 0 disables)
+   */
+  membershipCacheTtlMs?: number;
+  /**
+   * Shared membership cache, e.g. so a ClerkWebhookHandler can invalidate it
+   */
+  membershipCache?: MembershipCache;
+  /**
+   * Tenant of Clerk sessions without an active organization (default: reject)
+   */
+  tenantResolution?: TenantResolutionPolicy;
+  /**
+   * Accept local sessions alongside provider sessions while users migrate to
+   * the provider. Users stay in local storage, and provider sessions resolve
+   * to the local user linked to the provider user (see ProviderMigration).
+   */
+  dualRun?: boolean;
+  /**
+   * Links between local and provider users, shared with ProviderMigration
+   */
+  providerLinkStorage?: ProviderLinkStorage;
+  auditSink?: AuditSink;
+  eventBus?: IdentityEventBus;
+  /**
+   * Persist events before delivery so failed deliveries can be retried with processOutbox
+   */
+  outboxStorage?: OutboxStorage;
+  outbox?: OutboxRelayConfig;
+  rateLimitStore?: RateLimitStore;
+  lockout?: LockoutConfig;
+  emailSender?: EmailSender;
+  emailVerification?: EmailVerificationConfig;
+  /**
+   * Country for phone numbers entered without a leading + (default NG)
+   */
+  defaultCountry?: string;
+  /**
+   * Per-tenant overrides of defaultCountry
+   */
+  tenantCountries?: Record<TenantId, string>;
 }
 
 /**
  * Identity Service
  * 
- * Provider-agnostic identity service with Clerk adapter support.
+ * Provider-agnostic identity service.
  * Can operate in two modes:
- * 1. Standalone mode - uses local storage for sessions
- * 2. Clerk mode - uses Clerk for session verification and user data
+ * 1. Standalone mode - uses local storage for sessions and users
+ * 2. Provider mode - an IdentityProvider (e.g. Clerk, OIDC) verifies sessions;
+ *    providers with a user directory also own user data and memberships,
+ *    otherwise users are kept in local storage under the provider's user IDs
+ *
+ * Dual-run mode bridges the two during a migration: both local and provider
+ * sessions are accepted, and users stay in local storage.
  */
 export class IdentityService {
   private userStorage: UserStorage;
   private sessionStorage: SessionStorage;
+  private credentialStorage: CredentialStorage;
+  private roleStorage: RoleStorage;
+  private identityStorage: IdentityStorage;
+  private otpStorage: OtpStorage;
+  private smsSender?: SmsSender;
+  private otpConfig: Required<OtpConfig>;
   private sessionDurationMs: number;
-  private clerkAdapter?: ClerkAdapterInterface;
+  private idleTimeoutMs?: number;
+  private slidingExpiration: boolean;
+  private absoluteSessionLifetimeMs?: number;
+  private sessionTouchIntervalMs: number;
+  private refreshTokenDurationMs?: number;
+  private sessionTokenSigner?: SessionTokenSigner;
+  private identityProvider?: IdentityProvider;
+  private directory?: UserDirectory;
+  private dualRun: boolean;
+  private providerLinkStorage: ProviderLinkStorage;
+  private membershipCache: MembershipCache;
+  private auditSink?: AuditSink;
+  private eventBus: IdentityEventBus;
+  private outboxStorage?: OutboxStorage;
+  private outboxRelay?: OutboxRelay;
+  private rateLimitStore: RateLimitStore;
+  private lockoutConfig: Required<LockoutConfig>;
+  private defaultCountry: string;
+  private tenantCountries: Record<TenantId, string>;
+  private emailSender?: EmailSender;
+  private emailVerificationConfig?: Required<EmailVerificationConfig>;
 
   constructor(config: IdentityServiceConfig) {
     this.userStorage = config.userStorage;
     this.sessionStorage = config.sessionStorage;
+    this.credentialStorage = config.credentialStorage || new InMemoryCredentialStorage();
+    this.roleStorage = config.roleStorage || new InMemoryRoleStorage();
+    this.identityStorage = config.identityStorage || new InMemoryIdentityStorage();
+    this.otpStorage = config.otpStorage || new InMemoryOtpStorage();
+    this.smsSender = config.smsSender;
+    this.otpConfig = { ...DEFAULT_OTP_CONFIG, ...config.otp };
     this.sessionDurationMs = config.sessionDurationMs || 24 * 60 * 60 * 1000;
-    this.clerkAdapter = config.clerkAdapter;
+    this.idleTimeoutMs = config.idleTimeoutMs;
+    this.slidingExpiration = config.slidingExpiration || false;
+    this.absoluteSessionLifetimeMs = config.absoluteSessionLifetimeMs;
+    // An interval near the idle timeout would log out users active just under it
+    this.sessionTouchIntervalMs = Math.min(
+      config.sessionTouchIntervalMs ?? 60 * 1000,
+      config.idleTimeoutMs ? config.idleTimeoutMs / 2 : Infinity
+    );
+    this.refreshTokenDurationMs = config.refreshTokenDurationMs;
+    this.sessionTokenSigner = config.sessionTokens && new SessionTokenSigner(config.sessionTokens);
+    this.identityProvider = config.identityProvider || (config.clerkAdapter &&
+      new ClerkIdentityProvider(config.clerkAdapter, { tenantResolution: config.tenantResolution }));
+    this.dualRun = config.dualRun || false;
+    // Users stay local until the migration completes
+    this.directory = this.dualRun ? undefined : this.identityProvider?.directory;
+    this.providerLinkStorage = config.providerLinkStorage || new InMemoryProviderLinkStorage();
+    this.membershipCache = config.membershipCache ||
+      new MembershipCache({ ttlMs: config.membershipCacheTtlMs ?? 60 * 1000 });
+    this.auditSink = config.auditSink;
+    this.eventBus = config.eventBus || new IdentityEventBus();
+    this.outboxStorage = config.outboxStorage;
+    this.outboxRelay = config.outboxStorage && new OutboxRelay(config.outboxStorage, this.eventBus, config.outbox);
+    this.rateLimitStore = config.rateLimitStore || new InMemoryRateLimitStore();
+    this.lockoutConfig = { ...DEFAULT_LOCKOUT_CONFIG, ...config.lockout };
+    this.defaultCountry = config.defaultCountry || DEFAULT_COUNTRY;
+    this.tenantCountries = config.tenantCountries || {};
+    this.emailSender = config.emailSender;
+    this.emailVerificationConfig = config.emailVerification &&
+      { ...DEFAULT_EMAIL_VERIFICATION_CONFIG, ...config.emailVerification };
   }
 
   /**
    * Create a new user
+   * 
+   * Roles given in the input are stored as the user's role assignments in the tenant.
+   * With a provider directory the user is created there as a member of the tenant.
+   * Otherwise a phone number already used in another tenant joins that
+   * person's global identity, keeping their user ID.
    */
-  async createUser(input: CreateUserInput): Promise<UserProfile> {
+  async createUser(input: CreateUserInput, context?: AuditContext): Promise<UserProfile> {
     const validated = validate(CreateUserInputSchema, input);
-    const normalizedPhone = normalizeNigerianPhone(validated.phone);
+    const normalizedPhone = this.normalizePhone(validated.tenantId, validated.phone);
 
-    const existing = await this.userStorage.getUserByPhone(validated.tenantId, normalizedPhone);
-    if (existing) {
-      throw new Error(`User with phone ${normalizedPhone} already exists in tenant ${validated.tenantId}`);
+    let created: UserProfile;
+    if (this.directory) {
+      created = await this.createDirectoryUser(this.directory, validated.tenantId, {
+        email: validated.email,
+        displayName: validated.displayName,
+        metadata: validated.metadata,
+        phone: normalizedPhone,
+      });
+    } else {
+      const identity = await this.identityStorage.getIdentityByPhone(normalizedPhone);
+      created = await this.createLocalUser(validated, normalizedPhone, identity?.userId || this.generateId());
+    }
+
+    return this.finishCreateUser(created, validated.roles, context);
+  }
+
+  /**
+   * Create a local user keyed by a provider subject
+   * 
+   * For identity providers without a user directory (such as OIDC), whose
+   * sessions resolve to the local user with the token subject as its ID. The
+   * subject must come from a verified token. A subject that already has a
+   * profile in another tenant joins that identity; a phone number held by
+   * another identity is rejected.
+   */
+  async createUserForSubject(
+    subject: UserId,
+    input: CreateUserInput,
+    context?: AuditContext
+  ): Promise<UserProfile> {
+    if (!this.identityProvider || this.identityProvider.directory) {
+      throw new NotConfiguredError('Provider subjects are only used with an identity provider without a user directory');
+    }
+    const userId = validate(UserIdSchema, subject);
+    const validated = validate(CreateUserInputSchema, input);
+    const normalizedPhone = this.normalizePhone(validated.tenantId, validated.phone);
+
+    const identity = await this.identityStorage.getIdentityByPhone(normalizedPhone);
+    if (identity && identity.userId !== userId) {
+      throw new UserExistsError('User with this phone number already exists');
+    }
+
+    const created = await this.createLocalUser(validated, normalizedPhone, userId);
+    return this.finishCreateUser(created, validated.roles, context);
+  }
+
+  /**
+   * Store a new tenant profile and record it on the user's global identity
+   */
+  private async createLocalUser(input: CreateUserInput, phone: PhoneNumber, userId: UserId): Promise<UserProfile> {
+    const existing = await this.userStorage.getUserByPhone(input.tenantId, phone);
+    const identity = await this.identityStorage.getIdentity(userId);
+    // The identity's profile here may still have an earlier number
+    if (existing || identity?.memberships.some(m => m.tenantId === input.tenantId)) {
+      throw new UserExistsError('User with this phone number already exists');
     }
 
-    const userId = this.generateId();
-    const profile: UserProfile = {
+    const created = await this.userStorage.createUser({
       userId,
-      tenantId: validated.tenantId,
-      phone: normalizedPhone,
-      email: validated.email,
-      displayName: validated.displayName,
-      metadata: validated.metadata,
+      tenantId: input.tenantId,
+      phone,
+      email: input.email,
+      emailVerified: false,
+      phoneVerified: false,
+      displayName: input.displayName,
+      metadata: input.metadata,
       createdAt: new Date(),
       updatedAt: new Date(),
-    };
+    });
+    await this.addIdentityMembership(created);
+
+    return created;
+  }
+
+  /**
+   * Assign the initial roles of a created user, then audit and emit the creation
+   */
+  private async finishCreateUser(
+    created: UserProfile,
+    roles: RoleId[] | undefined,
+    context?: AuditContext
+  ): Promise<UserProfile> {
+    for (const roleId of roles || []) {
+      await this.roleStorage.assignRole(created.tenantId, created.userId, roleId);
+    }
+
+    await this.audit({ action: 'user.created', tenantId: created.tenantId, targetId: created.userId }, context);
+    await this.emit('user.created', { tenantId: created.tenantId, userId: created.userId, profile: created });
+
+    return created;
+  }
 
-    return this.userStorage.createUser(profile);
+  /**
+   * Create a user in the provider directory as a member of the tenant
+   * 
+   * Directory identifiers are global, so a phone number or email held by any
+   * directory user is rejected; add existing users to a tenant with addMembership.
+   */
+  private async createDirectoryUser(
+    directory: UserDirectory,
+    tenantId: TenantId,
+    input: DirectoryUserInput
+  ): Promise<UserProfile> {
+    if (await directory.getUserByPhone(input.phone)) {
+      throw new UserExistsError('User with this phone number already exists');
+    }
+    if (input.email && await directory.getUserByEmail(input.email)) {
+      throw new UserExistsError('Email address already registered');
+    }
+
+    const profile = directory.toUserProfile(await directory.createUser(tenantId, input), tenantId);
+    this.membershipCache.invalidate(tenantId, profile.userId);
+
+    return profile;
   }
 
   /**
    * Get user by ID
    * 
-   * In Clerk mode, verifies the user is a member of the specified tenant
-   * to enforce strict tenant isolation.
+   * With a provider directory, verifies the user is a member of the specified
+   * tenant to enforce strict tenant isolation.
    */
   async getUser(tenantId: TenantId, userId: UserId): Promise<UserProfile | null> {
     validate(TenantIdSchema, tenantId);
     validate(UserIdSchema, userId);
 
-    if (this.clerkAdapter) {
+    if (this.directory) {
       const isMember = await this.isUserInTenant(tenantId, userId);
       if (!isMember) return null;
-      
-      const clerkUser = await this.clerkAdapter.getUser(userId);
-      if (!clerkUser) return null;
-      return clerkUserToProfile(clerkUser, tenantId);
+
+      const user = await this.directory.getUser(userId);
+      if (!user) return null;
+      return this.directory.toUserProfile(user, tenantId);
     }
 
     return this.userStorage.getUser(tenantId, userId);
@@ -122,21 +451,16 @@ export class IdentityService {
   /**
    * Get user by phone number
    * 
-   * In Clerk mode, verifies the user is a member of the specified tenant
-   * to enforce strict tenant isolation.
+   * With a provider directory, verifies the user is a member of the specified
+   * tenant to enforce strict tenant isolation.
    */
   async getUserByPhone(tenantId: TenantId, phone: string): Promise<UserProfile | null> {
     validate(TenantIdSchema, tenantId);
-    const normalizedPhone = normalizeNigerianPhone(phone);
+    const normalizedPhone = this.normalizePhone(tenantId, phone);
 
-    if (this.clerkAdapter) {
-      const clerkUser = await this.clerkAdapter.getUserByPhone(normalizedPhone);
-      if (!clerkUser) return null;
-      
-      const isMember = await this.isUserInTenant(tenantId, clerkUser.id);
-      if (!isMember) return null;
-      
-      return clerkUserToProfile(clerkUser, tenantId);
+    if (this.directory) {
+      const user = await this.directory.getUserByPhone(normalizedPhone);
+      return user ? this.directoryProfileInTenant(this.directory, user, tenantId) : null;
     }
 
     return this.userStorage.getUserByPhone(tenantId, normalizedPhone);
@@ -145,224 +469,1476 @@ export class IdentityService {
   /**
    * Get user by email
    * 
-   * In Clerk mode, verifies the user is a member of the specified tenant
-   * to enforce strict tenant isolation.
+   * With a provider directory, verifies the user is a member of the specified
+   * tenant to enforce strict tenant isolation.
    */
   async getUserByEmail(tenantId: TenantId, email: string): Promise<UserProfile | null> {
     validate(TenantIdSchema, tenantId);
     validate(EmailSchema, email);
 
-    if (this.clerkAdapter) {
-      const clerkUser = await this.clerkAdapter.getUserByEmail(email);
-      if (!clerkUser) return null;
-      
-      const isMember = await this.isUserInTenant(tenantId, clerkUser.id);
-      if (!isMember) return null;
-      
-      return clerkUserToProfile(clerkUser, tenantId);
+    if (this.directory) {
+      const user = await this.directory.getUserByEmail(email);
+      return user ? this.directoryProfileInTenant(this.directory, user, tenantId) : null;
     }
 
     return this.userStorage.getUserByEmail(tenantId, email);
   }
 
+  private async directoryProfileInTenant(
+    directory: UserDirectory,
+    user: unknown,
+    tenantId: TenantId
+  ): Promise<UserProfile | null> {
+    const profile = directory.toUserProfile(user, tenantId);
+    return (await this.isUserInTenant(tenantId, profile.userId)) ? profile : null;
+  }
+
   /**
-   * Check if a user is a member of a tenant (Clerk organization)
+   * Check if a user is a member of a tenant in the provider directory
+   * 
+   * Results are cached for membershipCacheTtlMs; call invalidateMembership
+   * when memberships change to avoid serving stale results.
    */
   private async isUserInTenant(tenantId: TenantId, userId: UserId): Promise<boolean> {
-    if (!this.clerkAdapter) return false;
-    
-    const members = await this.clerkAdapter.listOrganizationMembers(tenantId);
-    return members.some(member => member.id === userId);
+    if (!this.directory) return false;
+
+    const cached = this.membershipCache.get(tenantId, userId);
+    if (cached !== undefined) return cached;
+
+    const isMember = await this.directory.isTenantMember(tenantId, userId);
+    this.membershipCache.set(tenantId, userId, isMember);
+    return isMember;
+  }
+
+  /**
+   * Invalidate cached membership checks for a user in a tenant, or for the whole tenant
+   */
+  invalidateMembership(tenantId: TenantId, userId?: UserId): void {
+    validate(TenantIdSchema, tenantId);
+    this.membershipCache.invalidate(tenantId, userId);
   }
 
   /**
-   * List users in a tenant
+   * List users in a tenant, one page at a time
+   * 
+   * Pass the returned `nextCursor` back as `cursor` to fetch the next page.
+   * @throws InvalidCursorError if the cursor is malformed
    */
-  async listUsers(tenantId: TenantId, options?: { limit?: number; offset?: number }): Promise<UserProfile[]> {
+  async listUsers(tenantId: TenantId, options: ListUsersOptions = {}): Promise<Page<UserProfile>> {
     validate(TenantIdSchema, tenantId);
-    const limit = options?.limit || 100;
-    const offset = options?.offset || 0;
+    const validated = validate(ListUsersOptionsSchema, options);
+    const query: ListUsersOptions = { ...validated, limit: validated.limit ?? DEFAULT_PAGE_LIMIT };
 
-    if (this.clerkAdapter) {
-      const clerkUsers = await this.clerkAdapter.listOrganizationMembers(tenantId);
-      return clerkUsers
-        .slice(offset, offset + limit)
-        .map(u => clerkUserToProfile(u, tenantId));
+    if (this.directory) {
+      const directory = this.directory;
+      const page = await directory.listTenantMembers(tenantId, query);
+      return { ...page, items: page.items.map(user => directory.toUserProfile(user, tenantId)) };
     }
 
-    return this.userStorage.listUsers(tenantId, limit, offset);
+    return this.userStorage.listUsers(tenantId, query);
   }
 
   /**
    * Update user profile
+   * 
+   * Changing the email address clears `emailVerified`. With a provider
+   * directory the provider's user is updated (for Clerk, the display name
+   * maps to first and last name and metadata to public metadata).
+   * @throws UserNotFoundError if the user is not in the tenant
+   * @throws UserExistsError if the email belongs to another user
    */
-  async updateUser(tenantId: TenantId, userId: UserId, input: UpdateUserInput): Promise<UserProfile> {
+  async updateUser(
+    tenantId: TenantId,
+    userId: UserId,
+    input: UpdateUserInput,
+    context?: AuditContext
+  ): Promise<UserProfile> {
     validate(TenantIdSchema, tenantId);
     validate(UserIdSchema, userId);
     const validated = validate(UpdateUserInputSchema, input);
 
-    return this.userStorage.updateUser(tenantId, userId, {
-      ...validated,
-      updatedAt: new Date(),
-    });
+    const updated = this.directory
+      ? await this.updateDirectoryUser(this.directory, tenantId, userId, validated)
+      : await this.updateStoredUser(tenantId, userId, validated);
+
+    await this.audit({ action: 'user.updated', tenantId, targetId: userId }, context);
+    await this.emit('user.updated', { tenantId, userId, profile: updated });
+
+    return updated;
+  }
+
+  private async updateStoredUser(tenantId: TenantId, userId: UserId, input: UpdateUserInput): Promise<UserProfile> {
+    const updates: Partial<UserProfile> = { ...input, updatedAt: new Date() };
+
+    if (input.email !== undefined) {
+      const existing = await this.userStorage.getUser(tenantId, userId);
+      if (existing && existing.email?.toLowerCase() !== input.email.toLowerCase()) {
+        updates.emailVerified = false;
+      }
+    }
+
+    return this.userStorage.updateUser(tenantId, userId, updates);
+  }
+
+  private async updateDirectoryUser(
+    directory: UserDirectory,
+    tenantId: TenantId,
+    userId: UserId,
+    input: UpdateUserInput
+  ): Promise<UserProfile> {
+    if (!(await this.isUserInTenant(tenantId, userId))) {
+      throw new UserNotFoundError();
+    }
+    if (input.email !== undefined) {
+      const owner = await directory.getUserByEmail(input.email);
+      if (owner && directory.toUserProfile(owner, tenantId).userId !== userId) {
+        throw new UserExistsError('Email address already registered');
+      }
+    }
+
+    const user = await directory.updateUser(userId, input);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+    return directory.toUserProfile(user, tenantId);
   }
 
   /**
    * Delete user
+   * 
+   * With a provider directory this deletes the provider's user, which removes
+   * them from every tenant; use removeMembership to remove a user from one tenant.
+   * @throws UserNotFoundError with a provider directory if the user is not in the tenant
    */
-  async deleteUser(tenantId: TenantId, userId: UserId): Promise<void> {
+  async deleteUser(tenantId: TenantId, userId: UserId, context?: AuditContext): Promise<void> {
     validate(TenantIdSchema, tenantId);
     validate(UserIdSchema, userId);
 
-    await this.sessionStorage.deleteUserSessions(tenantId, userId);
-    await this.userStorage.deleteUser(tenantId, userId);
+    if (this.directory) {
+      if (!(await this.isUserInTenant(tenantId, userId))) {
+        throw new UserNotFoundError();
+      }
+      // The provider ends the user's sessions itself
+      await this.directory.deleteUser(userId);
+      this.membershipCache.invalidateUser(userId);
+    } else {
+      await this.revokeAllSessions(tenantId, userId, 'user_deleted');
+      await this.credentialStorage.deleteCredential(tenantId, userId);
+      await this.userStorage.deleteUser(tenantId, userId);
+      await this.removeIdentityMembership(tenantId, userId);
+    }
+    await this.roleStorage.deleteUserRoles(tenantId, userId);
+
+    await this.audit({ action: 'user.deleted', tenantId, targetId: userId }, context);
+    await this.emit('user.deleted', { tenantId, userId });
   }
 
   /**
-   * Authenticate a user
+   * List the tenants a user belongs to
    * 
-   * Note: In Clerk mode, authentication happens outside this module.
-   * This method is for standalone mode only.
+   * With a provider directory this reads the memberships mirrored into
+   * storage, e.g. by ClerkWebhookHandler.
    */
-  async authenticate(input: AuthenticateInput, roles: RoleId[] = []): Promise<AuthResult> {
-    const validated = validate(AuthenticateInputSchema, input);
-    const normalizedPhone = normalizeNigerianPhone(validated.phone);
+  async listTenantsForUser(userId: UserId): Promise<TenantId[]> {
+    validate(UserIdSchema, userId);
+    return this.userStorage.listTenantsForUser(userId);
+  }
 
-    const user = await this.userStorage.getUserByPhone(validated.tenantId, normalizedPhone);
-    if (!user) {
-      throw new Error('Invalid credentials');
+  /**
+   * Get a user's global identity
+   * 
+   * A person is identified by one user ID across tenants; each tenant
+   * profile is a membership carrying that tenant's roles. With a provider
+   * directory the memberships are those mirrored into storage.
+   * @returns null if the user belongs to no tenant
+   */
+  async getGlobalIdentity(userId: UserId): Promise<GlobalIdentity | null> {
+    validate(UserIdSchema, userId);
+
+    const memberships: TenantMembership[] = [];
+    if (this.directory) {
+      for (const tenantId of await this.userStorage.listTenantsForUser(userId)) {
+        const profile = await this.userStorage.getUser(tenantId, userId);
+        if (!profile) continue;
+        memberships.push({
+          tenantId,
+          roles: await this.roleStorage.listRoles(tenantId, userId),
+          joinedAt: profile.createdAt,
+        });
+      }
+    } else {
+      const identity = await this.identityStorage.getIdentity(userId);
+      for (const { tenantId, joinedAt } of identity?.memberships || []) {
+        memberships.push({ tenantId, roles: await this.roleStorage.listRoles(tenantId, userId), joinedAt });
+      }
     }
 
-    const sessionId = this.generateId();
-    const issuedAt = new Date();
-    const expiresAt = new Date(issuedAt.getTime() + this.sessionDurationMs);
+    return memberships.length > 0 ? { userId, memberships } : null;
+  }
 
-    const sessionContext: SessionContext = {
-      sessionId,
-      userId: user.userId,
-      tenantId: user.tenantId,
-      roles,
-      issuedAt,
-      expiresAt,
-    };
+  /**
+   * Record a new tenant profile on the person's identity, creating the identity if needed
+   */
+  private async addIdentityMembership(profile: UserProfile): Promise<void> {
+    const membership = { tenantId: profile.tenantId, joinedAt: profile.createdAt };
+    const identity = await this.identityStorage.getIdentity(profile.userId);
 
-    await this.sessionStorage.createSession(sessionContext);
+    const record: IdentityRecord = identity
+      ? { ...identity, memberships: [...identity.memberships, membership], updatedAt: new Date() }
+      : {
+        userId: profile.userId,
+        phone: profile.phone,
+        memberships: [membership],
+        createdAt: profile.createdAt,
+        updatedAt: profile.createdAt,
+      };
+    await this.identityStorage.saveIdentity(record);
+  }
 
-    return {
-      userId: user.userId,
-      tenantId: user.tenantId,
-      sessionId,
-      roles,
-      expiresAt,
-    };
+  /**
+   * Remove a tenant from the person's identity, deleting the identity with its last membership
+   */
+  private async removeIdentityMembership(tenantId: TenantId, userId: UserId): Promise<void> {
+    const identity = await this.identityStorage.getIdentity(userId);
+    if (!identity) return;
+
+    const memberships = identity.memberships.filter(m => m.tenantId !== tenantId);
+    if (memberships.length === 0) {
+      await this.identityStorage.deleteIdentity(userId);
+    } else {
+      await this.identityStorage.saveIdentity({ ...identity, memberships, updatedAt: new Date() });
+    }
   }
 
   /**
-   * Validate a session
+   * Add an existing user to another tenant
+   * 
+   * The new profile keeps the user's ID and copies contact details from an
+   * existing membership; tenant-specific metadata and credentials are not
+   * copied. Adding a membership the user already has returns it unchanged.
+   * With a provider directory the user is added to the tenant there.
+   * @throws UserNotFoundError if the user belongs to no tenant
+   * @throws UserExistsError if the phone or email belongs to another user in the tenant
    */
-  async validateSession(sessionId: SessionId): Promise<SessionValidation> {
-    validate(SessionIdSchema, sessionId);
+  async addMembership(
+    tenantId: TenantId,
+    userId: UserId,
+    roles: RoleId[] = [],
+    context?: AuditContext
+  ): Promise<UserProfile> {
+    validate(TenantIdSchema, tenantId);
+    validate(UserIdSchema, userId);
+    roles.forEach(roleId => validate(RoleIdSchema, roleId));
 
-    if (this.clerkAdapter) {
-      const claims = await this.clerkAdapter.verifySession(sessionId);
-      if (!claims) {
-        return { valid: false, reason: 'Invalid or expired session' };
+    let profile: UserProfile;
+    if (this.directory) {
+      const user = await this.directory.getUser(userId);
+      if (!user) {
+        throw new UserNotFoundError();
       }
 
-      const tenantContext = extractTenantContext(claims);
-      return {
-        valid: true,
-        context: {
-          sessionId: tenantContext.sessionId,
-          userId: tenantContext.userId,
-          tenantId: tenantContext.tenantId,
-          roles: tenantContext.roles,
-          issuedAt: tenantContext.issuedAt,
-          expiresAt: tenantContext.expiresAt,
-        },
-      };
-    }
+      profile = this.directory.toUserProfile(user, tenantId);
+      if (await this.isUserInTenant(tenantId, userId)) {
+        return profile;
+      }
 
-    const context = await this.sessionStorage.getSession(sessionId);
-    if (!context) {
-      return { valid: false, reason: 'Session not found' };
+      await this.directory.addTenantMember(tenantId, userId);
+      this.membershipCache.invalidate(tenantId, userId);
+    } else {
+      const existing = await this.userStorage.getUser(tenantId, userId);
+      if (existing) {
+        return existing;
+      }
+
+      const [sourceMembership] = (await this.identityStorage.getIdentity(userId))?.memberships || [];
+      const source = sourceMembership ? await this.userStorage.getUser(sourceMembership.tenantId, userId) : null;
+      if (!source) {
+        throw new UserNotFoundError();
+      }
+
+      const now = new Date();
+      profile = await this.userStorage.createUser({
+        userId,
+        tenantId,
+        phone: source.phone,
+        email: source.email,
+        emailVerified: source.emailVerified,
+        phoneVerified: source.phoneVerified,
+        displayName: source.displayName,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await this.addIdentityMembership(profile);
     }
 
-    if (context.expiresAt < new Date()) {
-      await this.sessionStorage.deleteSession(sessionId);
-      return { valid: false, reason: 'Session expired' };
+    for (const roleId of roles) {
+      await this.roleStorage.assignRole(tenantId, userId, roleId);
     }
 
-    return { valid: true, context };
+    await this.audit({ action: 'membership.added', tenantId, targetId: userId }, context);
+    await this.emit('membership.added', { tenantId, userId, profile, roles });
+
+    return profile;
   }
 
   /**
-   * Resolve identity from session token
+   * Remove a user from one tenant
    * 
-   * HARD STOP REQUIREMENT: A Suite can provide a session token and reliably receive
-   * (tenantId, userId, roles, identity metadata)
+   * Revokes the user's sessions in that tenant and deletes the tenant
+   * profile, roles and credential. Other memberships are unaffected. With a
+   * provider directory the user is removed from the tenant there.
    */
-  async resolveIdentity(sessionToken: SessionId): Promise<IdentityResolution> {
-    const validation = await this.validateSession(sessionToken);
-    if (!validation.valid || !validation.context) {
-      throw new Error(`Invalid session: ${validation.reason}`);
+  async removeMembership(tenantId: TenantId, userId: UserId, context?: AuditContext): Promise<void> {
+    validate(TenantIdSchema, tenantId);
+    validate(UserIdSchema, userId);
+
+    if (this.directory) {
+      if (!(await this.isUserInTenant(tenantId, userId))) {
+        throw new UserNotFoundError();
+      }
+      await this.directory.removeTenantMember(tenantId, userId);
+      this.membershipCache.invalidate(tenantId, userId);
+    } else {
+      if (!(await this.userStorage.getUser(tenantId, userId))) {
+        throw new UserNotFoundError();
+      }
+      await this.revokeAllSessions(tenantId, userId, 'membership_removed');
+      await this.credentialStorage.deleteCredential(tenantId, userId);
+      await this.userStorage.deleteUser(tenantId, userId);
+      await this.removeIdentityMembership(tenantId, userId);
     }
+    await this.roleStorage.deleteUserRoles(tenantId, userId);
 
-    const profile = await this.getUser(
-      validation.context.tenantId,
-      validation.context.userId
-    );
+    await this.audit({ action: 'membership.removed', tenantId, targetId: userId }, context);
+    await this.emit('membership.removed', { tenantId, userId });
+  }
 
-    if (!profile) {
-      throw new Error('User not found');
+  /**
+   * Assign a role to a user in a tenant
+   * 
+   * Takes effect for sessions issued after the assignment.
+   */
+  async assignRole(tenantId: TenantId, userId: UserId, roleId: RoleId): Promise<void> {
+    validate(TenantIdSchema, tenantId);
+    validate(UserIdSchema, userId);
+    validate(RoleIdSchema, roleId);
+
+    const user = await this.getUser(tenantId, userId);
+    if (!user) {
+      throw new UserNotFoundError();
     }
 
-    return {
-      userId: profile.userId,
-      tenantId: profile.tenantId,
-      roles: validation.context.roles,
-      profile,
-    };
+    await this.roleStorage.assignRole(tenantId, userId, roleId);
   }
 
   /**
-   * Assert tenant context from session token
+   * Revoke a role from a user in a tenant
    * 
-   * Validates session and returns tenant context, throwing if invalid.
-   * Use this to enforce tenant isolation in downstream services.
+   * Takes effect for sessions issued after the revocation.
    */
-  async assertTenantContext(sessionToken: SessionId): Promise<TenantContext> {
-    const validation = await this.validateSession(sessionToken);
-    if (!validation.valid || !validation.context) {
-      throw new Error(`Unauthorized: ${validation.reason || 'Invalid session'}`);
-    }
+  async revokeRole(tenantId: TenantId, userId: UserId, roleId: RoleId): Promise<void> {
+    validate(TenantIdSchema, tenantId);
+    validate(UserIdSchema, userId);
+    validate(RoleIdSchema, roleId);
 
-    return {
-      tenantId: validation.context.tenantId,
-      userId: validation.context.userId,
-      roles: validation.context.roles,
-      sessionId: validation.context.sessionId,
-    };
+    await this.roleStorage.revokeRole(tenantId, userId, roleId);
   }
 
   /**
-   * Logout (delete session)
+   * List the roles assigned to a user in a tenant
    */
-  async logout(sessionId: SessionId): Promise<void> {
-    validate(SessionIdSchema, sessionId);
-    await this.sessionStorage.deleteSession(sessionId);
+  async listRoles(tenantId: TenantId, userId: UserId): Promise<RoleId[]> {
+    validate(TenantIdSchema, tenantId);
+    validate(UserIdSchema, userId);
+
+    return this.roleStorage.listRoles(tenantId, userId);
   }
 
   /**
-   * Logout all sessions for a user
+   * Define (or redefine) a role and the permissions it grants in a tenant
+   */
+  async defineRole(tenantId: TenantId, roleId: RoleId, permissions: Permission[]): Promise<RoleDefinition> {
+    validate(TenantIdSchema, tenantId);
+    validate(RoleIdSchema, roleId);
+    permissions.forEach(p => validate(PermissionSchema, p));
+
+    const existing = await this.roleStorage.getRoleDefinition(tenantId, roleId);
+    const now = new Date();
+
+    return this.roleStorage.saveRoleDefinition({
+      tenantId,
+      roleId,
+      permissions: Array.from(new Set(permissions)),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * List role definitions in a tenant
+   */
+  async listRoleDefinitions(tenantId: TenantId): Promise<RoleDefinition[]> {
+    validate(TenantIdSchema, tenantId);
+    return this.roleStorage.listRoleDefinitions(tenantId);
+  }
+
+  /**
+   * Delete a role definition (assignments of the role then grant nothing)
+   */
+  async deleteRoleDefinition(tenantId: TenantId, roleId: RoleId): Promise<void> {
+    validate(TenantIdSchema, tenantId);
+    validate(RoleIdSchema, roleId);
+    await this.roleStorage.deleteRoleDefinition(tenantId, roleId);
+  }
+
+  /**
+   * Set the credential for a user (standalone mode)
    */
-  async logoutAll(tenantId: TenantId, userId: UserId): Promise<void> {
+  async setCredential(tenantId: TenantId, userId: UserId, credential: string): Promise<void> {
     validate(TenantIdSchema, tenantId);
     validate(UserIdSchema, userId);
-    await this.sessionStorage.deleteUserSessions(tenantId, userId);
+    validate(CredentialSchema, credential);
+
+    const user = await this.userStorage.getUser(tenantId, userId);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+
+    await this.storeCredential(tenantId, userId, credential);
   }
 
-  private generateId(): string {
-    return randomBytes(16).toString('hex');
+  /**
+   * Change a user's credential, verifying the current one first
+   */
+  async changeCredential(
+    tenantId: TenantId,
+    userId: UserId,
+    currentCredential: string,
+    newCredential: string
+  ): Promise<void> {
+    validate(TenantIdSchema, tenantId);
+    validate(UserIdSchema, userId);
+    validate(CredentialSchema, newCredential);
+
+    const existing = await this.credentialStorage.getCredential(tenantId, userId);
+    if (!existing || !(await verifyCredential(currentCredential, existing.hash))) {
+      throw new InvalidCredentialsError();
+    }
+
+    await this.storeCredential(tenantId, userId, newCredential);
+  }
+
+  /**
+   * Reset a user's credential without the current one (administrative action)
+   *
+   * All of the user's sessions are revoked.
+   */
+  async resetCredential(tenantId: TenantId, userId: UserId, newCredential: string): Promise<void> {
+    await this.setCredential(tenantId, userId, newCredential);
+    await this.revokeAllSessions(tenantId, userId, 'credential_reset');
+  }
+
+  private async storeCredential(tenantId: TenantId, userId: UserId, credential: string): Promise<void> {
+    const existing = await this.credentialStorage.getCredential(tenantId, userId);
+    const now = new Date();
+
+    await this.credentialStorage.setCredential({
+      tenantId,
+      userId,
+      hash: await hashCredential(credential),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Authenticate a user
+   * 
+   * Verifies the credential against the stored hash before issuing a session.
+   * Session roles come from the user's stored role assignments unless
+   * explicitly overridden.
+   * 
+   * Repeated failures lock the account (and, when `context.ipAddress` is
+   * given, the client IP) with exponential backoff.
+   * 
+   * Note: In provider mode, authentication happens at the provider.
+   * This method is for standalone mode only.
+   * @throws AccountLockedError while the account or IP is locked
+   */
+  async authenticate(input: AuthenticateInput, roles?: RoleId[], context?: AuditContext): Promise<AuthResult> {
+    const validated = validate(AuthenticateInputSchema, input);
+    const normalizedPhone = this.normalizePhone(validated.tenantId, validated.phone);
+    const lockoutKeys = this.getLockoutKeys(validated.tenantId, normalizedPhone, context);
+
+    const lockedUntil = await this.getLockedUntil(lockoutKeys);
+    if (lockedUntil) {
+      await this.audit({ action: 'auth.failed', tenantId: validated.tenantId, reason: 'Account locked' }, context);
+      throw new AccountLockedError(lockedUntil);
+    }
+
+    const user = await this.userStorage.getUserByPhone(validated.tenantId, normalizedPhone);
+    if (!user) {
+      // Spend the same hashing effort so response timing does not reveal unknown numbers
+      await hashCredential(validated.credential);
+      await this.recordAuthFailure(lockoutKeys);
+      await this.audit({ action: 'auth.failed', tenantId: validated.tenantId, reason: 'Unknown phone number' }, context);
+      throw new InvalidCredentialsError();
+    }
+
+    await this.verifyUserCredential(user, validated.credential, lockoutKeys, context);
+    const result = await this.issueSession(user, roles);
+
+    await this.audit({
+      action: 'auth.succeeded',
+      tenantId: user.tenantId,
+      actorId: user.userId,
+      targetId: user.userId,
+    }, context);
+
+    return result;
+  }
+
+  /**
+   * Check a user's credential in their tenant, counting failures against the lockout keys
+   * @throws InvalidCredentialsError if the user has no credential or it does not match
+   */
+  private async verifyUserCredential(
+    user: UserProfile,
+    credential: string,
+    lockoutKeys: Array<{ key: string; threshold: number }>,
+    context?: AuditContext
+  ): Promise<void> {
+    const stored = await this.credentialStorage.getCredential(user.tenantId, user.userId);
+    if (!stored) {
+      // Likewise for accounts without a credential (OTP-only or added through addMembership)
+      await hashCredential(credential);
+    }
+    if (!stored || !(await verifyCredential(credential, stored.hash))) {
+      await this.recordAuthFailure(lockoutKeys);
+      await this.audit({
+        action: 'auth.failed',
+        tenantId: user.tenantId,
+        targetId: user.userId,
+        reason: stored ? 'Invalid credential' : 'No credential set',
+      }, context);
+      throw new InvalidCredentialsError();
+    }
+
+    // Only the account is reset: a valid login must not clear failures other accounts caused from the same IP
+    await this.rateLimitStore.reset(lockoutKeys[0].key);
+  }
+
+  private getLockoutKeys(
+    tenantId: TenantId,
+    phone: string,
+    context?: AuditContext
+  ): Array<{ key: string; threshold: number }> {
+    const keys = [{ key: accountLockoutKey(tenantId, phone), threshold: this.lockoutConfig.maxAttempts }];
+    if (context?.ipAddress) {
+      keys.push({ key: ipLockoutKey(context.ipAddress), threshold: this.lockoutConfig.ipMaxAttempts });
+    }
+    return keys;
+  }
+
+  /**
+   * Get the latest lock expiry among the keys, if any is currently locked
+   */
+  private async getLockedUntil(keys: Array<{ key: string }>): Promise<Date | null> {
+    const now = new Date();
+    let lockedUntil: Date | null = null;
+
+    for (const { key } of keys) {
+      const record = await this.rateLimitStore.get(key);
+      if (record?.lockedUntil && record.lockedUntil > now && (!lockedUntil || record.lockedUntil > lockedUntil)) {
+        lockedUntil = record.lockedUntil;
+      }
+    }
+
+    return lockedUntil;
+  }
+
+  private async recordAuthFailure(keys: Array<{ key: string; threshold: number }>): Promise<void> {
+    const now = new Date();
+
+    for (const { key, threshold } of keys) {
+      const record = await this.rateLimitStore.recordFailure(key, now, this.lockoutConfig.attemptWindowMs);
+      const lockMs = lockoutDurationMs(record.failures, threshold, this.lockoutConfig);
+      if (lockMs > 0) {
+        await this.rateLimitStore.lock(key, new Date(now.getTime() + lockMs));
+      }
+    }
+  }
+
+  /**
+   * Request a one-time passcode for phone login
+   * 
+   * The code is sent through the configured SmsSender. Unknown numbers get the
+   * same response without an SMS being sent, so the result does not reveal
+   * whether the number is registered.
+   */
+  async requestOtp(tenantId: TenantId, phone: string): Promise<OtpRequestResult> {
+    validate(TenantIdSchema, tenantId);
+    const normalizedPhone = this.normalizePhone(tenantId, phone);
+
+    if (!this.smsSender) {
+      throw new NotConfiguredError('SMS sender not configured');
+    }
+
+    const now = new Date();
+    await this.assertOtpCooldown(tenantId, normalizedPhone, now);
+
+    const user = await this.userStorage.getUserByPhone(tenantId, normalizedPhone);
+    if (!user) {
+      // A challenge whose code is never sent, so the resend cooldown applies to unknown numbers too
+      return (await this.saveOtpChallenge(tenantId, normalizedPhone, now)).result;
+    }
+
+    return this.sendOtpChallenge(tenantId, normalizedPhone, now);
+  }
+
+  /**
+   * Verify a one-time passcode and issue a session
+   * 
+   * Produces the same AuthResult as authenticate. A challenge is consumed on
+   * success; once it expires or runs out of attempts it is kept until the
+   * resend cooldown ends, so exhausting the attempts does not unlock a new code.
+   */
+  async verifyOtp(tenantId: TenantId, phone: string, code: string, roles?: RoleId[]): Promise<AuthResult> {
+    validate(TenantIdSchema, tenantId);
+    const normalizedPhone = this.normalizePhone(tenantId, phone);
+    validate(OtpCodeSchema, code);
+
+    await this.consumeOtpChallenge(tenantId, normalizedPhone, code);
+
+    let user = await this.userStorage.getUserByPhone(tenantId, normalizedPhone);
+    if (!user) {
+      throw new InvalidOtpError();
+    }
+
+    if (!user.phoneVerified) {
+      user = await this.userStorage.updateUser(tenantId, user.userId, { phoneVerified: true });
+    }
+
+    return this.issueSession(user, roles);
+  }
+
+  /**
+   * Start moving a user to a new phone number (standalone mode)
+   * 
+   * Sends a one-time passcode to the new number; pass it to changePhone to
+   * complete the change. Callers must pass the authenticated user's ID,
+   * e.g. from assertTenantContext.
+   * @throws UserExistsError if the number is already registered in the tenant
+   */
+  async requestPhoneChange(tenantId: TenantId, userId: UserId, newPhone: string): Promise<OtpRequestResult> {
+    validate(TenantIdSchema, tenantId);
+    validate(UserIdSchema, userId);
+    const normalizedPhone = this.normalizePhone(tenantId, newPhone);
+
+    if (!this.smsSender) {
+      throw new NotConfiguredError('SMS sender not configured');
+    }
+
+    const user = await this.userStorage.getUser(tenantId, userId);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+
+    if (await this.userStorage.getUserByPhone(tenantId, normalizedPhone)) {
+      throw new UserExistsError('Phone number already registered');
+    }
+
+    const now = new Date();
+    await this.assertOtpCooldown(tenantId, normalizedPhone, now);
+
+    return this.sendOtpChallenge(tenantId, normalizedPhone, now, userId);
+  }
+
+  /**
+   * Complete a phone number change with the code sent by requestPhoneChange
+   * 
+   * The user's other sessions and their refresh tokens are revoked, since they
+   * may belong to whoever now holds the old SIM; the session making the change
+   * stays signed in.
+   * @param sessionId The caller's current session, e.g. from assertTenantContext
+   * @throws InvalidOtpError if the code is wrong, expired, or was issued to another user
+   * @throws UserExistsError if the number was registered in the meantime
+   */
+  async changePhone(
+    tenantId: TenantId,
+    userId: UserId,
+    newPhone: string,
+    code: string,
+    sessionId: SessionId,
+    context?: AuditContext
+  ): Promise<UserProfile> {
+    validate(TenantIdSchema, tenantId);
+    validate(UserIdSchema, userId);
+    const normalizedPhone = this.normalizePhone(tenantId, newPhone);
+    validate(OtpCodeSchema, code);
+    validate(SessionIdSchema, sessionId);
+
+    await this.consumeOtpChallenge(tenantId, normalizedPhone, code, userId);
+
+    const previous = await this.userStorage.getUser(tenantId, userId);
+    if (!previous) {
+      throw new UserNotFoundError();
+    }
+
+    await this.userStorage.changePhone(tenantId, userId, normalizedPhone);
+    const updated = await this.userStorage.updateUser(tenantId, userId, { phoneVerified: true });
+    await this.changeIdentityPhone(userId, normalizedPhone);
+
+    // A login code sent to the old number must not outlive the change
+    await this.otpStorage.deleteChallenge(tenantId, previous.phone);
+    await this.revokeAllSessions(tenantId, userId, 'phone_changed', sessionId);
+
+    await this.audit({ action: 'user.phone_changed', tenantId, targetId: userId }, context);
+    await this.emit('user.updated', { tenantId, userId, profile: updated });
+
+    return updated;
+  }
+
+  /**
+   * Move the person's identity to their new number, so the old one no longer links new profiles
+   */
+  private async changeIdentityPhone(userId: UserId, phone: PhoneNumber): Promise<void> {
+    const identity = await this.identityStorage.getIdentity(userId);
+    if (!identity) return;
+
+    try {
+      await this.identityStorage.saveIdentity({ ...identity, phone, updatedAt: new Date() });
+    } catch (error) {
+      // Another person's identity holds the number; the profile change still stands
+      if (!(error instanceof UserExistsError)) throw error;
+    }
+  }
+
+  /**
+   * Email a verification token for the user's current address
+   * 
+   * Pass the token from the email to confirmEmail. Tokens are stateless and
+   * expire after `emailVerification.ttlMs`.
+   */
+  async sendEmailVerification(tenantId: TenantId, userId: UserId): Promise<{ expiresAt: Date }> {
+    validate(TenantIdSchema, tenantId);
+    validate(UserIdSchema, userId);
+
+    if (!this.emailSender || !this.emailVerificationConfig) {
+      throw new NotConfiguredError('Email verification not configured');
+    }
+
+    const user = await this.userStorage.getUser(tenantId, userId);
+    if (!user) {
+      throw new UserNotFoundError();
+    }
+    if (!user.email) {
+      throw new ValidationError([{ path: ['email'], message: 'User has no email address' }]);
+    }
+
+    const config = this.emailVerificationConfig;
+    const expiresAt = new Date(Date.now() + config.ttlMs);
+    const token = signEmailVerificationToken({ tenantId, userId, email: user.email }, config.secret, expiresAt);
+
+    await this.emailSender.sendEmail(user.email, config.subject, config.messageTemplate(token));
+
+    return { expiresAt };
+  }
+
+  /**
+   * Mark a user's email as verified with a token from sendEmailVerification
+   * @throws InvalidVerificationTokenError if the token is invalid, expired, or
+   *   was issued for an address the user no longer has
+   */
+  async confirmEmail(token: string, context?: AuditContext): Promise<UserProfile> {
+    if (!this.emailVerificationConfig) {
+      throw new NotConfiguredError('Email verification not configured');
+    }
+
+    const claims = verifyEmailVerificationToken(token, this.emailVerificationConfig.secret);
+    if (!claims) {
+      throw new InvalidVerificationTokenError();
+    }
+
+    const { tenantId, userId } = claims;
+    const user = await this.userStorage.getUser(tenantId, userId);
+    if (!user || user.email?.toLowerCase() !== claims.email.toLowerCase()) {
+      throw new InvalidVerificationTokenError();
+    }
+
+    if (user.emailVerified) {
+      return user;
+    }
+
+    const updated = await this.userStorage.updateUser(tenantId, userId, { emailVerified: true });
+
+    await this.audit({ action: 'user.email_verified', tenantId, targetId: userId }, context);
+    await this.emit('user.updated', { tenantId, userId, profile: updated });
+
+    return updated;
+  }
+
+  private otpRequestResult(now: Date): OtpRequestResult {
+    return {
+      expiresAt: new Date(now.getTime() + this.otpConfig.ttlMs),
+      resendAvailableAt: new Date(now.getTime() + this.otpConfig.resendCooldownMs),
+    };
+  }
+
+  private async assertOtpCooldown(tenantId: TenantId, phone: PhoneNumber, now: Date): Promise<void> {
+    const existing = await this.otpStorage.getChallenge(tenantId, phone);
+    if (existing) {
+      const resendAvailableAt = this.otpResendAvailableAt(existing);
+      if (resendAvailableAt > now) {
+        throw new OtpCooldownError(resendAvailableAt);
+      }
+    }
+  }
+
+  private otpResendAvailableAt(challenge: OtpChallenge): Date {
+    return new Date(challenge.createdAt.getTime() + this.otpConfig.resendCooldownMs);
+  }
+
+  private async sendOtpChallenge(
+    tenantId: TenantId,
+    phone: PhoneNumber,
+    now: Date,
+    userId?: UserId
+  ): Promise<OtpRequestResult> {
+    const { result, code } = await this.saveOtpChallenge(tenantId, phone, now, userId);
+    await this.smsSender!.sendSms(phone, this.otpConfig.messageTemplate(code));
+    return result;
+  }
+
+  private async saveOtpChallenge(
+    tenantId: TenantId,
+    phone: PhoneNumber,
+    now: Date,
+    userId?: UserId
+  ): Promise<{ result: OtpRequestResult; code: string }> {
+    const result = this.otpRequestResult(now);
+    const code = generateOtpCode(this.otpConfig.codeLength);
+    const salt = generateOtpSalt();
+
+    await this.otpStorage.saveChallenge({
+      tenantId,
+      phone,
+      userId,
+      codeHash: hashOtpCode(code, salt),
+      salt,
+      attempts: 0,
+      createdAt: now,
+      expiresAt: result.expiresAt,
+    });
+
+    return { result, code };
+  }
+
+  /**
+   * Check a code against the pending challenge and consume it
+   * @param userId Required owner for phone-change challenges; login challenges have none
+   */
+  private async consumeOtpChallenge(tenantId: TenantId, phone: PhoneNumber, code: string, userId?: UserId): Promise<void> {
+    const challenge = await this.otpStorage.getChallenge(tenantId, phone);
+    if (!challenge || (challenge.userId || undefined) !== userId) {
+      throw new InvalidOtpError();
+    }
+
+    const now = new Date();
+    if (challenge.expiresAt < now || challenge.attempts >= this.otpConfig.maxAttempts) {
+      // Spent challenges stay until the resend cooldown ends, so they keep blocking new codes
+      if (this.otpResendAvailableAt(challenge) <= now) {
+        await this.otpStorage.deleteChallenge(tenantId, phone);
+      }
+      throw new InvalidOtpError();
+    }
+
+    if (!verifyOtpCode(code, challenge.salt, challenge.codeHash)) {
+      await this.otpStorage.saveChallenge({ ...challenge, attempts: challenge.attempts + 1 });
+      throw new InvalidOtpError();
+    }
+
+    await this.otpStorage.deleteChallenge(tenantId, phone);
+  }
+
+  /**
+   * Exchange a refresh token for a new session
+   * 
+   * Refresh tokens rotate on every use: the presented token is consumed and a
+   * new one from the same family is returned. Presenting a token that was
+   * already used indicates it was stolen, so the whole family is revoked
+   * along with the sessions issued from it.
+   */
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
+    validate(SessionTokenSchema, refreshToken);
+
+    const tokenHash = this.hashToken(refreshToken);
+    const record = await this.sessionStorage.getRefreshToken(tokenHash);
+    if (!record || record.revokedAt || record.expiresAt < new Date()) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    if (record.usedAt || !(await this.sessionStorage.markRefreshTokenUsed(tokenHash, new Date()))) {
+      await this.revokeRefreshTokenFamily(record.familyId, 'refresh_token_reuse');
+      throw new InvalidRefreshTokenError('Refresh token reuse detected');
+    }
+
+    const user = await this.userStorage.getUser(record.tenantId, record.userId);
+    if (!user) {
+      await this.revokeRefreshTokenFamily(record.familyId, 'refresh_token_revoked');
+      throw new InvalidRefreshTokenError();
+    }
+
+    return this.issueSession(user, undefined, record.familyId);
+  }
+
+  /**
+   * Revoke a refresh token and the rest of its family (e.g. on logout)
+   */
+  async revokeRefreshToken(refreshToken: string): Promise<void> {
+    validate(SessionTokenSchema, refreshToken);
+
+    const record = await this.sessionStorage.getRefreshToken(this.hashToken(refreshToken));
+    if (record) {
+      await this.revokeRefreshTokenFamily(record.familyId, 'refresh_token_revoked');
+    }
+  }
+
+  private async revokeRefreshTokenFamily(familyId: string, reason: SessionRevocationReason): Promise<void> {
+    const family = await this.sessionStorage.revokeRefreshTokenFamily(familyId, new Date());
+
+    for (const record of family) {
+      await this.sessionStorage.deleteSession(record.sessionId);
+
+      if (this.sessionTokenSigner) {
+        const accessExpiresAt = new Date(record.issuedAt.getTime() + this.sessionDurationMs);
+        await this.sessionStorage.revokeSession(record.sessionId, accessExpiresAt);
+      }
+    }
+
+    if (family.length > 0) {
+      const { tenantId, userId } = family[0];
+      await this.emit('session.revoked', { tenantId, userId, scope: 'session', reason });
+    }
+  }
+
+  /**
+   * Issue time of a new session: tokens issued at or before a user-wide
+   * revocation are rejected, so a login in the same millisecond as the
+   * revocation is issued just after it
+   */
+  private async sessionIssueTime(user: UserProfile): Promise<Date> {
+    const now = new Date();
+    if (!this.sessionTokenSigner) return now;
+
+    const revokedAt = await this.sessionStorage.getUserSessionsRevokedAt(user.tenantId, user.userId);
+    return revokedAt && revokedAt >= now ? new Date(revokedAt.getTime() + 1) : now;
+  }
+
+  private async issueSession(
+    user: UserProfile,
+    rolesOverride?: RoleId[],
+    refreshFamilyId?: string
+  ): Promise<AuthResult> {
+    const roles = rolesOverride || await this.roleStorage.listRoles(user.tenantId, user.userId);
+    const sessionId = this.generateId();
+    const issuedAt = await this.sessionIssueTime(user);
+    const expiresAt = this.capSessionExpiry(issuedAt, issuedAt.getTime() + this.sessionDurationMs);
+
+    const sessionContext: SessionContext = {
+      sessionId,
+      userId: user.userId,
+      tenantId: user.tenantId,
+      roles,
+      issuedAt,
+      expiresAt,
+      lastSeenAt: issuedAt,
+    };
+
+    const result: AuthResult = {
+      userId: user.userId,
+      tenantId: user.tenantId,
+      sessionId,
+      roles,
+      expiresAt,
+    };
+
+    if (this.sessionTokenSigner) {
+      // Stateless: the signed token carries the session, nothing is stored
+      result.token = this.sessionTokenSigner.sign(sessionContext);
+    } else {
+      await this.sessionStorage.createSession(sessionContext);
+    }
+
+    if (this.refreshTokenDurationMs) {
+      const refreshToken = randomBytes(32).toString('base64url');
+      const record: RefreshTokenRecord = {
+        tokenHash: this.hashToken(refreshToken),
+        familyId: refreshFamilyId || this.generateId(),
+        tenantId: user.tenantId,
+        userId: user.userId,
+        sessionId,
+        issuedAt,
+        expiresAt: new Date(issuedAt.getTime() + this.refreshTokenDurationMs),
+      };
+
+      await this.sessionStorage.createRefreshToken(record);
+      result.refreshToken = refreshToken;
+      result.refreshExpiresAt = record.expiresAt;
+    }
+
+    await this.emit('session.created', { tenantId: user.tenantId, userId: user.userId, roles, expiresAt });
+
+    return result;
+  }
+
+  /**
+   * Validate a session
+   * 
+   * Accepts opaque session IDs and, when session tokens are configured,
+   * signed session tokens. Tokens are verified locally and checked against
+   * the revocation deny-list. In provider mode the provider verifies the
+   * session; in dual-run mode tokens the provider rejects are checked as
+   * local sessions.
+   * @param request Per-request tenant details, e.g. a slug derived from the
+   *   host for `tenantResolution` slug mode
+   */
+  async validateSession(
+    sessionToken: SessionId,
+    context?: AuditContext,
+    request?: TenantRequest
+  ): Promise<SessionValidation> {
+    const validation = await this.checkSession(sessionToken, request);
+    if (validation.valid) return validation;
+
+    // Failed checks carry the session's context when it is known, for auditing only
+    await this.audit({
+      action: 'session.validation_failed',
+      tenantId: validation.context?.tenantId,
+      targetId: validation.context?.userId,
+      reason: validation.reason,
+    }, context);
+
+    return { valid: false, reason: validation.reason, code: validation.code };
+  }
+
+  private async checkSession(sessionToken: SessionId, request?: TenantRequest): Promise<SessionValidation> {
+    validate(SessionTokenSchema, sessionToken);
+
+    if (this.identityProvider) {
+      const claims = await this.identityProvider.verifySession(sessionToken);
+      if (claims) {
+        return this.checkProviderSession(this.identityProvider, claims, request);
+      }
+      // A rejected JWT can only still be a local session token
+      if (!this.dualRun || (isJwt(sessionToken) && !this.sessionTokenSigner)) {
+        return { valid: false, reason: 'Invalid or expired session' };
+      }
+    }
+
+    if (this.sessionTokenSigner && isJwt(sessionToken)) {
+      return this.validateSessionToken(sessionToken);
+    }
+
+    validate(SessionIdSchema, sessionToken);
+    const context = await this.sessionStorage.getSession(sessionToken);
+    if (!context) {
+      return { valid: false, reason: 'Session not found' };
+    }
+
+    const now = new Date();
+
+    if (
+      this.absoluteSessionLifetimeMs &&
+      now.getTime() - context.issuedAt.getTime() > this.absoluteSessionLifetimeMs
+    ) {
+      await this.sessionStorage.deleteSession(sessionToken);
+      return { valid: false, reason: 'Session lifetime exceeded', context };
+    }
+
+    if (context.expiresAt < now) {
+      await this.sessionStorage.deleteSession(sessionToken);
+      return { valid: false, reason: 'Session expired', context };
+    }
+
+    const lastSeenAt = context.lastSeenAt || context.issuedAt;
+    if (this.idleTimeoutMs && now.getTime() - lastSeenAt.getTime() > this.idleTimeoutMs) {
+      await this.sessionStorage.deleteSession(sessionToken);
+      return { valid: false, reason: 'Session idle timeout exceeded', context };
+    }
+
+    return { valid: true, context: await this.touchSession(context, lastSeenAt, now) };
+  }
+
+  private async checkProviderSession(
+    provider: IdentityProvider,
+    claims: unknown,
+    request?: TenantRequest
+  ): Promise<SessionValidation> {
+    let context = await provider.toSessionContext(claims, request);
+    if (!context) {
+      return { valid: false, reason: 'No active tenant', code: 'NO_ACTIVE_TENANT' };
+    }
+
+    // Unlinked provider users keep their provider user ID; links only apply in their own tenant
+    if (this.dualRun) {
+      const link = await this.providerLinkStorage.getLinkByProviderUserId(
+        provider.name,
+        context.tenantId,
+        context.userId
+      );
+      if (link) {
+        context = { ...context, userId: link.userId };
+      }
+    }
+
+    // Populated by provider webhooks, e.g. Clerk `session.revoked`
+    if (await this.sessionStorage.isSessionRevoked(context.sessionId)) {
+      return { valid: false, reason: 'Session revoked', context };
+    }
+
+    return { valid: true, context };
+  }
+
+  /**
+   * Record activity on a stored session, sliding its expiry if enabled
+   * 
+   * Writes are throttled to one per sessionTouchIntervalMs, so idle
+   * detection is accurate to within that interval.
+   */
+  private async touchSession(context: SessionContext, lastSeenAt: Date, now: Date): Promise<SessionContext> {
+    if (!this.idleTimeoutMs && !this.slidingExpiration) return context;
+    if (now.getTime() - lastSeenAt.getTime() < this.sessionTouchIntervalMs) return context;
+
+    const expiresAt = this.slidingExpiration
+      ? this.capSessionExpiry(context.issuedAt, now.getTime() + this.sessionDurationMs)
+      : context.expiresAt;
+
+    await this.sessionStorage.touchSession(context.sessionId, now, expiresAt);
+    return { ...context, lastSeenAt: now, expiresAt };
+  }
+
+  private capSessionExpiry(issuedAt: Date, expiresAtMs: number): Date {
+    if (this.absoluteSessionLifetimeMs) {
+      return new Date(Math.min(expiresAtMs, issuedAt.getTime() + this.absoluteSessionLifetimeMs));
+    }
+    return new Date(expiresAtMs);
+  }
+
+  private async validateSessionToken(token: string): Promise<SessionValidation> {
+    const verification = this.sessionTokenSigner!.verify(token);
+    if (!verification.valid || !verification.claims) {
+      return {
+        valid: false,
+        reason: verification.reason,
+        context: verification.claims && clerkClaimsToSessionContext(verification.claims),
+      };
+    }
+
+    const context = clerkClaimsToSessionContext(verification.claims);
+
+    if (await this.sessionStorage.isSessionRevoked(context.sessionId)) {
+      return { valid: false, reason: 'Session revoked', context };
+    }
+
+    // Tokens without `iat_ms` only have second precision, so those issued in
+    // the same second as the revocation are treated as revoked too
+    const revokedAt = await this.sessionStorage.getUserSessionsRevokedAt(
+      context.tenantId,
+      context.userId,
+      context.sessionId
+    );
+    const issuedAtMs = verification.claims.iat_ms ?? verification.claims.iat * 1000 + 999;
+    if (revokedAt && issuedAtMs <= revokedAt.getTime()) {
+      return { valid: false, reason: 'Session revoked', context };
+    }
+
+    return { valid: true, context };
+  }
+
+  private sessionError(validation: SessionValidation): IdentityError {
+    return validation.code === 'NO_ACTIVE_TENANT'
+      ? new NoActiveTenantError()
+      : new InvalidSessionError(validation.reason);
+  }
+
+  /**
+   * Resolve identity from session token
+   * 
+   * HARD STOP REQUIREMENT: A Suite can provide a session token and reliably receive
+   * (tenantId, userId, roles, identity metadata)
+   */
+  async resolveIdentity(sessionToken: SessionId, request?: TenantRequest): Promise<IdentityResolution> {
+    const validation = await this.validateSession(sessionToken, undefined, request);
+    if (!validation.valid || !validation.context) {
+      throw this.sessionError(validation);
+    }
+
+    const profile = await this.getUser(
+      validation.context.tenantId,
+      validation.context.userId
+    );
+
+    if (!profile) {
+      throw new UserNotFoundError();
+    }
+
+    return {
+      userId: profile.userId,
+      tenantId: profile.tenantId,
+      roles: validation.context.roles,
+      profile,
+    };
+  }
+
+  /**
+   * Assert tenant context from session token
+   * 
+   * Validates session and returns tenant context, throwing if invalid.
+   * Use this to enforce tenant isolation in downstream services.
+   */
+  async assertTenantContext(sessionToken: SessionId, request?: TenantRequest): Promise<TenantContext> {
+    const validation = await this.validateSession(sessionToken, undefined, request);
+    if (!validation.valid || !validation.context) {
+      throw this.sessionError(validation);
+    }
+
+    const { tenantId, userId, roles, sessionId } = validation.context;
+    const definitions = await this.roleStorage.listRoleDefinitions(tenantId);
+    const permissions = new Set([
+      ...(validation.context.permissions || []),
+      ...resolvePermissions(roles, definitions),
+    ]);
+
+    return {
+      tenantId,
+      userId,
+      roles,
+      permissions: Array.from(permissions),
+      sessionId,
+    };
+  }
+
+  /**
+   * Authorize a session for a permission
+   * 
+   * Resolves the session's roles to permissions through the tenant's role
+   * definitions (plus any permissions carried by provider claims) and throws
+   * PermissionDeniedError if none of them grant the requested permission.
+   */
+  async authorize(sessionToken: SessionId, permission: Permission, request?: TenantRequest): Promise<TenantContext> {
+    validate(PermissionSchema, permission);
+
+    const context = await this.assertTenantContext(sessionToken, request);
+    if (!hasPermission(context, permission)) {
+      throw new PermissionDeniedError(permission);
+    }
+
+    return context;
+  }
+
+  /**
+   * Switch a session to another tenant the user belongs to
+   * 
+   * Credentials are per tenant and tenant admins can set them, so the user
+   * re-authenticates with their credential in the target tenant; a session
+   * in one tenant never grants access to another. Issues a new session
+   * scoped to the target tenant, with the user's roles there. The presented
+   * session stays valid. In provider mode the active tenant is switched
+   * through the provider instead; in dual-run mode a local session is issued
+   * for either kind of session.
+   * @throws InvalidSessionError if the presented session is invalid
+   * @throws TenantMismatchError if the user is not a member of the target tenant
+   * @throws AccountLockedError if the user is locked out of the target tenant
+   * @throws InvalidCredentialsError if the credential does not match the target tenant's
+   */
+  async switchTenant(sessionToken: SessionId, input: SwitchTenantInput, context?: AuditContext): Promise<AuthResult> {
+    const { tenantId, credential } = validate(SwitchTenantInputSchema, input);
+
+    if (this.identityProvider && !this.dualRun) {
+      throw new NotConfiguredError('Tenant switching is handled by the identity provider');
+    }
+
+    const validation = await this.validateSession(sessionToken, context);
+    if (!validation.valid || !validation.context) {
+      throw this.sessionError(validation);
+    }
+
+    const { userId, tenantId: previousTenantId } = validation.context;
+    const profile = await this.userStorage.getUser(tenantId, userId);
+    if (!profile) {
+      throw new TenantMismatchError('User is not a member of the target tenant');
+    }
+
+    const lockoutKeys = this.getLockoutKeys(tenantId, profile.phone, context);
+    const lockedUntil = await this.getLockedUntil(lockoutKeys);
+    if (lockedUntil) {
+      await this.audit({ action: 'auth.failed', tenantId, targetId: userId, reason: 'Account locked' }, context);
+      throw new AccountLockedError(lockedUntil);
+    }
+    await this.verifyUserCredential(profile, credential, lockoutKeys, context);
+
+    const result = await this.issueSession(profile);
+
+    await this.audit({
+      action: 'session.tenant_switched',
+      tenantId,
+      actorId: userId,
+      targetId: userId,
+      reason: `from ${previousTenantId}`,
+    }, context);
+
+    return result;
+  }
+
+  /**
+   * Logout (delete session)
+   * 
+   * Session tokens cannot be deleted, so their session ID is added to the
+   * deny-list until the token would have expired.
+   */
+  async logout(sessionToken: SessionId, context?: AuditContext): Promise<void> {
+    validate(SessionTokenSchema, sessionToken);
+
+    if (this.sessionTokenSigner && isJwt(sessionToken)) {
+      const verification = this.sessionTokenSigner.verify(sessionToken);
+      if (verification.claims) {
+        await this.sessionStorage.revokeSession(
+          verification.claims.sid,
+          new Date(verification.claims.exp * 1000)
+        );
+        await this.auditLogout(verification.claims.org_id, verification.claims.sub, context);
+      }
+      return;
+    }
+
+    const session = await this.sessionStorage.getSession(sessionToken);
+    await this.sessionStorage.deleteSession(sessionToken);
+
+    if (session) {
+      await this.auditLogout(session.tenantId, session.userId, context);
+    }
+  }
+
+  private async auditLogout(tenantId: TenantId, userId: UserId, context?: AuditContext): Promise<void> {
+    await this.audit({ action: 'session.logout', tenantId, actorId: userId, targetId: userId }, context);
+    await this.emit('session.revoked', { tenantId, userId, scope: 'session', reason: 'logout' });
+  }
+
+  /**
+   * Logout all sessions for a user
+   */
+  async logoutAll(tenantId: TenantId, userId: UserId, context?: AuditContext): Promise<void> {
+    validate(TenantIdSchema, tenantId);
+    validate(UserIdSchema, userId);
+    await this.revokeAllSessions(tenantId, userId, 'logout_all');
+    await this.audit({ action: 'session.logout_all', tenantId, targetId: userId }, context);
+  }
+
+  /**
+   * @param exceptSessionId Session to keep signed in, with its refresh tokens
+   */
+  private async revokeAllSessions(
+    tenantId: TenantId,
+    userId: UserId,
+    reason: SessionRevocationReason,
+    exceptSessionId?: SessionId
+  ): Promise<void> {
+    await this.sessionStorage.deleteUserSessions(tenantId, userId, exceptSessionId);
+    await this.sessionStorage.revokeUserRefreshTokens(tenantId, userId, new Date(), exceptSessionId);
+
+    if (this.sessionTokenSigner) {
+      await this.sessionStorage.revokeUserSessions(tenantId, userId, new Date(), exceptSessionId);
+    }
+
+    await this.emit('session.revoked', { tenantId, userId, scope: 'user', reason });
+  }
+
+  /**
+   * Subscribe to a domain event
+   * @returns A function that removes the subscription
+   */
+  subscribe<K extends IdentityEventType>(type: K, handler: IdentityEventHandler<K>): () => void {
+    return this.eventBus.subscribe(type, handler);
+  }
+
+  /**
+   * Remove a domain event subscription
+   */
+  unsubscribe<K extends IdentityEventType>(type: K, handler: IdentityEventHandler<K>): void {
+    this.eventBus.unsubscribe(type, handler);
+  }
+
+  /**
+   * Retry delivery of outbox events whose handlers previously failed
+   * 
+   * Call this periodically (e.g. from a job scheduler) when an outbox is configured.
+   * @returns The number of events delivered
+   */
+  async processOutbox(limit = 100): Promise<number> {
+    if (!this.outboxRelay) return 0;
+    return this.outboxRelay.dispatchPending(limit);
+  }
+
+  /**
+   * Emit a domain event
+   * 
+   * With an outbox the event is persisted before delivery (but after the
+   * change it describes) and marked delivered only once every handler has
+   * succeeded. Handler failures never fail the
+   * operation that emitted the event.
+   */
+  private async emit<K extends IdentityEventType>(type: K, payload: IdentityEventMap[K]): Promise<void> {
+    const event: IdentityEvent<K> = { id: this.generateId(), type, occurredAt: new Date(), payload };
+
+    if (this.outboxStorage && this.outboxRelay) {
+      const record = { event: event as IdentityEvent, attempts: 0, nextAttemptAt: event.occurredAt };
+      await this.outboxStorage.enqueue(record);
+      await this.outboxRelay.deliver(record);
+      return;
+    }
+
+    await this.eventBus.publish(event as IdentityEvent);
+  }
+
+  /**
+   * Report an event to the audit sink
+   * 
+   * Sink failures are swallowed so auditing never changes the outcome of
+   * the operation being audited. The caller's actorId, when given, takes
+   * precedence over the actor derived from the operation.
+   */
+  private async audit(
+    event: Omit<AuditEvent, 'timestamp' | 'ipAddress' | 'userAgent'>,
+    context?: AuditContext
+  ): Promise<void> {
+    if (!this.auditSink) return;
+
+    try {
+      await this.auditSink.record({
+        ...event,
+        timestamp: new Date(),
+        actorId: context?.actorId ?? event.actorId,
+        ipAddress: context?.ipAddress,
+        userAgent: context?.userAgent,
+      });
+    } catch {
+      // Intentionally ignored
+    }
+  }
+
+  /**
+   * Normalize a phone number, reading national input in the tenant's country
+   */
+  private normalizePhone(tenantId: TenantId, phone: string): PhoneNumber {
+    return normalizePhone(phone, this.tenantCountries[tenantId] || this.defaultCountry);
+  }
+
+  private generateId(): string {
+    return randomBytes(16).toString('hex');
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
   }
 }
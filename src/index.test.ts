@@ -15,18 +15,107 @@ describe('Module exports', () => {
   it('should export storage classes', () => {
     expect(CoreIdentity.InMemoryUserStorage).toBeDefined();
     expect(CoreIdentity.InMemorySessionStorage).toBeDefined();
+    expect(CoreIdentity.InMemoryRoleStorage).toBeDefined();
+    expect(CoreIdentity.userStorageContract).toBeDefined();
   });
 
   it('should export Clerk adapter components', () => {
     expect(CoreIdentity.MockClerkAdapter).toBeDefined();
+    expect(CoreIdentity.ClerkAdapter).toBeDefined();
     expect(CoreIdentity.clerkUserToProfile).toBeDefined();
     expect(CoreIdentity.extractTenantContext).toBeDefined();
+    expect(CoreIdentity.toClerkUserInput).toBeDefined();
+    expect(CoreIdentity.MembershipCache).toBeDefined();
+    expect(CoreIdentity.ClerkWebhookHandler).toBeDefined();
+    expect(CoreIdentity.verifyWebhookSignature).toBeDefined();
+  });
+
+  it('should export identity providers', () => {
+    expect(CoreIdentity.ClerkIdentityProvider).toBeDefined();
+    expect(CoreIdentity.clerkClaimsToSessionContext).toBeDefined();
+    expect(CoreIdentity.OidcIdentityProvider).toBeDefined();
+    expect(CoreIdentity.DEFAULT_OIDC_CLAIM_MAPPING).toBeDefined();
+  });
+
+  it('should export provider migration components', () => {
+    expect(CoreIdentity.ProviderMigration).toBeDefined();
+    expect(CoreIdentity.InMemoryProviderLinkStorage).toBeDefined();
+  });
+
+  it('should export tenant resolution helpers', () => {
+    expect(CoreIdentity.resolveSessionTenant).toBeDefined();
+    expect(CoreIdentity.personalTenantId).toBeDefined();
+    expect(CoreIdentity.NoActiveTenantError).toBeDefined();
+  });
+
+  it('should export credential utilities', () => {
+    expect(CoreIdentity.InMemoryCredentialStorage).toBeDefined();
+    expect(CoreIdentity.hashCredential).toBeDefined();
+    expect(CoreIdentity.verifyCredential).toBeDefined();
+    expect(CoreIdentity.InvalidCredentialsError).toBeDefined();
+  });
+
+  it('should export error types', () => {
+    expect(CoreIdentity.IdentityError).toBeDefined();
+    expect(CoreIdentity.serializeError).toBeDefined();
+    expect(CoreIdentity.ValidationError).toBeDefined();
+    expect(CoreIdentity.UserNotFoundError).toBeDefined();
+    expect(CoreIdentity.InvalidSessionError).toBeDefined();
+  });
+
+  it('should export lockout components', () => {
+    expect(CoreIdentity.InMemoryRateLimitStore).toBeDefined();
+    expect(CoreIdentity.AccountLockedError).toBeDefined();
+    expect(CoreIdentity.DEFAULT_LOCKOUT_CONFIG).toBeDefined();
+  });
+
+  it('should export OTP components', () => {
+    expect(CoreIdentity.InMemoryOtpStorage).toBeDefined();
+    expect(CoreIdentity.InMemorySmsSender).toBeDefined();
+    expect(CoreIdentity.OtpCooldownError).toBeDefined();
+  });
+
+  it('should export email verification components', () => {
+    expect(CoreIdentity.InMemoryEmailSender).toBeDefined();
+    expect(CoreIdentity.verifyEmailVerificationToken).toBeDefined();
+    expect(CoreIdentity.InvalidVerificationTokenError).toBeDefined();
+  });
+
+  it('should export permission helpers', () => {
+    expect(CoreIdentity.hasPermission).toBeDefined();
+    expect(CoreIdentity.permissionMatches).toBeDefined();
+    expect(CoreIdentity.PermissionDeniedError).toBeDefined();
+  });
+
+  it('should export audit components', () => {
+    expect(CoreIdentity.InMemoryAuditSink).toBeDefined();
+  });
+
+  it('should export domain event components', () => {
+    expect(CoreIdentity.IdentityEventBus).toBeDefined();
+    expect(CoreIdentity.OutboxRelay).toBeDefined();
+    expect(CoreIdentity.InMemoryOutboxStorage).toBeDefined();
+  });
+
+  it('should export pagination helpers', () => {
+    expect(CoreIdentity.paginateByCreatedAt).toBeDefined();
+    expect(CoreIdentity.encodeCursor).toBeDefined();
+    expect(CoreIdentity.InvalidCursorError).toBeDefined();
+  });
+
+  it('should export session token components', () => {
+    expect(CoreIdentity.SessionTokenSigner).toBeDefined();
+    expect(CoreIdentity.signJwt).toBeDefined();
+    expect(CoreIdentity.decodeJwt).toBeDefined();
   });
 
   it('should export phone utilities', () => {
     expect(CoreIdentity.normalizeNigerianPhone).toBeDefined();
     expect(CoreIdentity.isValidNigerianPhone).toBeDefined();
     expect(CoreIdentity.formatNigerianPhone).toBeDefined();
+    expect(CoreIdentity.normalizePhone).toBeDefined();
+    expect(CoreIdentity.registerNumberingPlan).toBeDefined();
+    expect(CoreIdentity.getNigerianPhoneInfo).toBeDefined();
   });
 
   it('should export validation schemas', () => {
@@ -4,8 +4,8 @@
  * Provides canonical identity resolution, user profiles, authentication primitives,
  * and tenant-aware session context for the WebWaka platform.
  * 
- * Uses Clerk as the Identity Provider - this module is a Clerk adapter + resolver.
- * Authentication happens outside this module.
+ * Sessions can be delegated to an external identity provider (Clerk or any
+ * OIDC issuer); authentication then happens outside this module.
  */
 
 export { IdentityService, IdentityServiceConfig } from './identity-service';
@@ -14,7 +14,9 @@ export {
   TenantId,
   UserId,
   RoleId,
+  Permission,
   SessionId,
+  PhoneNumber,
   NigerianPhone,
   UserProfile,
   AuthResult,
@@ -23,45 +25,281 @@ export {
   CreateUserInput,
   UpdateUserInput,
   AuthenticateInput,
+  SwitchTenantInput,
   SessionValidation,
   TenantContext,
+  CredentialRecord,
+  OtpChallenge,
+  OtpRequestResult,
+  RoleDefinition,
+  RefreshTokenRecord,
+  SortOrder,
+  ListUsersOptions,
+  Page,
+  SessionRevocationReason,
+  IdentityEventMap,
+  IdentityEventType,
+  IdentityEvent,
+  OutboxRecord,
+  RateLimitRecord,
+  IdentityMembership,
+  TenantMembership,
+  IdentityRecord,
+  GlobalIdentity,
+  ProviderLink,
 } from './types';
 
 export {
   UserStorage,
   SessionStorage,
+  CredentialStorage,
+  OtpStorage,
+  RoleStorage,
+  OutboxStorage,
+  RateLimitStore,
+  ProviderLinkStorage,
+  IdentityStorage,
   InMemoryUserStorage,
   InMemorySessionStorage,
+  InMemoryCredentialStorage,
+  InMemoryOtpStorage,
+  InMemoryRoleStorage,
+  InMemoryOutboxStorage,
+  InMemoryRateLimitStore,
+  InMemoryProviderLinkStorage,
+  InMemoryIdentityStorage,
 } from './storage';
 
+export { StorageContractCase, userStorageContract } from './storage-contract';
+
+export { hashCredential, verifyCredential, CredentialHashOptions } from './credentials';
+
+export {
+  SessionTokenSigner,
+  SessionTokenConfig,
+  SessionTokenClaims,
+  SessionTokenVerification,
+} from './session-tokens';
+
+export {
+  JwtAlgorithm,
+  JwtHeader,
+  JwtKey,
+  DecodedJwt,
+  signJwt,
+  decodeJwt,
+  verifyJwtSignature,
+  isJwt,
+} from './jwt';
+
+export { MembershipCache, MembershipCacheConfig } from './membership-cache';
+
+export {
+  DEFAULT_PAGE_LIMIT,
+  KeysetCursor,
+  OffsetCursor,
+  encodeCursor,
+  decodeKeysetCursor,
+  decodeOffsetCursor,
+  hasUserFilters,
+  matchesUserFilters,
+  paginateByCreatedAt,
+} from './pagination';
+
+export {
+  PermissionContext,
+  hasPermission,
+  permissionMatches,
+  resolvePermissions,
+} from './permissions';
+
+export {
+  AuditAction,
+  AuditContext,
+  AuditEvent,
+  AuditSink,
+  AuditQuery,
+  InMemoryAuditSink,
+} from './audit';
+
+export {
+  IdentityEventHandler,
+  IdentityEventBus,
+  IdentityEventBusConfig,
+  OutboxRelay,
+  OutboxRelayConfig,
+} from './events';
+
+export {
+  LockoutConfig,
+  DEFAULT_LOCKOUT_CONFIG,
+  accountLockoutKey,
+  ipLockoutKey,
+  lockoutDurationMs,
+} from './lockout';
+
+export {
+  SmsSender,
+  SentSms,
+  OtpConfig,
+  DEFAULT_OTP_CONFIG,
+  InMemorySmsSender,
+  generateOtpCode,
+} from './otp';
+
+export {
+  EmailSender,
+  EmailVerificationConfig,
+  EmailVerificationClaims,
+  SentEmail,
+  DEFAULT_EMAIL_VERIFICATION_CONFIG,
+  InMemoryEmailSender,
+  signEmailVerificationToken,
+  verifyEmailVerificationToken,
+} from './email-verification';
+
+export {
+  IdentityError,
+  IdentityErrorCode,
+  SerializedIdentityError,
+  serializeError,
+  ValidationError,
+  ValidationIssue,
+  InvalidPhoneError,
+  UserExistsError,
+  UserNotFoundError,
+  TenantMismatchError,
+  InvalidSessionError,
+  NoActiveTenantError,
+  NotConfiguredError,
+  InvalidVerificationTokenError,
+  InvalidCredentialsError,
+  InvalidOtpError,
+  OtpCooldownError,
+  PermissionDeniedError,
+  InvalidRefreshTokenError,
+  ProviderError,
+  ClerkApiError,
+  InvalidCursorError,
+  WebhookVerificationError,
+  AccountLockedError,
+} from './errors';
+
+export {
+  IdentityProvider,
+  UserDirectory,
+  DirectoryUserInput,
+} from './identity-provider';
+
+export {
+  ClerkIdentityProvider,
+  ClerkIdentityProviderConfig,
+  clerkClaimsToSessionContext,
+} from './clerk-provider';
+
+export {
+  OidcIdentityProvider,
+  OidcProviderConfig,
+  OidcClaimMapping,
+  OidcClaims,
+  DEFAULT_OIDC_CLAIM_MAPPING,
+} from './oidc-provider';
+
+export {
+  ProviderMigration,
+  ProviderMigrationConfig,
+  MigrationOptions,
+  MigrationReport,
+  MigrationConflict,
+  MigrationConflictReason,
+} from './provider-migration';
+
 export {
   ClerkAdapterInterface,
   ClerkSessionClaims,
   ClerkUser,
   ClerkSessionVerification,
   ClerkTenantContext,
+  ClerkOrganizationMembership,
+  ClerkUserInput,
+  DEFAULT_ORGANIZATION_ROLE,
   MockClerkAdapter,
   clerkUserToProfile,
+  toClerkUserInput,
   extractTenantContext,
 } from './clerk-adapter';
 
 export {
+  TenantResolutionPolicy,
+  TenantRequest,
+  DEFAULT_TENANT_RESOLUTION_POLICY,
+  DEFAULT_PERSONAL_TENANT_PREFIX,
+  personalTenantId,
+  isPersonalTenant,
+  resolveSessionTenant,
+} from './tenant-resolution';
+
+export {
+  ClerkAdapter,
+  ClerkAdapterConfig,
+  FetchLike,
+  FetchResponseLike,
+} from './clerk-backend-adapter';
+
+export {
+  ClerkWebhookHandler,
+  ClerkWebhookHandlerConfig,
+  ClerkWebhookEvent,
+  ClerkWebhookResult,
+  ClerkWebhookConflict,
+  WebhookHeaders,
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  verifyWebhookSignature,
+} from './clerk-webhooks';
+
+export {
+  NumberingPlan,
+  DEFAULT_COUNTRY,
+  registerNumberingPlan,
+  getNumberingPlan,
+  listNumberingPlans,
+  findNumberingPlan,
+  normalizePhone,
+  isValidPhone,
+  formatPhone,
   normalizeNigerianPhone,
   isValidNigerianPhone,
   formatNigerianPhone,
 } from './phone-utils';
 
+export {
+  NigerianNetwork,
+  NigerianPhoneInfo,
+  NIGERIAN_MOBILE_PREFIXES,
+  getNigerianPhoneInfo,
+  isNigerianMobilePhone,
+} from './nigerian-networks';
+
 export {
   validate,
   TenantIdSchema,
   UserIdSchema,
   RoleIdSchema,
+  PermissionSchema,
   SessionIdSchema,
+  SessionTokenSchema,
+  PhoneSchema,
   NigerianPhoneSchema,
+  NigerianPhoneSchemaOptions,
+  createNigerianPhoneSchema,
   EmailSchema,
+  CredentialSchema,
   DisplayNameSchema,
   MetadataSchema,
   CreateUserInputSchema,
   UpdateUserInputSchema,
   AuthenticateInputSchema,
+  SwitchTenantInputSchema,
+  OtpCodeSchema,
+  ListUsersOptionsSchema,
 } from './validation';
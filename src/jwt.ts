@@ -0,0 +1,135 @@
+/**
+ * Minimal JSON Web Token (JWS compact serialization) support
+ *
+ * Implements only what the identity service needs, on top of Node's crypto
+ * module: HS256 (shared secret), EdDSA (Ed25519) and RS256 signatures.
+ */
+
+import { createHmac, sign, verify, timingSafeEqual, KeyObject } from 'crypto';
+
+/**
+ * Supported signature algorithms
+ */
+export type JwtAlgorithm = 'HS256' | 'EdDSA' | 'RS256';
+
+/**
+ * JWT header
+ */
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+/**
+ * Decoded (but not yet verified) JWT
+ */
+export interface DecodedJwt<T = Record<string, unknown>> {
+  header: JwtHeader;
+  payload: T;
+  signingInput: string;
+  signature: Buffer;
+}
+
+/**
+ * Key material for signing or verifying
+ *
+ * HS256 uses `secret`. EdDSA and RS256 sign with `privateKey` and verify
+ * with `publicKey` (or derive it from `privateKey`).
+ */
+export interface JwtKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  secret?: string | Buffer;
+  privateKey?: KeyObject | string;
+  publicKey?: KeyObject | string;
+}
+
+const JWT_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/;
+
+function digestFor(algorithm: JwtAlgorithm): string | null {
+  // Ed25519 has its own built-in hash
+  return algorithm === 'RS256' ? 'sha256' : null;
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Check whether a string has the shape of a compact JWT
+ */
+export function isJwt(token: string): boolean {
+  return JWT_PATTERN.test(token);
+}
+
+/**
+ * Sign a payload and return a compact JWT
+ */
+export function signJwt(payload: object, key: JwtKey): string {
+  const header: JwtHeader = { alg: key.algorithm, typ: 'JWT', kid: key.kid };
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  const data = Buffer.from(signingInput);
+
+  let signature: Buffer;
+  if (key.algorithm === 'HS256') {
+    if (!key.secret) throw new Error(`Key ${key.kid} has no secret`);
+    signature = createHmac('sha256', key.secret).update(data).digest();
+  } else {
+    if (!key.privateKey) throw new Error(`Key ${key.kid} has no private key`);
+    signature = sign(digestFor(key.algorithm), data, key.privateKey);
+  }
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Decode a compact JWT without verifying its signature
+ * @returns The decoded token, or null if it is malformed
+ */
+export function decodeJwt<T = Record<string, unknown>>(token: string): DecodedJwt<T> | null {
+  if (!isJwt(token)) return null;
+
+  const [headerB64, payloadB64, signatureB64] = token.split('.');
+  try {
+    const header = JSON.parse(Buffer.from(headerB64, 'base64url').toString('utf8')) as JwtHeader;
+    const payload = JSON.parse(Buffer.from(payloadB64, 'base64url').toString('utf8')) as T;
+    if (!header || typeof header.alg !== 'string' || !payload || typeof payload !== 'object') {
+      return null;
+    }
+    return {
+      header,
+      payload,
+      signingInput: `${headerB64}.${payloadB64}`,
+      signature: Buffer.from(signatureB64, 'base64url'),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify the signature of a decoded JWT
+ *
+ * The header algorithm must match the key's algorithm, so a token cannot
+ * downgrade verification to a weaker scheme.
+ */
+export function verifyJwtSignature(decoded: DecodedJwt<unknown>, key: JwtKey): boolean {
+  if (decoded.header.alg !== key.algorithm) return false;
+
+  const data = Buffer.from(decoded.signingInput);
+
+  if (key.algorithm === 'HS256') {
+    if (!key.secret) return false;
+    const expected = createHmac('sha256', key.secret).update(data).digest();
+    return expected.length === decoded.signature.length && timingSafeEqual(expected, decoded.signature);
+  }
+
+  const publicKey = key.publicKey || key.privateKey;
+  if (!publicKey) return false;
+  try {
+    return verify(digestFor(key.algorithm), data, publicKey, decoded.signature);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Lockout Policy Tests
+ */
+
+import { DEFAULT_LOCKOUT_CONFIG, lockoutDurationMs } from './lockout';
+import { InMemoryRateLimitStore } from './storage';
+
+describe('lockoutDurationMs', () => {
+  const config = { ...DEFAULT_LOCKOUT_CONFIG, baseLockoutMs: 1000, maxLockoutMs: 5000 };
+
+  it('should not lock below the threshold', () => {
+    expect(lockoutDurationMs(4, 5, config)).toBe(0);
+  });
+
+  it('should back off exponentially up to the cap', () => {
+    expect([5, 6, 7, 8, 20].map(failures => lockoutDurationMs(failures, 5, config))).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+});
+
+describe('InMemoryRateLimitStore', () => {
+  it('should count failures within the window', async () => {
+    const store = new InMemoryRateLimitStore();
+    const start = new Date('2026-01-01T00:00:00Z');
+
+    await store.recordFailure('key', start, 1000);
+    const record = await store.recordFailure('key', new Date(start.getTime() + 500), 1000);
+
+    expect(record.failures).toBe(2);
+  });
+
+  it('should restart the count after a quiet window', async () => {
+    const store = new InMemoryRateLimitStore();
+    const start = new Date('2026-01-01T00:00:00Z');
+
+    await store.recordFailure('key', start, 1000);
+    const record = await store.recordFailure('key', new Date(start.getTime() + 1001), 1000);
+
+    expect(record.failures).toBe(1);
+  });
+
+  it('should lock and reset keys', async () => {
+    const store = new InMemoryRateLimitStore();
+    const until = new Date(Date.now() + 1000);
+
+    await store.lock('key', until);
+    expect((await store.get('key'))?.lockedUntil).toEqual(until);
+
+    await store.reset('key');
+    expect(await store.get('key')).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Brute-force protection policy for credential authentication
+ *
+ * Failed attempts are counted per account (tenant + phone) and per client IP.
+ * Once a key reaches its failure threshold, every further failure locks it
+ * for an exponentially growing period, capped at maxLockoutMs. Counts reset
+ * after attemptWindowMs without failures, and an account's count resets on
+ * successful login.
+ */
+
+import { PhoneNumber, TenantId } from './types';
+
+/**
+ * Lockout configuration
+ */
+export interface LockoutConfig {
+  /**
+   * Failures per account before it is locked
+   */
+  maxAttempts?: number;
+  /**
+   * Failures per IP address before it is locked (higher, since many users may share an IP)
+   */
+  ipMaxAttempts?: number;
+  /**
+   * Failures older than this (since the last one) are forgotten
+   */
+  attemptWindowMs?: number;
+  baseLockoutMs?: number;
+  maxLockoutMs?: number;
+}
+
+/**
+ * Default lockout settings
+ */
+export const DEFAULT_LOCKOUT_CONFIG: Required<LockoutConfig> = {
+  maxAttempts: 5,
+  ipMaxAttempts: 50,
+  attemptWindowMs: 15 * 60 * 1000,
+  baseLockoutMs: 30 * 1000,
+  maxLockoutMs: 15 * 60 * 1000,
+};
+
+/**
+ * Rate limit key for an account
+ */
+export function accountLockoutKey(tenantId: TenantId, phone: PhoneNumber): string {
+  return `account:${tenantId}:${phone}`;
+}
+
+/**
+ * Rate limit key for a client IP address
+ */
+export function ipLockoutKey(ipAddress: string): string {
+  return `ip:${ipAddress}`;
+}
+
+/**
+ * Lock duration after a failure
+ * @returns 0 while the failure count is below the threshold
+ */
+export function lockoutDurationMs(failures: number, threshold: number, config: Required<LockoutConfig>): number {
+  if (failures < threshold) return 0;
+  return Math.min(config.baseLockoutMs * 2 ** (failures - threshold), config.maxLockoutMs);
+}
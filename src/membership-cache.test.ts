@@ -0,0 +1,78 @@
+/**
+ * Membership Cache Tests
+ */
+
+import { MembershipCache } from './membership-cache';
+
+describe('MembershipCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should cache positive and negative results', () => {
+    const cache = new MembershipCache({ ttlMs: 1000 });
+
+    cache.set('org_1', 'user_1', true);
+    cache.set('org_1', 'user_2', false);
+
+    expect(cache.get('org_1', 'user_1')).toBe(true);
+    expect(cache.get('org_1', 'user_2')).toBe(false);
+    expect(cache.get('org_1', 'user_3')).toBeUndefined();
+  });
+
+  it('should expire entries after the TTL', () => {
+    jest.useFakeTimers();
+    const cache = new MembershipCache({ ttlMs: 1000 });
+
+    cache.set('org_1', 'user_1', true);
+    jest.advanceTimersByTime(1000);
+
+    expect(cache.get('org_1', 'user_1')).toBeUndefined();
+  });
+
+  it('should not store anything when the TTL is zero', () => {
+    const cache = new MembershipCache({ ttlMs: 0 });
+
+    cache.set('org_1', 'user_1', true);
+
+    expect(cache.get('org_1', 'user_1')).toBeUndefined();
+  });
+
+  it('should invalidate a single membership or a whole tenant', () => {
+    const cache = new MembershipCache({ ttlMs: 1000 });
+    cache.set('org_1', 'user_1', true);
+    cache.set('org_1', 'user_2', true);
+    cache.set('org_2', 'user_1', true);
+
+    cache.invalidate('org_1', 'user_1');
+    expect(cache.get('org_1', 'user_1')).toBeUndefined();
+    expect(cache.get('org_1', 'user_2')).toBe(true);
+
+    cache.invalidate('org_1');
+    expect(cache.get('org_1', 'user_2')).toBeUndefined();
+    expect(cache.get('org_2', 'user_1')).toBe(true);
+  });
+
+  it('should invalidate a user across tenants', () => {
+    const cache = new MembershipCache({ ttlMs: 1000 });
+    cache.set('org_1', 'user_1', true);
+    cache.set('org_2', 'user_1', true);
+    cache.set('org_2', 'user_2', true);
+
+    cache.invalidateUser('user_1');
+
+    expect(cache.get('org_1', 'user_1')).toBeUndefined();
+    expect(cache.get('org_2', 'user_1')).toBeUndefined();
+    expect(cache.get('org_2', 'user_2')).toBe(true);
+  });
+
+  it('should evict the oldest entry when full', () => {
+    const cache = new MembershipCache({ ttlMs: 1000, maxEntries: 2 });
+    cache.set('org_1', 'user_1', true);
+    cache.set('org_1', 'user_2', true);
+    cache.set('org_1', 'user_3', true);
+
+    expect(cache.get('org_1', 'user_1')).toBeUndefined();
+    expect(cache.get('org_1', 'user_3')).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tenant membership cache
+ *
+ * Caches the result of "is user X a member of tenant Y" checks, both
+ * positive and negative, for a fixed TTL. Entries can be invalidated per
+ * user or per tenant when memberships change (e.g. from Clerk webhooks).
+ */
+
+import { TenantId, UserId } from './types';
+
+/**
+ * Membership cache configuration
+ */
+export interface MembershipCacheConfig {
+  ttlMs: number;
+  maxEntries?: number;
+}
+
+interface MembershipCacheEntry {
+  isMember: boolean;
+  expiresAt: number;
+}
+
+/**
+ * In-memory TTL cache for tenant membership checks
+ */
+export class MembershipCache {
+  private entries: Map<string, MembershipCacheEntry> = new Map();
+  private ttlMs: number;
+  private maxEntries: number;
+
+  constructor(config: MembershipCacheConfig) {
+    this.ttlMs = config.ttlMs;
+    this.maxEntries = config.maxEntries ?? 10000;
+  }
+
+  private getKey(tenantId: TenantId, userId: UserId): string {
+    return `${tenantId}:${userId}`;
+  }
+
+  /**
+   * Get a cached membership result
+   * @returns The cached result, or undefined on a miss
+   */
+  get(tenantId: TenantId, userId: UserId): boolean | undefined {
+    const key = this.getKey(tenantId, userId);
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.isMember;
+  }
+
+  /**
+   * Cache a membership result
+   */
+  set(tenantId: TenantId, userId: UserId, isMember: boolean): void {
+    if (this.ttlMs <= 0) return;
+
+    const key = this.getKey(tenantId, userId);
+    this.entries.delete(key);
+
+    if (this.entries.size >= this.maxEntries) {
+      // Maps iterate in insertion order, so the first key is the oldest entry
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+
+    this.entries.set(key, { isMember, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  /**
+   * Invalidate a single membership, or every cached membership of a tenant
+   */
+  invalidate(tenantId: TenantId, userId?: UserId): void {
+    if (userId) {
+      this.entries.delete(this.getKey(tenantId, userId));
+      return;
+    }
+
+    const prefix = `${tenantId}:`;
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Invalidate every cached membership of a user across tenants
+   */
+  invalidateUser(userId: UserId): void {
+    const suffix = `:${userId}`;
+    for (const key of this.entries.keys()) {
+      if (key.endsWith(suffix)) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,55 @@
+import { getNigerianPhoneInfo, isNigerianMobilePhone, NIGERIAN_MOBILE_PREFIXES } from './nigerian-networks';
+import { createNigerianPhoneSchema, NigerianPhoneSchema } from './validation';
+import { InvalidPhoneError } from './errors';
+
+describe('getNigerianPhoneInfo', () => {
+  it('should detect the operator from the prefix', () => {
+    expect(getNigerianPhoneInfo('08031234567')).toEqual({ phone: '+2348031234567', prefix: '0803', network: 'MTN' });
+    expect(getNigerianPhoneInfo('+2348021234567').network).toBe('Airtel');
+    expect(getNigerianPhoneInfo('0805 123 4567').network).toBe('Glo');
+    expect(getNigerianPhoneInfo('8091234567').network).toBe('9mobile');
+  });
+
+  it('should prefer 5-digit allocations over 4-digit ones', () => {
+    expect(getNigerianPhoneInfo('07025123456')).toMatchObject({ prefix: '07025', network: 'MTN' });
+    expect(getNigerianPhoneInfo('07020123456')).toMatchObject({ prefix: '07020', network: 'Smile' });
+  });
+
+  it('should leave the network undefined outside mobile ranges', () => {
+    const info = getNigerianPhoneInfo('08012345678');
+
+    expect(info.prefix).toBe('0801');
+    expect(info.network).toBeUndefined();
+  });
+
+  it('should reject numbers that are not Nigerian', () => {
+    expect(() => getNigerianPhoneInfo('+233241234567')).toThrow(InvalidPhoneError);
+  });
+
+  it('should not list a prefix under more than one operator', () => {
+    const prefixes = Object.values(NIGERIAN_MOBILE_PREFIXES).flat();
+
+    expect(new Set(prefixes).size).toBe(prefixes.length);
+  });
+});
+
+describe('isNigerianMobilePhone', () => {
+  it('should accept allocated mobile ranges only', () => {
+    expect(isNigerianMobilePhone('08061234567')).toBe(true);
+    expect(isNigerianMobilePhone('08012345678')).toBe(false);
+    expect(isNigerianMobilePhone('not a number')).toBe(false);
+  });
+});
+
+describe('createNigerianPhoneSchema', () => {
+  it('should accept any Nigerian number by default', () => {
+    expect(NigerianPhoneSchema.safeParse('08012345678').success).toBe(true);
+  });
+
+  it('should require a mobile range in strict mode', () => {
+    const strict = createNigerianPhoneSchema({ strict: true });
+
+    expect(strict.safeParse('08031234567').success).toBe(true);
+    expect(strict.safeParse('08012345678').success).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Nigerian mobile number ranges and operator detection
+ *
+ * Prefixes follow the NCC national numbering plan allocations, written in
+ * national format (leading 0). Most ranges are allocated by 4-digit prefix;
+ * a few 0702x ranges are split by 5-digit prefix and take precedence.
+ * Ported numbers keep their original prefix, so the detected network is the
+ * allocating operator, which may differ from the current one.
+ */
+
+import { NigerianPhone } from './types';
+import { normalizeNigerianPhone } from './phone-utils';
+
+/**
+ * Nigerian mobile network operators
+ */
+export type NigerianNetwork = 'MTN' | 'Airtel' | 'Glo' | '9mobile' | 'Ntel' | 'Smile';
+
+/**
+ * Allocated mobile prefixes by operator
+ */
+export const NIGERIAN_MOBILE_PREFIXES: Record<NigerianNetwork, readonly string[]> = {
+  MTN: [
+    '0703', '0704', '0706', '07025', '07026', '0803', '0806', '0810', '0813', '0814', '0816',
+    '0903', '0906', '0913', '0916',
+  ],
+  Airtel: ['0701', '0708', '0802', '0808', '0812', '0901', '0902', '0904', '0907', '0911', '0912'],
+  Glo: ['0705', '0805', '0807', '0811', '0815', '0905', '0915'],
+  '9mobile': ['0809', '0817', '0818', '0908', '0909'],
+  Ntel: ['0804'],
+  Smile: ['07020'],
+};
+
+/**
+ * Details of a Nigerian phone number
+ */
+export interface NigerianPhoneInfo {
+  /**
+   * E.164 format
+   */
+  phone: NigerianPhone;
+  /**
+   * Matched allocation prefix in national format (e.g., 0803), or the first
+   * four national digits if no mobile range matched
+   */
+  prefix: string;
+  /**
+   * Allocating operator; undefined if the number is not in a mobile range
+   */
+  network?: NigerianNetwork;
+}
+
+const networksByPrefix: Map<string, NigerianNetwork> = new Map();
+for (const [network, prefixes] of Object.entries(NIGERIAN_MOBILE_PREFIXES)) {
+  for (const prefix of prefixes) {
+    networksByPrefix.set(prefix, network as NigerianNetwork);
+  }
+}
+
+/**
+ * Look up the number range and operator of a Nigerian phone number
+ * @param phone Nigerian phone number in any accepted format
+ * @throws InvalidPhoneError if the input is not a valid Nigerian phone number
+ */
+export function getNigerianPhoneInfo(phone: string): NigerianPhoneInfo {
+  const normalized = normalizeNigerianPhone(phone);
+  const national = `0${normalized.substring(4)}`;
+
+  for (const length of [5, 4]) {
+    const prefix = national.substring(0, length);
+    const network = networksByPrefix.get(prefix);
+    if (network) {
+      return { phone: normalized, prefix, network };
+    }
+  }
+
+  return { phone: normalized, prefix: national.substring(0, 4) };
+}
+
+/**
+ * Check that a string is a Nigerian number in an allocated mobile range
+ */
+export function isNigerianMobilePhone(input: string): boolean {
+  try {
+    return getNigerianPhoneInfo(input).network !== undefined;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * OIDC Identity Provider Tests
+ *
+ * Runs the provider against a local mock issuer serving discovery and JWKS.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { OidcIdentityProvider, OidcProviderConfig, OidcClaims } from './oidc-provider';
+import { IdentityService } from './identity-service';
+import { InMemoryUserStorage, InMemorySessionStorage } from './storage';
+import { signJwt, JwtAlgorithm } from './jwt';
+import { NoActiveTenantError, NotConfiguredError, UserExistsError } from './errors';
+
+interface IssuerKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  privateKey: KeyObject;
+  jwk: Record<string, unknown>;
+}
+
+const createKey = (kid: string, algorithm: JwtAlgorithm): IssuerKey => {
+  const { privateKey, publicKey } = algorithm === 'EdDSA'
+    ? generateKeyPairSync('ed25519')
+    : generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid, algorithm, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' } };
+};
+
+describe('OidcIdentityProvider', () => {
+  let server: Server;
+  let issuer: string;
+  let requests: string[];
+  let keys: IssuerKey[];
+  let discoveryIssuer: string | undefined;
+  let rsaKey: IssuerKey;
+  let edKey: IssuerKey;
+
+  const createProvider = (overrides: Partial<OidcProviderConfig> = {}): OidcIdentityProvider =>
+    new OidcIdentityProvider({ issuer, ...overrides });
+
+  const signToken = (claims: Record<string, unknown> = {}, key: IssuerKey = rsaKey): string => {
+    const now = Math.floor(Date.now() / 1000);
+    return signJwt(
+      { iss: issuer, sub: 'user_1', aud: 'app', iat: now, exp: now + 60, tenant_id: 'tenant_1', ...claims },
+      { kid: key.kid, algorithm: key.algorithm, privateKey: key.privateKey }
+    );
+  };
+
+  beforeAll(async () => {
+    rsaKey = createKey('rsa_1', 'RS256');
+    edKey = createKey('ed_1', 'EdDSA');
+
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      requests.push(req.url || '/');
+
+      let body: unknown;
+      if (req.url === '/.well-known/openid-configuration') {
+        body = { issuer: discoveryIssuer ?? issuer, jwks_uri: `${issuer}/keys` };
+      } else if (req.url === '/keys') {
+        body = { keys: keys.map(key => key.jwk) };
+      }
+
+      res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(body ? JSON.stringify(body) : '');
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    keys = [rsaKey, edKey];
+    discoveryIssuer = undefined;
+  });
+
+  describe('verifySession', () => {
+    it('should discover the JWKS and verify RS256 tokens', async () => {
+      const provider = createProvider();
+
+      const claims = await provider.verifySession(signToken());
+
+      expect(claims).toMatchObject({ iss: issuer, sub: 'user_1', tenant_id: 'tenant_1' });
+      expect(requests).toEqual(['/.well-known/openid-configuration', '/keys']);
+    });
+
+    it('should verify EdDSA tokens', async () => {
+      const provider = createProvider();
+
+      expect(await provider.verifySession(signToken({}, edKey))).toMatchObject({ sub: 'user_1' });
+    });
+
+    it('should cache the discovery document and keys', async () => {
+      const provider = createProvider();
+
+      await provider.verifySession(signToken());
+      await provider.verifySession(signToken({}, edKey));
+
+      expect(requests).toHaveLength(2);
+    });
+
+    it('should refetch keys when the issuer rotates them', async () => {
+      const provider = createProvider();
+      await provider.verifySession(signToken());
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 11 * 1000);
+
+      try {
+        const rotated = createKey('rsa_2', 'RS256');
+        keys = [rotated];
+
+        expect(await provider.verifySession(signToken({}, rotated))).not.toBeNull();
+        expect(requests).toHaveLength(4);
+      } finally {
+        dateSpy.mockRestore();
+      }
+    });
+
+    it('should reject tokens signed by an unknown key', async () => {
+      const provider = createProvider();
+      const unknown = createKey('rsa_unknown', 'RS256');
+
+      expect(await provider.verifySession(signToken({}, unknown))).toBeNull();
+    });
+
+    it('should reject tokens from another issuer', async () => {
+      const provider = createProvider();
+
+      expect(await provider.verifySession(signToken({ iss: 'https://evil.example.com' }))).toBeNull();
+    });
+
+    it('should reject a discovery document for another issuer', async () => {
+      discoveryIssuer = 'https://evil.example.com';
+      const provider = createProvider();
+
+      expect(await provider.verifySession(signToken())).toBeNull();
+    });
+
+    it('should enforce the audience', async () => {
+      const provider = createProvider({ audience: ['app', 'other'] });
+
+      expect(await provider.verifySession(signToken({ aud: ['other', 'api'] }))).not.toBeNull();
+      expect(await provider.verifySession(signToken({ aud: 'api' }))).toBeNull();
+      expect(await provider.verifySession(signToken({ aud: undefined }))).toBeNull();
+    });
+
+    it('should reject expired and not yet valid tokens, allowing clock skew', async () => {
+      const provider = createProvider({ clockSkewSeconds: 30 });
+      const now = Math.floor(Date.now() / 1000);
+
+      expect(await provider.verifySession(signToken({ exp: now - 10 }))).not.toBeNull();
+      expect(await provider.verifySession(signToken({ exp: now - 60 }))).toBeNull();
+      expect(await provider.verifySession(signToken({ nbf: now + 60 }))).toBeNull();
+      expect(await provider.verifySession(signToken({ iat: now + 60 }))).toBeNull();
+    });
+
+    it('should reject malformed tokens and tokens missing required claims', async () => {
+      const provider = createProvider();
+
+      expect(await provider.verifySession('not-a-jwt')).toBeNull();
+      expect(await provider.verifySession(signToken({ sub: undefined }))).toBeNull();
+    });
+
+    it('should return null when the issuer is unavailable', async () => {
+      const provider = createProvider({ issuer: `${issuer}/missing` });
+
+      expect(await provider.verifySession(signToken({ iss: `${issuer}/missing` }))).toBeNull();
+    });
+
+    it('should back off after failing to fetch keys', async () => {
+      const provider = createProvider({ issuer: `${issuer}/missing` });
+      const token = signToken({ iss: `${issuer}/missing` });
+      const start = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(start);
+
+      try {
+        await provider.verifySession(token);
+        await provider.verifySession(token);
+        expect(requests).toHaveLength(1);
+
+        dateSpy.mockReturnValue(start + 11 * 1000);
+        await provider.verifySession(token);
+        expect(requests).toHaveLength(2);
+
+        // The second failure doubles the wait
+        dateSpy.mockReturnValue(start + 22 * 1000);
+        await provider.verifySession(token);
+        expect(requests).toHaveLength(2);
+
+        dateSpy.mockReturnValue(start + 32 * 1000);
+        await provider.verifySession(token);
+        expect(requests).toHaveLength(3);
+      } finally {
+        dateSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('toSessionContext', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const baseClaims: OidcClaims = { iss: 'https://issuer.example.com', sub: 'user_1', iat: now, exp: now + 60 };
+
+    it('should map default claims', async () => {
+      const provider = createProvider();
+
+      const context = await provider.toSessionContext({
+        ...baseClaims,
+        sid: 'sess_1',
+        tenant_id: 'tenant_1',
+        roles: ['admin'],
+        permissions: 'users:read users:write',
+      });
+
+      expect(context).toEqual({
+        sessionId: 'sess_1',
+        userId: 'user_1',
+        tenantId: 'tenant_1',
+        roles: ['admin'],
+        permissions: ['users:read', 'users:write'],
+        issuedAt: new Date(now * 1000),
+        expiresAt: new Date((now + 60) * 1000),
+      });
+    });
+
+    it('should map configured and nested claims', async () => {
+      const provider = createProvider({
+        claims: { tenantId: 'org.id', roles: 'realm_access.roles', sessionId: 'session_state' },
+      });
+
+      const context = await provider.toSessionContext({
+        ...baseClaims,
+        org: { id: 'tenant_2' },
+        realm_access: { roles: ['member', 'billing'] },
+        session_state: 'state_1',
+      });
+
+      expect(context).toMatchObject({ tenantId: 'tenant_2', roles: ['member', 'billing'], sessionId: 'state_1' });
+    });
+
+    it('should fall back to jti and then subject and issue time for the session ID', async () => {
+      const provider = createProvider({ tenantId: 'tenant_1' });
+
+      expect((await provider.toSessionContext({ ...baseClaims, jti: 'jti_1' }))?.sessionId).toBe('jti_1');
+      expect((await provider.toSessionContext(baseClaims))?.sessionId).toBe(`user_1:${now}`);
+    });
+
+    it('should use the fallback tenant only without a tenant claim', async () => {
+      const provider = createProvider({ tenantId: 'tenant_default' });
+
+      expect((await provider.toSessionContext(baseClaims))?.tenantId).toBe('tenant_default');
+      expect((await provider.toSessionContext({ ...baseClaims, tenant_id: 'tenant_1' }))?.tenantId).toBe('tenant_1');
+    });
+
+    it('should return null without a tenant', async () => {
+      const provider = createProvider();
+
+      expect(await provider.toSessionContext(baseClaims)).toBeNull();
+    });
+  });
+
+  it('should require an issuer', () => {
+    expect(() => new OidcIdentityProvider({ issuer: '' })).toThrow('OIDC issuer is required');
+  });
+
+  describe('IdentityService with OIDC', () => {
+    let sessionStorage: InMemorySessionStorage;
+    let service: IdentityService;
+
+    beforeEach(() => {
+      sessionStorage = new InMemorySessionStorage();
+      service = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage,
+        identityProvider: createProvider({ audience: 'app' }),
+      });
+    });
+
+    it('should resolve identity for a local user keyed by subject', async () => {
+      await service.createUserForSubject('user_1', { tenantId: 'tenant_1', phone: '+2348012345678' });
+
+      const identity = await service.resolveIdentity(signToken({ roles: ['admin'] }));
+
+      expect(identity).toMatchObject({
+        userId: 'user_1',
+        tenantId: 'tenant_1',
+        roles: ['admin'],
+        profile: { phone: '+2348012345678' },
+      });
+    });
+
+    it('should join the identity of a subject already in another tenant', async () => {
+      await service.createUserForSubject('user_1', { tenantId: 'tenant_1', phone: '+2348012345678' });
+
+      const created = await service.createUserForSubject('user_1', { tenantId: 'tenant_2', phone: '+2348012345678' });
+
+      expect(created.userId).toBe('user_1');
+      expect((await service.getGlobalIdentity('user_1'))?.memberships.map(m => m.tenantId)).toEqual(['tenant_1', 'tenant_2']);
+      await expect(
+        service.createUserForSubject('user_1', { tenantId: 'tenant_2', phone: '+2348098765432' })
+      ).rejects.toThrow(UserExistsError);
+    });
+
+    it('should reject a phone number held by another identity', async () => {
+      await service.createUser({ tenantId: 'tenant_1', phone: '+2348012345678' });
+
+      await expect(
+        service.createUserForSubject('user_1', { tenantId: 'tenant_2', phone: '+2348012345678' })
+      ).rejects.toThrow(UserExistsError);
+    });
+
+    it('should only accept subjects with a provider without a user directory', async () => {
+      const standalone = new IdentityService({
+        userStorage: new InMemoryUserStorage(),
+        sessionStorage: new InMemorySessionStorage(),
+      });
+
+      await expect(
+        standalone.createUserForSubject('user_1', { tenantId: 'tenant_1', phone: '+2348012345678' })
+      ).rejects.toThrow(NotConfiguredError);
+    });
+
+    it('should report sessions without a tenant', async () => {
+      const token = signToken({ tenant_id: undefined });
+
+      expect(await service.validateSession(token)).toMatchObject({ valid: false, code: 'NO_ACTIVE_TENANT' });
+      await expect(service.assertTenantContext(token)).rejects.toThrow(NoActiveTenantError);
+    });
+
+    it('should reject revoked sessions', async () => {
+      const token = signToken({ sid: 'sess_1' });
+      await sessionStorage.revokeSession('sess_1', new Date(Date.now() + 60 * 1000));
+
+      expect(await service.validateSession(token)).toMatchObject({ valid: false, reason: 'Session revoked' });
+    });
+
+    it('should leave tenant switching to the provider', async () => {
+      await expect(
+        service.switchTenant(signToken(), { tenantId: 'tenant_2', credential: 'secret-password' })
+      ).rejects.toThrow(NotConfiguredError);
+    });
+  });
+});
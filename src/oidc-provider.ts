@@ -0,0 +1,324 @@
+/**
+ * Generic OpenID Connect identity provider
+ *
+ * Verifies JWTs issued by any OIDC-compliant issuer:
+ * - The JWKS location is discovered from `${issuer}/.well-known/openid-configuration`.
+ * - Tokens are verified locally against the issuer's JWKS (RS256 and EdDSA).
+ *   Keys are cached and refetched when a token carries an unknown `kid`.
+ * - Tenant, roles, permissions and session ID are read from configurable
+ *   claims; dotted paths reach into nested claims.
+ *
+ * The provider has no user directory, so users live in the service's
+ * UserStorage under the token subject (create them with
+ * `IdentityService.createUserForSubject(sub, ...)`).
+ */
+
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { TenantId, SessionContext } from './types';
+import { IdentityProvider } from './identity-provider';
+import { FetchLike } from './clerk-backend-adapter';
+import { decodeJwt, verifyJwtSignature, JwtAlgorithm } from './jwt';
+import { NotConfiguredError, ProviderError } from './errors';
+
+/**
+ * Claims that hold the session's tenant, roles, permissions and session ID
+ *
+ * Values are claim names or dotted paths into nested claims (for example
+ * `realm_access.roles`).
+ */
+export interface OidcClaimMapping {
+  tenantId?: string;
+  roles?: string;
+  permissions?: string;
+  sessionId?: string;
+}
+
+/**
+ * Default claim mapping
+ */
+export const DEFAULT_OIDC_CLAIM_MAPPING: Required<OidcClaimMapping> = {
+  tenantId: 'tenant_id',
+  roles: 'roles',
+  permissions: 'permissions',
+  sessionId: 'sid',
+};
+
+/**
+ * OIDC provider configuration
+ */
+export interface OidcProviderConfig {
+  /**
+   * Issuer URL; must match the `iss` claim and the discovery document
+   */
+  issuer: string;
+
+  /**
+   * Accepted `aud` values; when set, tokens for other audiences are rejected
+   */
+  audience?: string | string[];
+
+  /**
+   * Where to find tenant, roles, permissions and session ID in the claims
+   */
+  claims?: OidcClaimMapping;
+
+  /**
+   * Tenant of tokens without a tenant claim; without it such sessions have no active tenant
+   */
+  tenantId?: TenantId;
+
+  /**
+   * Tolerance applied to `exp`, `nbf` and `iat` checks (default 5 seconds)
+   */
+  clockSkewSeconds?: number;
+
+  /**
+   * How long the discovery document and signing keys are trusted (default 1 hour)
+   */
+  jwksCacheTtlMs?: number;
+
+  fetch?: FetchLike;
+}
+
+/**
+ * Verified OIDC token claims
+ */
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud?: string | string[];
+  iat: number;
+  exp: number;
+  nbf?: number;
+  sid?: string;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+interface OidcSigningKey {
+  algorithm: JwtAlgorithm;
+  publicKey: KeyObject;
+}
+
+const MIN_JWKS_REFETCH_INTERVAL_MS = 10 * 1000;
+const MAX_JWKS_REFETCH_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Read a claim by name or dotted path
+ */
+function getClaim(claims: Record<string, unknown>, path: string): unknown {
+  if (path in claims) return claims[path];
+
+  let value: unknown = claims;
+  for (const segment of path.split('.')) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Read a list claim, given either as an array or a space-separated string (like `scope`)
+ */
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+  if (typeof value === 'string') return value.split(' ').filter(Boolean);
+  return [];
+}
+
+/**
+ * Map a JWK to a verification key, or null for unsupported key types
+ */
+function toSigningKey(jwk: JsonWebKey & { alg?: string; use?: string }): OidcSigningKey | null {
+  if (jwk.use && jwk.use !== 'sig') return null;
+
+  let algorithm: JwtAlgorithm;
+  if (jwk.kty === 'RSA') {
+    algorithm = 'RS256';
+  } else if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    algorithm = 'EdDSA';
+  } else {
+    return null;
+  }
+  if (jwk.alg && jwk.alg !== algorithm) return null;
+
+  try {
+    return { algorithm, publicKey: createPublicKey({ key: jwk, format: 'jwk' }) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * OpenID Connect identity provider
+ */
+export class OidcIdentityProvider implements IdentityProvider<OidcClaims> {
+  readonly name = 'oidc';
+  private issuer: string;
+  private audiences: string[];
+  private claimMapping: Required<OidcClaimMapping>;
+  private tenantId?: TenantId;
+  private clockSkewSeconds: number;
+  private jwksCacheTtlMs: number;
+  private fetchFn: FetchLike;
+
+  private signingKeys: Map<string, OidcSigningKey> = new Map();
+  private signingKeysFetchedAt = 0;
+  private signingKeysAttemptedAt = 0;
+  private signingKeysFailures = 0;
+  private signingKeysRequest?: Promise<void>;
+
+  constructor(config: OidcProviderConfig) {
+    if (!config.issuer) {
+      throw new NotConfiguredError('OIDC issuer is required');
+    }
+
+    this.issuer = config.issuer.replace(/\/+$/, '');
+    this.audiences = config.audience === undefined ? [] : ([] as string[]).concat(config.audience);
+    this.claimMapping = { ...DEFAULT_OIDC_CLAIM_MAPPING, ...config.claims };
+    this.tenantId = config.tenantId;
+    this.clockSkewSeconds = config.clockSkewSeconds ?? 5;
+    this.jwksCacheTtlMs = config.jwksCacheTtlMs ?? 60 * 60 * 1000;
+    this.fetchFn = config.fetch || fetch;
+  }
+
+  async verifySession(sessionToken: string): Promise<OidcClaims | null> {
+    const decoded = decodeJwt(sessionToken);
+    if (!decoded || !decoded.header.kid) {
+      return null;
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+    if (!key || !verifyJwtSignature(decoded, { kid: decoded.header.kid, ...key })) {
+      return null;
+    }
+
+    const claims = decoded.payload;
+    if (
+      typeof claims.iss !== 'string' ||
+      typeof claims.sub !== 'string' ||
+      typeof claims.iat !== 'number' ||
+      typeof claims.exp !== 'number'
+    ) {
+      return null;
+    }
+
+    if (claims.iss.replace(/\/+$/, '') !== this.issuer) return null;
+
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.exp + this.clockSkewSeconds < now) return null;
+    if (claims.iat - this.clockSkewSeconds > now) return null;
+    if (typeof claims.nbf === 'number' && claims.nbf - this.clockSkewSeconds > now) return null;
+
+    if (this.audiences.length > 0) {
+      const audiences = toStringList(claims.aud);
+      if (!audiences.some(aud => this.audiences.includes(aud))) return null;
+    }
+
+    return claims as OidcClaims;
+  }
+
+  /**
+   * Map verified claims to a session
+   *
+   * The session ID is the mapped session claim, falling back to `jti` and
+   * then to the subject and issue time.
+   */
+  async toSessionContext(claims: OidcClaims): Promise<SessionContext | null> {
+    const tenantClaim = getClaim(claims, this.claimMapping.tenantId);
+    const tenantId = typeof tenantClaim === 'string' && tenantClaim ? tenantClaim : this.tenantId;
+    if (!tenantId) return null;
+
+    const sessionClaim = getClaim(claims, this.claimMapping.sessionId);
+    const sessionId = typeof sessionClaim === 'string' && sessionClaim
+      ? sessionClaim
+      : claims.jti || `${claims.sub}:${claims.iat}`;
+
+    const permissions = toStringList(getClaim(claims, this.claimMapping.permissions));
+
+    return {
+      sessionId,
+      userId: claims.sub,
+      tenantId,
+      roles: toStringList(getClaim(claims, this.claimMapping.roles)),
+      permissions: permissions.length > 0 ? permissions : undefined,
+      issuedAt: new Date(claims.iat * 1000),
+      expiresAt: new Date(claims.exp * 1000),
+    };
+  }
+
+  /**
+   * Get a JWKS signing key, refetching the key set if the kid is unknown or stale
+   *
+   * Failed fetches back off exponentially from the refetch interval, so an
+   * unavailable issuer is not asked again on every token.
+   */
+  private async getSigningKey(kid: string): Promise<OidcSigningKey | null> {
+    const now = Date.now();
+    const age = now - this.signingKeysFetchedAt;
+    const stale = age > this.jwksCacheTtlMs;
+    // Unknown kids only trigger a refetch occasionally, so forged tokens cannot hammer the issuer
+    const unknown = !this.signingKeys.has(kid) && age > MIN_JWKS_REFETCH_INTERVAL_MS;
+    const backoff = this.signingKeysFailures === 0
+      ? 0
+      : Math.min(MIN_JWKS_REFETCH_INTERVAL_MS * 2 ** (this.signingKeysFailures - 1), MAX_JWKS_REFETCH_BACKOFF_MS);
+
+    if ((stale || unknown) && now - this.signingKeysAttemptedAt >= backoff) {
+      try {
+        await this.refreshSigningKeys();
+      } catch {
+        // Keep serving previously fetched keys if the issuer is unavailable
+      }
+    }
+
+    return this.signingKeys.get(kid) || null;
+  }
+
+  private refreshSigningKeys(): Promise<void> {
+    if (!this.signingKeysRequest) {
+      this.signingKeysAttemptedAt = Date.now();
+      this.signingKeysRequest = this.fetchSigningKeys()
+        .then(
+          () => {
+            this.signingKeysFailures = 0;
+          },
+          err => {
+            this.signingKeysFailures++;
+            throw err;
+          }
+        )
+        .finally(() => {
+          this.signingKeysRequest = undefined;
+        });
+    }
+    return this.signingKeysRequest;
+  }
+
+  private async fetchSigningKeys(): Promise<void> {
+    const discovery = await this.fetchJson<{ issuer?: string; jwks_uri?: string }>(
+      `${this.issuer}/.well-known/openid-configuration`
+    );
+    if (discovery.issuer?.replace(/\/+$/, '') !== this.issuer || !discovery.jwks_uri) {
+      throw new ProviderError(`Invalid discovery document for ${this.issuer}`);
+    }
+
+    const jwks = await this.fetchJson<{ keys?: Array<JsonWebKey & { kid?: string }> }>(discovery.jwks_uri);
+
+    const keys = new Map<string, OidcSigningKey>();
+    for (const jwk of jwks.keys || []) {
+      const key = jwk.kid ? toSigningKey(jwk) : null;
+      if (jwk.kid && key) keys.set(jwk.kid, key);
+    }
+
+    this.signingKeys = keys;
+    this.signingKeysFetchedAt = Date.now();
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const response = await this.fetchFn(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new ProviderError(`GET ${url} failed with status ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+}
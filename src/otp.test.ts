@@ -0,0 +1,36 @@
+import { generateOtpCode, generateOtpSalt, hashOtpCode, verifyOtpCode, InMemorySmsSender } from './otp';
+
+describe('generateOtpCode', () => {
+  it('should generate numeric codes of the requested length', () => {
+    expect(generateOtpCode(6)).toMatch(/^\d{6}$/);
+    expect(generateOtpCode(4)).toMatch(/^\d{4}$/);
+  });
+});
+
+describe('verifyOtpCode', () => {
+  it('should match a code against its salted hash', () => {
+    const salt = generateOtpSalt();
+    const hash = hashOtpCode('123456', salt);
+
+    expect(verifyOtpCode('123456', salt, hash)).toBe(true);
+    expect(verifyOtpCode('654321', salt, hash)).toBe(false);
+    expect(verifyOtpCode('123456', generateOtpSalt(), hash)).toBe(false);
+  });
+});
+
+describe('InMemorySmsSender', () => {
+  it('should capture messages per recipient', async () => {
+    const sender = new InMemorySmsSender();
+
+    await sender.sendSms('+2348012345678', 'first');
+    await sender.sendSms('+2348087654321', 'other');
+    await sender.sendSms('+2348012345678', 'second');
+
+    expect(sender.messages).toHaveLength(3);
+    expect(sender.lastMessageTo('+2348012345678')?.message).toBe('second');
+    expect(sender.lastMessageTo('+2348000000000')).toBeUndefined();
+
+    sender.clear();
+    expect(sender.messages).toHaveLength(0);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * One-time passcode (OTP) primitives for phone login
+ *
+ * Codes are numeric, generated with a CSPRNG and stored only as a salted
+ * SHA-256 hash. Delivery is delegated to a pluggable SmsSender.
+ */
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { PhoneNumber } from './types';
+
+/**
+ * SMS delivery interface - implement this for your SMS gateway
+ */
+export interface SmsSender {
+  sendSms(to: PhoneNumber, message: string): Promise<void>;
+}
+
+/**
+ * OTP flow configuration
+ */
+export interface OtpConfig {
+  codeLength?: number;
+  ttlMs?: number;
+  maxAttempts?: number;
+  resendCooldownMs?: number;
+  messageTemplate?: (code: string) => string;
+}
+
+/**
+ * SMS captured by InMemorySmsSender
+ */
+export interface SentSms {
+  to: PhoneNumber;
+  message: string;
+  sentAt: Date;
+}
+
+/**
+ * Default OTP settings
+ */
+export const DEFAULT_OTP_CONFIG: Required<OtpConfig> = {
+  codeLength: 6,
+  ttlMs: 5 * 60 * 1000,
+  maxAttempts: 5,
+  resendCooldownMs: 60 * 1000,
+  messageTemplate: (code: string) => `Your WebWaka verification code is ${code}`,
+};
+
+/**
+ * In-memory SMS sender for testing
+ *
+ * Captures every message instead of delivering it.
+ */
+export class InMemorySmsSender implements SmsSender {
+  readonly messages: SentSms[] = [];
+
+  async sendSms(to: PhoneNumber, message: string): Promise<void> {
+    this.messages.push({ to, message, sentAt: new Date() });
+  }
+
+  /**
+   * Get the most recent message sent to a phone number
+   */
+  lastMessageTo(phone: PhoneNumber): SentSms | undefined {
+    for (let i = this.messages.length - 1; i >= 0; i--) {
+      if (this.messages[i].to === phone) return this.messages[i];
+    }
+    return undefined;
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+/**
+ * Generate a numeric one-time passcode
+ * @param length Number of digits
+ */
+export function generateOtpCode(length: number): string {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += randomInt(0, 10).toString();
+  }
+  return code;
+}
+
+/**
+ * Generate a random salt for hashing an OTP code
+ */
+export function generateOtpSalt(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Hash an OTP code with its salt
+ */
+export function hashOtpCode(code: string, salt: string): string {
+  return createHash('sha256').update(`${salt}:${code}`).digest('hex');
+}
+
+/**
+ * Compare an OTP code to a stored hash in constant time
+ */
+export function verifyOtpCode(code: string, salt: string, codeHash: string): boolean {
+  const actual = Buffer.from(hashOtpCode(code, salt), 'hex');
+  const expected = Buffer.from(codeHash, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,94 @@
+/**
+ * Pagination Tests
+ */
+
+import {
+  encodeCursor,
+  decodeKeysetCursor,
+  decodeOffsetCursor,
+  matchesUserFilters,
+  paginateByCreatedAt,
+} from './pagination';
+import { InvalidCursorError } from './errors';
+import { UserProfile } from './types';
+
+const profile = (overrides: Partial<UserProfile>): UserProfile => ({
+  userId: 'user_1',
+  tenantId: 'tenant_1',
+  phone: '+2348012345678',
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+});
+
+describe('cursors', () => {
+  it('should round-trip keyset and offset cursors', () => {
+    const keyset = encodeCursor({ createdAt: 1000, id: 'user_1', order: 'asc' });
+    const offset = encodeCursor({ offset: 40, order: 'desc' });
+
+    expect(decodeKeysetCursor(keyset, 'asc')).toEqual({ createdAt: 1000, id: 'user_1', order: 'asc' });
+    expect(decodeOffsetCursor(offset, 'desc')).toEqual({ offset: 40, order: 'desc' });
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeKeysetCursor('garbage', 'asc')).toThrow(InvalidCursorError);
+    expect(() => decodeOffsetCursor(encodeCursor({ createdAt: 1, id: 'x', order: 'asc' }), 'asc')).toThrow(InvalidCursorError);
+    expect(() => decodeOffsetCursor(encodeCursor({ offset: -1, order: 'asc' }), 'asc')).toThrow(InvalidCursorError);
+  });
+
+  it('should reject cursors issued for another sort order', () => {
+    const cursor = encodeCursor({ offset: 10, order: 'asc' });
+
+    expect(() => decodeOffsetCursor(cursor, 'desc')).toThrow(InvalidCursorError);
+  });
+});
+
+describe('matchesUserFilters', () => {
+  const user = profile({ displayName: 'Ada Obi', email: 'Ada@Acme.ng', metadata: { plan: 'pro' } });
+
+  it('should match with no filters', () => {
+    expect(matchesUserFilters(user, {})).toBe(true);
+  });
+
+  it('should match filters case-insensitively', () => {
+    expect(matchesUserFilters(user, { displayNamePrefix: 'ada' })).toBe(true);
+    expect(matchesUserFilters(user, { emailDomain: 'acme.NG' })).toBe(true);
+    expect(matchesUserFilters(user, { metadataKey: 'plan' })).toBe(true);
+  });
+
+  it('should reject users missing the filtered field', () => {
+    const bare = profile({});
+
+    expect(matchesUserFilters(bare, { displayNamePrefix: 'a' })).toBe(false);
+    expect(matchesUserFilters(bare, { emailDomain: 'acme.ng' })).toBe(false);
+    expect(matchesUserFilters(bare, { metadataKey: 'plan' })).toBe(false);
+  });
+
+  it('should not treat a domain suffix as a match', () => {
+    expect(matchesUserFilters(profile({ email: 'ada@notacme.ng' }), { emailDomain: 'acme.ng' })).toBe(false);
+  });
+});
+
+describe('paginateByCreatedAt', () => {
+  const items = [
+    { id: 'c', createdAt: 2 },
+    { id: 'a', createdAt: 1 },
+    { id: 'b', createdAt: 2 },
+  ];
+  const positionOf = (item: { id: string; createdAt: number }): { id: string; createdAt: number } => item;
+
+  it('should sort by createdAt and break ties by ID', () => {
+    expect(paginateByCreatedAt(items, {}, positionOf).items.map(i => i.id)).toEqual(['a', 'b', 'c']);
+    expect(paginateByCreatedAt(items, { order: 'desc' }, positionOf).items.map(i => i.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('should resume after the cursor position', () => {
+    const page1 = paginateByCreatedAt(items, { limit: 2 }, positionOf);
+    const page2 = paginateByCreatedAt(items, { limit: 2, cursor: page1.nextCursor }, positionOf);
+
+    expect(page1.items.map(i => i.id)).toEqual(['a', 'b']);
+    expect(page1.total).toBe(3);
+    expect(page2.items.map(i => i.id)).toEqual(['c']);
+    expect(page2.nextCursor).toBeUndefined();
+  });
+});
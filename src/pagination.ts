@@ -0,0 +1,150 @@
+/**
+ * Cursor pagination helpers for user listings
+ *
+ * Cursors are opaque base64url-encoded JSON. Backends that can sort locally
+ * use keyset cursors (the `createdAt` and ID of the last item returned), which
+ * stay stable when users are added or removed between pages. Backends that
+ * only page by offset, such as the Clerk Backend API, encode an offset instead.
+ */
+
+import { ListUsersOptions, Page, SortOrder, UserProfile } from './types';
+import { InvalidCursorError } from './errors';
+
+/**
+ * Page size used when no limit is given
+ */
+export const DEFAULT_PAGE_LIMIT = 100;
+
+/**
+ * Position after the last item of a page, for keyset pagination
+ */
+export interface KeysetCursor {
+  createdAt: number;
+  id: string;
+  order: SortOrder;
+}
+
+/**
+ * Position after the last item of a page, for offset pagination
+ */
+export interface OffsetCursor {
+  offset: number;
+  order: SortOrder;
+}
+
+/**
+ * Encode a cursor position as an opaque string
+ */
+export function encodeCursor(position: KeysetCursor | OffsetCursor): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursorPayload(cursor: string, order: SortOrder): Record<string, unknown> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (!payload || typeof payload !== 'object') throw new InvalidCursorError();
+
+  const record = payload as Record<string, unknown>;
+  // A cursor from an ascending listing is meaningless in a descending one
+  if (record.order !== order) throw new InvalidCursorError();
+
+  return record;
+}
+
+/**
+ * Decode a keyset cursor
+ * @throws InvalidCursorError if the cursor is malformed or was issued for another sort order
+ */
+export function decodeKeysetCursor(cursor: string, order: SortOrder): KeysetCursor {
+  const payload = decodeCursorPayload(cursor, order);
+  if (typeof payload.createdAt !== 'number' || typeof payload.id !== 'string') {
+    throw new InvalidCursorError();
+  }
+  return { createdAt: payload.createdAt, id: payload.id, order };
+}
+
+/**
+ * Decode an offset cursor
+ * @throws InvalidCursorError if the cursor is malformed or was issued for another sort order
+ */
+export function decodeOffsetCursor(cursor: string, order: SortOrder): OffsetCursor {
+  const payload = decodeCursorPayload(cursor, order);
+  if (typeof payload.offset !== 'number' || !Number.isInteger(payload.offset) || payload.offset < 0) {
+    throw new InvalidCursorError();
+  }
+  return { offset: payload.offset, order };
+}
+
+/**
+ * Check whether any user filters are set
+ */
+export function hasUserFilters(options: ListUsersOptions): boolean {
+  return !!(options.displayNamePrefix || options.emailDomain || options.metadataKey);
+}
+
+/**
+ * Check a user against the filters in a listing request
+ *
+ * Display name prefixes and email domains match case-insensitively.
+ */
+export function matchesUserFilters(user: UserProfile, options: ListUsersOptions): boolean {
+  if (options.displayNamePrefix) {
+    const prefix = options.displayNamePrefix.toLowerCase();
+    if (!user.displayName?.toLowerCase().startsWith(prefix)) return false;
+  }
+
+  if (options.emailDomain) {
+    const domain = `@${options.emailDomain.toLowerCase()}`;
+    if (!user.email?.toLowerCase().endsWith(domain)) return false;
+  }
+
+  if (options.metadataKey) {
+    if (!user.metadata || !Object.prototype.hasOwnProperty.call(user.metadata, options.metadataKey)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Sort already-filtered items by creation time and return the requested page
+ */
+export function paginateByCreatedAt<T>(
+  items: T[],
+  options: ListUsersOptions,
+  positionOf: (item: T) => { createdAt: number; id: string }
+): Page<T> {
+  const order = options.order ?? 'asc';
+  const limit = options.limit ?? DEFAULT_PAGE_LIMIT;
+  const direction = order === 'asc' ? 1 : -1;
+
+  const compare = (a: { createdAt: number; id: string }, b: { createdAt: number; id: string }): number => {
+    if (a.createdAt !== b.createdAt) return (a.createdAt - b.createdAt) * direction;
+    return (a.id < b.id ? -1 : a.id > b.id ? 1 : 0) * direction;
+  };
+
+  const sorted = [...items].sort((a, b) => compare(positionOf(a), positionOf(b)));
+
+  let start = 0;
+  if (options.cursor) {
+    const after = decodeKeysetCursor(options.cursor, order);
+    start = sorted.findIndex(item => compare(positionOf(item), after) > 0);
+    if (start === -1) start = sorted.length;
+  }
+
+  const pageItems = sorted.slice(start, start + limit);
+  const page: Page<T> = { items: pageItems, total: sorted.length };
+
+  if (start + limit < sorted.length) {
+    const last = positionOf(pageItems[pageItems.length - 1]);
+    page.nextCursor = encodeCursor({ ...last, order });
+  }
+
+  return page;
+}
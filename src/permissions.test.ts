@@ -0,0 +1,76 @@
+import { permissionMatches, hasPermission, resolvePermissions } from './permissions';
+import { extractTenantContext } from './clerk-adapter';
+
+describe('permissionMatches', () => {
+  it('should match exact permissions', () => {
+    expect(permissionMatches('orders:read', 'orders:read')).toBe(true);
+    expect(permissionMatches('orders:read', 'orders:write')).toBe(false);
+  });
+
+  it('should treat a lone wildcard as all permissions', () => {
+    expect(permissionMatches('*', 'orders:read')).toBe(true);
+    expect(permissionMatches('*', 'billing')).toBe(true);
+  });
+
+  it('should match remaining segments with a trailing wildcard', () => {
+    expect(permissionMatches('orders:*', 'orders:read')).toBe(true);
+    expect(permissionMatches('orders:*', 'orders:refund:partial')).toBe(true);
+    expect(permissionMatches('orders:*', 'orders')).toBe(false);
+    expect(permissionMatches('orders:*', 'inventory:read')).toBe(false);
+  });
+
+  it('should match a single segment with an inner wildcard', () => {
+    expect(permissionMatches('*:read', 'orders:read')).toBe(true);
+    expect(permissionMatches('*:read', 'orders:write')).toBe(false);
+    expect(permissionMatches('*:read', 'orders:items:read')).toBe(false);
+  });
+
+  it('should not let a shorter permission grant a longer one', () => {
+    expect(permissionMatches('orders', 'orders:read')).toBe(false);
+    expect(permissionMatches('orders:read:own', 'orders:read')).toBe(false);
+  });
+});
+
+describe('hasPermission', () => {
+  it('should check resolved permissions on a context', () => {
+    const context = { roles: ['manager'], permissions: ['orders:*', 'inventory:read'] };
+
+    expect(hasPermission(context, 'orders:refund')).toBe(true);
+    expect(hasPermission(context, 'inventory:read')).toBe(true);
+    expect(hasPermission(context, 'inventory:write')).toBe(false);
+  });
+
+  it('should deny when a context has no permissions', () => {
+    expect(hasPermission({}, 'orders:read')).toBe(false);
+  });
+
+  it('should work with Clerk-derived contexts', () => {
+    const context = extractTenantContext({
+      sub: 'user_1',
+      sid: 'sess_1',
+      org_id: 'org_1',
+      org_role: 'org:admin',
+      org_permissions: ['org:orders:*'],
+      iat: 1700000000,
+      exp: 1700003600,
+    });
+
+    expect(hasPermission(context, 'org:orders:read')).toBe(true);
+    expect(hasPermission(context, 'org:billing:read')).toBe(false);
+  });
+});
+
+describe('resolvePermissions', () => {
+  it('should union the permissions of held roles only', () => {
+    const now = new Date();
+    const definitions = [
+      { tenantId: 't1', roleId: 'cashier', permissions: ['orders:create', 'orders:read'], createdAt: now, updatedAt: now },
+      { tenantId: 't1', roleId: 'auditor', permissions: ['orders:read', 'reports:read'], createdAt: now, updatedAt: now },
+      { tenantId: 't1', roleId: 'admin', permissions: ['*'], createdAt: now, updatedAt: now },
+    ];
+
+    const permissions = resolvePermissions(['cashier', 'auditor'], definitions);
+
+    expect(permissions.sort()).toEqual(['orders:create', 'orders:read', 'reports:read']);
+  });
+});
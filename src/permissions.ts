@@ -0,0 +1,71 @@
+/**
+ * Permission matching
+ *
+ * Permissions are colon-separated segments such as `orders:refund`.
+ * Granted permissions may use `*` as a wildcard:
+ * - `*` on its own grants everything
+ * - a trailing `*` matches one or more remaining segments (`orders:*` grants
+ *   `orders:read` and `orders:refund:partial`)
+ * - `*` elsewhere matches exactly one segment (`*:read` grants `orders:read`)
+ */
+
+import { Permission, RoleDefinition, RoleId } from './types';
+
+/**
+ * Anything that carries resolved permissions (TenantContext, ClerkTenantContext, ...)
+ */
+export interface PermissionContext {
+  permissions?: Permission[];
+}
+
+/**
+ * Check whether a granted permission covers a required permission
+ */
+export function permissionMatches(granted: Permission, required: Permission): boolean {
+  if (granted === required) return true;
+
+  const grantedSegments = granted.split(':');
+  const requiredSegments = required.split(':');
+
+  for (let i = 0; i < grantedSegments.length; i++) {
+    const segment = grantedSegments[i];
+    const isLast = i === grantedSegments.length - 1;
+
+    if (segment === '*' && isLast) {
+      return requiredSegments.length > i;
+    }
+
+    if (i >= requiredSegments.length) return false;
+    if (segment !== '*' && segment !== requiredSegments[i]) return false;
+  }
+
+  return grantedSegments.length === requiredSegments.length;
+}
+
+/**
+ * Check whether a context grants a permission
+ *
+ * Pure function - works on any context with resolved permissions, whether it
+ * came from a standalone session or from extractTenantContext.
+ */
+export function hasPermission(context: PermissionContext, permission: Permission): boolean {
+  return (context.permissions || []).some(granted => permissionMatches(granted, permission));
+}
+
+/**
+ * Resolve the permissions granted by a set of roles
+ * @param roles Role identifiers held by the user
+ * @param definitions Role definitions for the tenant
+ * @returns De-duplicated permissions
+ */
+export function resolvePermissions(roles: RoleId[], definitions: RoleDefinition[]): Permission[] {
+  const permissions = new Set<Permission>();
+
+  for (const definition of definitions) {
+    if (roles.includes(definition.roleId)) {
+      definition.permissions.forEach(p => permissions.add(p));
+    }
+  }
+
+  return Array.from(permissions);
+}
@@ -1,4 +1,15 @@
-import { normalizeNigerianPhone, isValidNigerianPhone, formatNigerianPhone } from './phone-utils';
+import {
+  normalizeNigerianPhone,
+  isValidNigerianPhone,
+  formatNigerianPhone,
+  normalizePhone,
+  isValidPhone,
+  formatPhone,
+  findNumberingPlan,
+  getNumberingPlan,
+  registerNumberingPlan,
+} from './phone-utils';
+import { InvalidPhoneError, ValidationError } from './errors';
 
 describe('normalizeNigerianPhone', () => {
   it('should normalize 11-digit number starting with 0', () => {
@@ -29,6 +40,21 @@ describe('normalizeNigerianPhone', () => {
     expect(() => normalizeNigerianPhone('+1234567890')).toThrow();
     expect(() => normalizeNigerianPhone('abc')).toThrow();
   });
+
+  it('should keep accepting trunk-prefixed subscriber numbers', () => {
+    expect(normalizeNigerianPhone('+2340801234567')).toBe('+2340801234567');
+    expect(normalizeNigerianPhone('0801234567')).toBe('+2340801234567');
+  });
+
+  it('should require 10 digits after a leading 234', () => {
+    expect(() => normalizeNigerianPhone('2341234567')).toThrow(InvalidPhoneError);
+    expect(() => normalizeNigerianPhone('23480123456789')).toThrow(InvalidPhoneError);
+  });
+
+  it('should throw InvalidPhoneError without echoing the input', () => {
+    expect(() => normalizeNigerianPhone('123')).toThrow(InvalidPhoneError);
+    expect(() => normalizeNigerianPhone('0801234567890')).not.toThrow('0801234567890');
+  });
 });
 
 describe('isValidNigerianPhone', () => {
@@ -43,6 +69,10 @@ describe('isValidNigerianPhone', () => {
     expect(isValidNigerianPhone('abc')).toBe(false);
     expect(isValidNigerianPhone('+1234567890')).toBe(false);
   });
+
+  it('should return false for numbers from other countries', () => {
+    expect(isValidNigerianPhone('+233241234567')).toBe(false);
+  });
 });
 
 describe('formatNigerianPhone', () => {
@@ -55,3 +85,95 @@ describe('formatNigerianPhone', () => {
     expect(() => formatNigerianPhone('+234801234567' as any)).toThrow();
   });
 });
+
+describe('normalizePhone', () => {
+  it('should read national numbers in the default country', () => {
+    expect(normalizePhone('08012345678', 'NG')).toBe('+2348012345678');
+    expect(normalizePhone('024 123 4567', 'GH')).toBe('+233241234567');
+    expect(normalizePhone('0712345678', 'KE')).toBe('+254712345678');
+    expect(normalizePhone('082 123 4567', 'ZA')).toBe('+27821234567');
+  });
+
+  it('should default to Nigeria', () => {
+    expect(normalizePhone('8012345678')).toBe('+2348012345678');
+  });
+
+  it('should accept the country code with or without +', () => {
+    expect(normalizePhone('254712345678', 'KE')).toBe('+254712345678');
+    expect(normalizePhone('+254 712 345 678', 'KE')).toBe('+254712345678');
+  });
+
+  it('should accept international numbers regardless of the default country', () => {
+    expect(normalizePhone('+233241234567', 'NG')).toBe('+233241234567');
+  });
+
+  it('should reject numbers with the wrong length for their country', () => {
+    expect(() => normalizePhone('08012345678', 'GH')).toThrow(InvalidPhoneError);
+    expect(() => normalizePhone('+23324123456', 'GH')).toThrow(InvalidPhoneError);
+  });
+
+  it('should reject subscriber numbers starting with the national prefix', () => {
+    // normalizeNigerianPhone accepts both
+    expect(() => normalizePhone('0801234567', 'NG')).toThrow(InvalidPhoneError);
+    expect(() => normalizePhone('+2340801234567')).toThrow(InvalidPhoneError);
+  });
+
+  it('should read a bare subscriber number even if it starts with the country code', () => {
+    // normalizeNigerianPhone rejects it
+    expect(normalizePhone('2341234567', 'NG')).toBe('+2342341234567');
+  });
+
+  it('should reject unregistered countries', () => {
+    expect(() => normalizePhone('+14155550123')).toThrow(InvalidPhoneError);
+    expect(() => normalizePhone('4155550123', 'US')).toThrow('Unsupported country');
+  });
+});
+
+describe('isValidPhone', () => {
+  it('should check national input against the given country', () => {
+    expect(isValidPhone('0241234567', 'GH')).toBe(true);
+    expect(isValidPhone('0241234567', 'NG')).toBe(false);
+  });
+
+  it('should accept national input valid in any country when none is given', () => {
+    expect(isValidPhone('0241234567')).toBe(true);
+    expect(isValidPhone('08012345678')).toBe(true);
+    expect(isValidPhone('123')).toBe(false);
+  });
+});
+
+describe('formatPhone', () => {
+  it('should group digits per country', () => {
+    expect(formatPhone('+2348012345678')).toBe('+234 801 234 5678');
+    expect(formatPhone('+233241234567')).toBe('+233 24 123 4567');
+    expect(formatPhone('+254712345678')).toBe('+254 712 345 678');
+    expect(formatPhone('+27821234567')).toBe('+27 82 123 4567');
+  });
+
+  it('should reject numbers outside registered plans', () => {
+    expect(() => formatPhone('+14155550123')).toThrow(InvalidPhoneError);
+  });
+});
+
+describe('numbering plan registry', () => {
+  it('should find the plan for an E.164 number', () => {
+    expect(findNumberingPlan('+233241234567')?.country).toBe('GH');
+    expect(findNumberingPlan('0241234567')).toBeUndefined();
+  });
+
+  it('should register additional countries', () => {
+    registerNumberingPlan({ country: 'ug', countryCode: '256', nationalPrefix: '0', subscriberLength: 9, grouping: [3, 6] });
+
+    expect(getNumberingPlan('UG')?.countryCode).toBe('256');
+    expect(normalizePhone('0772123456', 'UG')).toBe('+256772123456');
+    expect(formatPhone('+256772123456')).toBe('+256 772 123456');
+  });
+
+  it('should reject plans whose grouping does not cover the subscriber number', () => {
+    const register = (): void =>
+      registerNumberingPlan({ country: 'XX', countryCode: '999', nationalPrefix: '0', subscriberLength: 9, grouping: [3, 3] });
+
+    expect(register).toThrow(ValidationError);
+    expect(register).toThrow('Invalid numbering plan');
+  });
+});
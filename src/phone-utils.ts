@@ -1,56 +1,202 @@
 /**
- * Nigerian phone number normalization utilities
- * 
- * Nigerian phone numbers follow these patterns:
- * - 11 digits starting with 0 (e.g., 08012345678)
- * - 10 digits without leading 0 (e.g., 8012345678)
- * - E.164 format with +234 (e.g., +2348012345678)
- * 
- * All numbers are normalized to E.164 format (+234...)
+ * Phone number normalization utilities
+ *
+ * Numbers are parsed against a registry of per-country numbering plans and
+ * normalized to E.164 format. For a plan with country code 234 and national
+ * prefix 0, the accepted patterns are:
+ * - National format with the prefix (e.g., 08012345678)
+ * - Subscriber number without the prefix (e.g., 8012345678)
+ * - Country code without + (e.g., 2348012345678)
+ * - E.164 format (e.g., +2348012345678)
+ *
+ * Input without a leading + is read in the caller's default country.
+ *
+ * The Nigerian helpers (normalizeNigerianPhone and friends) predate the
+ * registry and keep their original rules, which are looser in places: any
+ * 10 digits after +234 or the trunk prefix are accepted, while input starting
+ * with 234 must be followed by exactly 10 digits.
  */
 
-import { NigerianPhone } from './types';
+import { NigerianPhone, PhoneNumber } from './types';
+import { InvalidPhoneError, ValidationError } from './errors';
 
 /**
- * Normalize a Nigerian phone number to E.164 format
+ * Numbering plan for one country
+ */
+export interface NumberingPlan {
+  /**
+   * ISO 3166-1 alpha-2 country code (e.g., NG)
+   */
+  country: string;
+  /**
+   * International calling code without + (e.g., 234)
+   */
+  countryCode: string;
+  /**
+   * Trunk prefix dialled before national numbers (e.g., 0)
+   */
+  nationalPrefix: string;
+  /**
+   * Digits after the country code
+   */
+  subscriberLength: number;
+  /**
+   * Digit group sizes for display, summing to subscriberLength
+   */
+  grouping: number[];
+}
+
+/**
+ * Country used when none is configured
+ */
+export const DEFAULT_COUNTRY = 'NG';
+
+const numberingPlans: Map<string, NumberingPlan> = new Map();
+
+/**
+ * Add or replace a country's numbering plan
+ */
+export function registerNumberingPlan(plan: NumberingPlan): void {
+  const groupedLength = plan.grouping.reduce((sum, size) => sum + size, 0);
+  if (!/^\d{1,3}$/.test(plan.countryCode) || groupedLength !== plan.subscriberLength) {
+    throw new ValidationError([{ path: [], message: `Invalid numbering plan for ${plan.country}` }]);
+  }
+  const country = plan.country.toUpperCase();
+  numberingPlans.set(country, { ...plan, country });
+}
+
+registerNumberingPlan({ country: 'NG', countryCode: '234', nationalPrefix: '0', subscriberLength: 10, grouping: [3, 3, 4] });
+registerNumberingPlan({ country: 'GH', countryCode: '233', nationalPrefix: '0', subscriberLength: 9, grouping: [2, 3, 4] });
+registerNumberingPlan({ country: 'KE', countryCode: '254', nationalPrefix: '0', subscriberLength: 9, grouping: [3, 3, 3] });
+registerNumberingPlan({ country: 'ZA', countryCode: '27', nationalPrefix: '0', subscriberLength: 9, grouping: [2, 3, 4] });
+
+/**
+ * Subscriber numbers never begin with the trunk prefix, so 0801234567 is not
+ * read as a 10-digit Nigerian subscriber number
+ */
+function isSubscriberNumber(digits: string, plan: NumberingPlan): boolean {
+  return digits.length === plan.subscriberLength && !(plan.nationalPrefix && digits.startsWith(plan.nationalPrefix));
+}
+
+/**
+ * Look up a registered numbering plan
+ */
+export function getNumberingPlan(country: string): NumberingPlan | undefined {
+  return numberingPlans.get(country.toUpperCase());
+}
+
+/**
+ * List every registered numbering plan
+ */
+export function listNumberingPlans(): NumberingPlan[] {
+  return Array.from(numberingPlans.values());
+}
+
+/**
+ * Find the numbering plan an E.164 number belongs to
+ */
+export function findNumberingPlan(phone: PhoneNumber): NumberingPlan | undefined {
+  if (!/^\+\d+$/.test(phone)) return undefined;
+
+  const digits = phone.substring(1);
+  return listNumberingPlans().find(
+    plan => digits.startsWith(plan.countryCode) && isSubscriberNumber(digits.substring(plan.countryCode.length), plan)
+  );
+}
+
+/**
+ * Normalize a phone number to E.164 format
  * @param input Raw phone number input
+ * @param defaultCountry Country for input without a leading +
  * @returns Normalized phone number in E.164 format
- * @throws Error if the input is not a valid Nigerian phone number
+ * @throws InvalidPhoneError if the input is not a valid number in a registered plan
  */
-export function normalizeNigerianPhone(input: string): NigerianPhone {
+export function normalizePhone(input: string, defaultCountry: string = DEFAULT_COUNTRY): PhoneNumber {
   // Remove all whitespace and special characters
   const cleaned = input.replace(/[\s\-\(\)\.]/g, '');
-  
-  // Pattern 1: Already in E.164 format (+234...)
-  if (cleaned.startsWith('+234')) {
-    const digits = cleaned.substring(4);
-    if (digits.length === 10 && /^\d{10}$/.test(digits)) {
-      return cleaned as NigerianPhone;
+
+  if (cleaned.startsWith('+')) {
+    if (!findNumberingPlan(cleaned)) {
+      throw new InvalidPhoneError('Invalid phone number');
     }
-    throw new Error(`Invalid Nigerian phone number: ${input}`);
+    return cleaned;
   }
-  
-  // Pattern 2: Starts with 234 (without +)
-  if (cleaned.startsWith('234')) {
-    const digits = cleaned.substring(3);
-    if (digits.length === 10 && /^\d{10}$/.test(digits)) {
-      return `+${cleaned}` as NigerianPhone;
-    }
-    throw new Error(`Invalid Nigerian phone number: ${input}`);
+
+  const plan = getNumberingPlan(defaultCountry);
+  if (!plan) {
+    throw new InvalidPhoneError(`Unsupported country: ${defaultCountry}`);
+  }
+  if (!/^\d+$/.test(cleaned)) {
+    throw new InvalidPhoneError(`Invalid ${plan.country} phone number`);
   }
-  
-  // Pattern 3: 11 digits starting with 0
-  if (cleaned.startsWith('0') && cleaned.length === 11 && /^\d{11}$/.test(cleaned)) {
-    const digits = cleaned.substring(1); // Remove leading 0
-    return `+234${digits}` as NigerianPhone;
+
+  const subscriber = [plan.countryCode, plan.nationalPrefix, '']
+    .filter(prefix => cleaned.startsWith(prefix))
+    .map(prefix => cleaned.substring(prefix.length))
+    .find(rest => isSubscriberNumber(rest, plan));
+
+  if (subscriber === undefined) {
+    throw new InvalidPhoneError(`Invalid ${plan.country} phone number`);
+  }
+  return `+${plan.countryCode}${subscriber}`;
+}
+
+/**
+ * Validate a phone number
+ * @param defaultCountry Country for input without a leading +; if omitted,
+ *   national input is accepted when valid in any registered plan
+ */
+export function isValidPhone(input: string, defaultCountry?: string): boolean {
+  const countries = defaultCountry ? [defaultCountry] : listNumberingPlans().map(plan => plan.country);
+  return countries.some(country => {
+    try {
+      normalizePhone(input, country);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Format an E.164 phone number for display
+ * @returns Formatted phone number (e.g., +234 801 234 5678)
+ * @throws InvalidPhoneError if the number is not E.164 in a registered plan
+ */
+export function formatPhone(phone: PhoneNumber): string {
+  const plan = findNumberingPlan(phone);
+  if (!plan) {
+    throw new InvalidPhoneError('Invalid E.164 phone number');
   }
-  
-  // Pattern 4: 10 digits without leading 0
-  if (cleaned.length === 10 && /^\d{10}$/.test(cleaned)) {
-    return `+234${cleaned}` as NigerianPhone;
+
+  let rest = phone.substring(plan.countryCode.length + 1);
+  const groups = plan.grouping.map(size => {
+    const group = rest.substring(0, size);
+    rest = rest.substring(size);
+    return group;
+  });
+  return `+${plan.countryCode} ${groups.join(' ')}`;
+}
+
+/**
+ * Normalize a Nigerian phone number to E.164 format
+ *
+ * Accepts +234 or 234 followed by 10 digits, 0 followed by 10 digits, or a
+ * bare 10-digit number. Unlike normalizePhone, the subscriber number is not
+ * checked against the numbering plan.
+ * @param input Raw phone number input
+ * @returns Normalized phone number in E.164 format
+ * @throws InvalidPhoneError if the input is not a valid Nigerian phone number
+ */
+export function normalizeNigerianPhone(input: string): NigerianPhone {
+  const cleaned = input.replace(/[\s().-]/g, '');
+
+  // Input starting with the country code never falls through to the national patterns
+  const match = /^\+?234/.test(cleaned) ? /^\+?234(\d{10})$/.exec(cleaned) : /^0?(\d{10})$/.exec(cleaned);
+  if (!match) {
+    throw new InvalidPhoneError();
   }
-  
-  throw new Error(`Invalid Nigerian phone number: ${input}`);
+  return `+234${match[1]}`;
 }
 
 /**
@@ -73,10 +219,10 @@ export function isValidNigerianPhone(input: string): boolean {
  * @returns Formatted phone number (e.g., +234 801 234 5678)
  */
 export function formatNigerianPhone(phone: NigerianPhone): string {
-  if (!phone.startsWith('+234') || phone.length !== 14) {
-    throw new Error(`Invalid E.164 Nigerian phone number: ${phone}`);
+  if (!/^\+234\d{10}$/.test(phone)) {
+    throw new InvalidPhoneError('Invalid E.164 Nigerian phone number');
   }
-  
-  const digits = phone.substring(4); // Remove +234
+
+  const digits = phone.substring(4);
   return `+234 ${digits.substring(0, 3)} ${digits.substring(3, 6)} ${digits.substring(6)}`;
 }
@@ -0,0 +1,344 @@
+/**
+ * Provider Migration Tests
+ *
+ * Tests for linking standalone users to provider users and for running the
+ * service in dual-run mode during the migration.
+ */
+
+import { MockClerkAdapter, ClerkUser, ClerkSessionClaims } from './clerk-adapter';
+import { ClerkIdentityProvider } from './clerk-provider';
+import { OidcIdentityProvider } from './oidc-provider';
+import { ProviderMigration } from './provider-migration';
+import { IdentityService } from './identity-service';
+import { InMemoryUserStorage, InMemorySessionStorage, InMemoryProviderLinkStorage } from './storage';
+import { UserProfile } from './types';
+import { NotConfiguredError, UserExistsError } from './errors';
+
+const localUser = (userId: string, phone: string, email?: string): UserProfile => ({
+  userId,
+  tenantId: 'tenant_1',
+  phone,
+  email,
+  emailVerified: true,
+  phoneVerified: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const clerkUser = (id: string, phone?: string, email?: string): ClerkUser => ({
+  id,
+  phoneNumbers: phone ? [{ id: `phone_${id}`, phoneNumber: phone, verified: true }] : [],
+  emailAddresses: email ? [{ id: `email_${id}`, emailAddress: email, verified: true }] : [],
+  primaryPhoneNumberId: phone ? `phone_${id}` : undefined,
+  primaryEmailAddressId: email ? `email_${id}` : undefined,
+  publicMetadata: {},
+  privateMetadata: {},
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+describe('ProviderMigration', () => {
+  let userStorage: InMemoryUserStorage;
+  let linkStorage: InMemoryProviderLinkStorage;
+  let adapter: MockClerkAdapter;
+  let migration: ProviderMigration;
+
+  beforeEach(() => {
+    userStorage = new InMemoryUserStorage();
+    linkStorage = new InMemoryProviderLinkStorage();
+    adapter = new MockClerkAdapter();
+    migration = new ProviderMigration({
+      userStorage,
+      identityProvider: new ClerkIdentityProvider(adapter),
+      linkStorage,
+    });
+  });
+
+  it('should link users by normalized phone number', async () => {
+    await userStorage.createUser(localUser('local_1', '0801 234 5678'));
+    adapter.addUser(clerkUser('user_1', '+2348012345678'));
+
+    const report = await migration.linkTenant('tenant_1');
+
+    expect(report).toMatchObject({
+      tenantId: 'tenant_1',
+      scanned: 1,
+      linked: [{ provider: 'clerk', providerUserId: 'user_1', userId: 'local_1', matchedBy: 'phone' }],
+      conflicts: [],
+      unmatched: [],
+    });
+    expect(await linkStorage.getLinkByProviderUserId('clerk', 'tenant_1', 'user_1')).toMatchObject({ userId: 'local_1' });
+  });
+
+  it('should link users by email address regardless of case', async () => {
+    await userStorage.createUser(localUser('local_1', '+2348012345678', 'Ada@Example.com'));
+    adapter.addUser(clerkUser('user_1', undefined, 'ada@example.com'));
+
+    const report = await migration.linkTenant('tenant_1');
+
+    expect(report.linked).toEqual([expect.objectContaining({ providerUserId: 'user_1', matchedBy: 'email' })]);
+  });
+
+  it('should report users matching no provider user', async () => {
+    await userStorage.createUser(localUser('local_1', '+2348012345678', 'ada@example.com'));
+
+    const report = await migration.linkTenant('tenant_1');
+
+    expect(report.linked).toEqual([]);
+    expect(report.unmatched.map(u => u.userId)).toEqual(['local_1']);
+  });
+
+  it('should report phone and email matching different provider users', async () => {
+    await userStorage.createUser(localUser('local_1', '+2348012345678', 'ada@example.com'));
+    adapter.addUser(clerkUser('user_1', '+2348012345678'));
+    adapter.addUser(clerkUser('user_2', undefined, 'ada@example.com'));
+
+    const report = await migration.linkTenant('tenant_1');
+
+    expect(report.conflicts).toEqual([
+      { userId: 'local_1', reason: 'ambiguous_match', providerUserIds: ['user_1', 'user_2'] },
+    ]);
+    expect(await linkStorage.getLinkByUserId('clerk', 'tenant_1', 'local_1')).toBeNull();
+  });
+
+  it('should report matches on identifiers unverified locally', async () => {
+    await userStorage.createUser({ ...localUser('local_1', '+2348012345678', 'ada@example.com'), phoneVerified: false });
+    await userStorage.createUser({ ...localUser('local_2', '+2348098765432'), phoneVerified: false });
+    adapter.addUser(clerkUser('user_1', '+2348012345678', 'ada@example.com'));
+    adapter.addUser(clerkUser('user_2', '+2348098765432'));
+
+    const report = await migration.linkTenant('tenant_1');
+
+    expect(report.linked).toEqual([expect.objectContaining({ userId: 'local_1', matchedBy: 'email' })]);
+    expect(report.conflicts).toEqual([
+      { userId: 'local_2', reason: 'unverified_match', providerUserIds: ['user_2'] },
+    ]);
+  });
+
+  it('should report matches on identifiers unverified at the provider', async () => {
+    await userStorage.createUser(localUser('local_1', '+2348012345678'));
+    const unverified = clerkUser('user_1', '+2348012345678');
+    adapter.addUser({ ...unverified, phoneNumbers: [{ ...unverified.phoneNumbers[0], verified: false }] });
+
+    const report = await migration.linkTenant('tenant_1');
+
+    expect(report.linked).toEqual([]);
+    expect(report.conflicts).toEqual([
+      { userId: 'local_1', reason: 'unverified_match', providerUserIds: ['user_1'] },
+    ]);
+  });
+
+  it('should not link two local users to one provider user', async () => {
+    await userStorage.createUser(localUser('local_1', '+2348012345678'));
+    await userStorage.createUser(localUser('local_2', '+2348098765432', 'ada@example.com'));
+    adapter.addUser(clerkUser('user_1', '+2348012345678', 'ada@example.com'));
+
+    const report = await migration.linkTenant('tenant_1');
+
+    expect(report.linked.map(l => l.userId)).toEqual(['local_1']);
+    expect(report.conflicts).toEqual([
+      { userId: 'local_2', reason: 'provider_user_linked', providerUserIds: ['user_1'] },
+    ]);
+  });
+
+  it('should report users linked to another provider user', async () => {
+    await userStorage.createUser(localUser('local_1', '+2348012345678'));
+    adapter.addUser(clerkUser('user_1', '+2348012345678'));
+    await linkStorage.saveLink({
+      provider: 'clerk',
+      tenantId: 'tenant_1',
+      providerUserId: 'user_old',
+      userId: 'local_1',
+      matchedBy: 'email',
+      linkedAt: new Date(),
+    });
+
+    const report = await migration.linkTenant('tenant_1');
+
+    expect(report.conflicts).toEqual([
+      { userId: 'local_1', reason: 'user_linked', providerUserIds: ['user_old', 'user_1'] },
+    ]);
+  });
+
+  it('should be idempotent', async () => {
+    await userStorage.createUser(localUser('local_1', '+2348012345678'));
+    adapter.addUser(clerkUser('user_1', '+2348012345678'));
+
+    await migration.linkTenant('tenant_1');
+    const report = await migration.linkTenant('tenant_1');
+
+    expect(report.linked).toEqual([]);
+    expect(report.alreadyLinked).toEqual(['local_1']);
+  });
+
+  it('should not record links in a dry run', async () => {
+    await userStorage.createUser(localUser('local_1', '+2348012345678'));
+    await userStorage.createUser(localUser('local_2', '+2348098765432', 'ada@example.com'));
+    adapter.addUser(clerkUser('user_1', '+2348012345678', 'ada@example.com'));
+
+    const report = await migration.linkTenant('tenant_1', { dryRun: true });
+
+    expect(report.linked.map(l => l.userId)).toEqual(['local_1']);
+    expect(report.conflicts.map(c => c.reason)).toEqual(['provider_user_linked']);
+    expect(await linkStorage.getLinkByUserId('clerk', 'tenant_1', 'local_1')).toBeNull();
+  });
+
+  it('should page through all users in the tenant', async () => {
+    migration = new ProviderMigration({
+      userStorage,
+      identityProvider: new ClerkIdentityProvider(adapter),
+      linkStorage,
+      pageSize: 1,
+    });
+    await userStorage.createUser(localUser('local_1', '+2348012345678'));
+    await userStorage.createUser(localUser('local_2', '+2348098765432'));
+    await userStorage.createUser({ ...localUser('local_3', '+2348011111111'), tenantId: 'tenant_2' });
+    adapter.addUser(clerkUser('user_1', '+2348012345678'));
+
+    const report = await migration.linkTenant('tenant_1');
+
+    expect(report.scanned).toBe(2);
+    expect(report.linked).toHaveLength(1);
+    expect(report.unmatched.map(u => u.userId)).toEqual(['local_2']);
+  });
+
+  it('should require a provider with a user directory', () => {
+    expect(() => new ProviderMigration({
+      userStorage,
+      identityProvider: new OidcIdentityProvider({ issuer: 'https://issuer.example.com' }),
+      linkStorage,
+    })).toThrow(NotConfiguredError);
+  });
+});
+
+describe('InMemoryProviderLinkStorage', () => {
+  it('should keep each provider user linked to one local user per tenant', async () => {
+    const storage = new InMemoryProviderLinkStorage();
+    const link = {
+      provider: 'clerk',
+      tenantId: 'tenant_1',
+      providerUserId: 'user_1',
+      userId: 'local_1',
+      matchedBy: 'phone' as const,
+      linkedAt: new Date(),
+    };
+    await storage.saveLink(link);
+
+    await expect(storage.saveLink({ ...link, userId: 'local_2' })).rejects.toThrow(UserExistsError);
+
+    await storage.saveLink({ ...link, tenantId: 'tenant_2', userId: 'local_2' });
+    expect(await storage.getLinkByProviderUserId('clerk', 'tenant_2', 'user_1')).toMatchObject({ userId: 'local_2' });
+
+    await storage.saveLink({ ...link, providerUserId: 'user_2' });
+    expect(await storage.getLinkByProviderUserId('clerk', 'tenant_1', 'user_1')).toBeNull();
+    expect(await storage.getLinkByProviderUserId('clerk', 'tenant_1', 'user_2')).toMatchObject({ userId: 'local_1' });
+
+    await storage.deleteLink('clerk', 'tenant_1', 'local_1');
+    expect(await storage.getLinkByUserId('clerk', 'tenant_1', 'local_1')).toBeNull();
+  });
+});
+
+describe('IdentityService in dual-run mode', () => {
+  let userStorage: InMemoryUserStorage;
+  let linkStorage: InMemoryProviderLinkStorage;
+  let adapter: MockClerkAdapter;
+  let service: IdentityService;
+
+  const now = Math.floor(Date.now() / 1000);
+  const claims: ClerkSessionClaims = {
+    sub: 'user_1',
+    sid: 'sess_1',
+    org_id: 'tenant_1',
+    org_role: 'org:member',
+    iat: now,
+    exp: now + 3600,
+  };
+
+  beforeEach(async () => {
+    userStorage = new InMemoryUserStorage();
+    linkStorage = new InMemoryProviderLinkStorage();
+    adapter = new MockClerkAdapter();
+    service = new IdentityService({
+      userStorage,
+      sessionStorage: new InMemorySessionStorage(),
+      clerkAdapter: adapter,
+      dualRun: true,
+      providerLinkStorage: linkStorage,
+    });
+
+    const created = await service.createUser({ tenantId: 'tenant_1', phone: '08012345678' });
+    await userStorage.updateUser('tenant_1', created.userId, { phoneVerified: true });
+  });
+
+  it('should keep users in local storage', async () => {
+    const [local] = (await userStorage.listUsers('tenant_1', {})).items;
+
+    expect(local.userId).not.toMatch(/^user_mock_/);
+    expect(await service.getUser('tenant_1', local.userId)).toEqual(local);
+  });
+
+  it('should accept local sessions', async () => {
+    const local = (await service.getUserByPhone('tenant_1', '08012345678'))!;
+    await service.setCredential('tenant_1', local.userId, 'secret-password');
+    const auth = await service.authenticate({ tenantId: 'tenant_1', phone: '08012345678', credential: 'secret-password' });
+
+    const identity = await service.resolveIdentity(auth.sessionId);
+
+    expect(identity.userId).toBe(local.userId);
+  });
+
+  it('should resolve provider sessions to the linked local user', async () => {
+    const local = (await service.getUserByPhone('tenant_1', '08012345678'))!;
+    adapter.addUser(clerkUser('user_1', '+2348012345678'));
+    await new ProviderMigration({
+      userStorage,
+      identityProvider: new ClerkIdentityProvider(adapter),
+      linkStorage,
+    }).linkTenant('tenant_1');
+    adapter.addSession('clerk_token', claims);
+
+    const identity = await service.resolveIdentity('clerk_token');
+
+    expect(identity).toMatchObject({ userId: local.userId, tenantId: 'tenant_1', profile: { phone: '+2348012345678' } });
+    expect(identity.roles).toContain('org:member');
+  });
+
+  it('should not apply links to sessions in another tenant', async () => {
+    adapter.addUser(clerkUser('user_1', '+2348012345678'));
+    await new ProviderMigration({
+      userStorage,
+      identityProvider: new ClerkIdentityProvider(adapter),
+      linkStorage,
+    }).linkTenant('tenant_1');
+    adapter.addSession('clerk_token', { ...claims, org_id: 'tenant_2' });
+
+    const validation = await service.validateSession('clerk_token');
+
+    expect(validation).toMatchObject({ valid: true, context: { userId: 'user_1', tenantId: 'tenant_2' } });
+  });
+
+  it('should keep the provider user ID of unlinked provider users', async () => {
+    adapter.addSession('clerk_token', claims);
+
+    const validation = await service.validateSession('clerk_token');
+
+    expect(validation).toMatchObject({ valid: true, context: { userId: 'user_1' } });
+  });
+
+  it('should reject tokens neither the provider nor local storage accepts', async () => {
+    expect(await service.validateSession('unknown_session')).toMatchObject({ valid: false });
+    expect(await service.validateSession('aaa.bbb.ccc')).toMatchObject({ valid: false });
+  });
+
+  it('should allow tenant switching for local sessions', async () => {
+    const local = (await service.getUserByPhone('tenant_1', '08012345678'))!;
+    await service.addMembership('tenant_2', local.userId);
+    await service.setCredential('tenant_1', local.userId, 'secret-password');
+    await service.setCredential('tenant_2', local.userId, 'secret-password');
+    const auth = await service.authenticate({ tenantId: 'tenant_1', phone: '08012345678', credential: 'secret-password' });
+
+    const switched = await service.switchTenant(auth.sessionId, { tenantId: 'tenant_2', credential: 'secret-password' });
+
+    expect(switched.tenantId).toBe('tenant_2');
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Migration of standalone users to an external identity provider
+ *
+ * Links each local user in a tenant to the provider user with the same
+ * phone number or email address, so existing users keep their local ID,
+ * roles and data without re-registering. Links are recorded in a
+ * ProviderLinkStorage per tenant; during the migration an IdentityService
+ * in dual-run mode resolves provider sessions in that tenant to the linked
+ * local user.
+ *
+ * Phone numbers are normalized to E.164 and email addresses lowercased
+ * before lookup. A match only links when the identifier is verified both
+ * locally and at the provider, so nobody can claim an account by registering
+ * someone else's number or address. Users matching no provider user are
+ * reported as unmatched, and users whose phone and email match different
+ * provider users, whose match is unverified, or whose match is already
+ * linked elsewhere, are reported as conflicts; neither is linked.
+ */
+
+import { TenantId, UserId, UserProfile, ProviderLink } from './types';
+import { UserStorage, ProviderLinkStorage } from './storage';
+import { IdentityProvider, UserDirectory } from './identity-provider';
+import { normalizePhone, DEFAULT_COUNTRY } from './phone-utils';
+import { NotConfiguredError } from './errors';
+
+/**
+ * Provider user found for a local identifier
+ */
+interface ProviderMatch {
+  providerUserId: UserId;
+  /**
+   * Whether the identifier is verified on both sides
+   */
+  verified: boolean;
+}
+
+/**
+ * Migration configuration
+ */
+export interface ProviderMigrationConfig {
+  userStorage: UserStorage;
+  /**
+   * Target provider; must have a user directory
+   */
+  identityProvider: IdentityProvider;
+  linkStorage: ProviderLinkStorage;
+  /**
+   * Country for stored phone numbers without a leading + (default NG)
+   */
+  defaultCountry?: string;
+  /**
+   * Per-tenant overrides of defaultCountry
+   */
+  tenantCountries?: Record<TenantId, string>;
+  /**
+   * Users read from storage per page (default 100)
+   */
+  pageSize?: number;
+}
+
+/**
+ * Why a user could not be linked
+ *
+ * - `ambiguous_match`: phone and email match different provider users
+ * - `unverified_match`: the matching identifier is unverified locally or at the provider
+ * - `user_linked`: the user is already linked to another provider user
+ * - `provider_user_linked`: the matched provider user is already linked to another local user
+ */
+export type MigrationConflictReason =
+  | 'ambiguous_match'
+  | 'unverified_match'
+  | 'user_linked'
+  | 'provider_user_linked';
+
+/**
+ * A user that matched but could not be linked
+ */
+export interface MigrationConflict {
+  userId: UserId;
+  reason: MigrationConflictReason;
+  /**
+   * Provider users involved in the conflict
+   */
+  providerUserIds: UserId[];
+}
+
+/**
+ * Outcome of linking one tenant
+ */
+export interface MigrationReport {
+  tenantId: TenantId;
+  /**
+   * Local users examined
+   */
+  scanned: number;
+  /**
+   * Links created by this run (or that would be, in a dry run)
+   */
+  linked: ProviderLink[];
+  /**
+   * Users already linked to their matching provider user
+   */
+  alreadyLinked: UserId[];
+  conflicts: MigrationConflict[];
+  /**
+   * Users matching no provider user
+   */
+  unmatched: UserProfile[];
+}
+
+/**
+ * Options for a migration run
+ */
+export interface MigrationOptions {
+  /**
+   * Report what would be linked without recording links
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Links local users to provider users
+ */
+export class ProviderMigration {
+  private userStorage: UserStorage;
+  private provider: string;
+  private directory: UserDirectory;
+  private linkStorage: ProviderLinkStorage;
+  private defaultCountry: string;
+  private tenantCountries: Record<TenantId, string>;
+  private pageSize: number;
+
+  constructor(config: ProviderMigrationConfig) {
+    if (!config.identityProvider.directory) {
+      throw new NotConfiguredError(`Identity provider ${config.identityProvider.name} has no user directory`);
+    }
+
+    this.userStorage = config.userStorage;
+    this.provider = config.identityProvider.name;
+    this.directory = config.identityProvider.directory;
+    this.linkStorage = config.linkStorage;
+    this.defaultCountry = config.defaultCountry || DEFAULT_COUNTRY;
+    this.tenantCountries = config.tenantCountries || {};
+    this.pageSize = config.pageSize ?? 100;
+  }
+
+  /**
+   * Link every local user in a tenant to their provider user
+   *
+   * Runs are idempotent: users linked by an earlier run are reported as
+   * already linked.
+   */
+  async linkTenant(tenantId: TenantId, options: MigrationOptions = {}): Promise<MigrationReport> {
+    const report: MigrationReport = {
+      tenantId,
+      scanned: 0,
+      linked: [],
+      alreadyLinked: [],
+      conflicts: [],
+      unmatched: [],
+    };
+    // Provider users claimed earlier in this run, which a dry run does not record
+    const claimed = new Map<UserId, UserId>();
+
+    let cursor: string | undefined;
+    do {
+      const page = await this.userStorage.listUsers(tenantId, { limit: this.pageSize, cursor });
+      for (const profile of page.items) {
+        report.scanned++;
+        await this.linkUser(profile, report, claimed, options.dryRun || false);
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return report;
+  }
+
+  private async linkUser(
+    profile: UserProfile,
+    report: MigrationReport,
+    claimed: Map<UserId, UserId>,
+    dryRun: boolean
+  ): Promise<void> {
+    const byPhone = await this.findByPhone(profile);
+    const byEmail = await this.findByEmail(profile);
+
+    if (byPhone && byEmail && byPhone.providerUserId !== byEmail.providerUserId) {
+      report.conflicts.push({
+        userId: profile.userId,
+        reason: 'ambiguous_match',
+        providerUserIds: [byPhone.providerUserId, byEmail.providerUserId],
+      });
+      return;
+    }
+
+    const providerUserId = (byPhone || byEmail)?.providerUserId;
+    if (!providerUserId) {
+      report.unmatched.push(profile);
+      return;
+    }
+
+    const matchedBy = byPhone?.verified ? 'phone' : byEmail?.verified ? 'email' : null;
+    if (!matchedBy) {
+      report.conflicts.push({ userId: profile.userId, reason: 'unverified_match', providerUserIds: [providerUserId] });
+      return;
+    }
+
+    const existing = await this.linkStorage.getLinkByUserId(this.provider, profile.tenantId, profile.userId);
+    if (existing) {
+      if (existing.providerUserId === providerUserId) {
+        report.alreadyLinked.push(profile.userId);
+      } else {
+        report.conflicts.push({
+          userId: profile.userId,
+          reason: 'user_linked',
+          providerUserIds: [existing.providerUserId, providerUserId],
+        });
+      }
+      return;
+    }
+
+    const owner = claimed.get(providerUserId) ??
+      (await this.linkStorage.getLinkByProviderUserId(this.provider, profile.tenantId, providerUserId))?.userId;
+    if (owner && owner !== profile.userId) {
+      report.conflicts.push({ userId: profile.userId, reason: 'provider_user_linked', providerUserIds: [providerUserId] });
+      return;
+    }
+
+    const link: ProviderLink = {
+      provider: this.provider,
+      tenantId: profile.tenantId,
+      providerUserId,
+      userId: profile.userId,
+      matchedBy,
+      linkedAt: new Date(),
+    };
+    if (!dryRun) {
+      await this.linkStorage.saveLink(link);
+    }
+    claimed.set(providerUserId, profile.userId);
+    report.linked.push(link);
+  }
+
+  private async findByPhone(profile: UserProfile): Promise<ProviderMatch | null> {
+    let phone: string;
+    try {
+      phone = normalizePhone(profile.phone, this.tenantCountries[profile.tenantId] || this.defaultCountry);
+    } catch {
+      // Legacy records may hold numbers that no longer normalize; fall back to email
+      return null;
+    }
+
+    const user = await this.directory.getUserByPhone(phone);
+    if (!user) return null;
+
+    const providerProfile = this.directory.toUserProfile(user, profile.tenantId);
+    return {
+      providerUserId: providerProfile.userId,
+      verified: profile.phoneVerified === true &&
+        providerProfile.phone === phone &&
+        providerProfile.phoneVerified === true,
+    };
+  }
+
+  private async findByEmail(profile: UserProfile): Promise<ProviderMatch | null> {
+    if (!profile.email) return null;
+
+    const email = profile.email.trim().toLowerCase();
+    const user = await this.directory.getUserByEmail(email);
+    if (!user) return null;
+
+    const providerProfile = this.directory.toUserProfile(user, profile.tenantId);
+    return {
+      providerUserId: providerProfile.userId,
+      verified: profile.emailVerified === true &&
+        providerProfile.email?.toLowerCase() === email &&
+        providerProfile.emailVerified === true,
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { generateKeyPairSync } from 'crypto';
+import { SessionTokenSigner } from './session-tokens';
+import { signJwt, decodeJwt, isJwt } from './jwt';
+import { extractTenantContext } from './clerk-adapter';
+import { SessionContext } from './types';
+import { NotConfiguredError } from './errors';
+
+describe('SessionTokenSigner', () => {
+  const context: SessionContext = {
+    sessionId: 'sess_1',
+    userId: 'user_1',
+    tenantId: 'tenant_1',
+    roles: ['cashier'],
+    issuedAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  };
+
+  const hmacKey = { kid: 'hmac-1', algorithm: 'HS256' as const, secret: 'test-secret-with-enough-entropy' };
+
+  it('should sign Clerk-compatible claims with HS256', () => {
+    const signer = new SessionTokenSigner({ keys: [hmacKey], activeKeyId: 'hmac-1' });
+
+    const token = signer.sign(context);
+    const decoded = decodeJwt(token)!;
+
+    expect(isJwt(token)).toBe(true);
+    expect(decoded.header).toEqual({ alg: 'HS256', typ: 'JWT', kid: 'hmac-1' });
+    expect(decoded.payload).toMatchObject({ sub: 'user_1', sid: 'sess_1', org_id: 'tenant_1' });
+
+    const verification = signer.verify(token);
+    expect(verification.valid).toBe(true);
+
+    const tenantContext = extractTenantContext(verification.claims!);
+    expect(tenantContext.tenantId).toBe('tenant_1');
+    expect(tenantContext.roles).toEqual(['cashier']);
+  });
+
+  it('should sign and verify with Ed25519', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const signer = new SessionTokenSigner({
+      keys: [{ kid: 'ed-1', algorithm: 'EdDSA', privateKey, publicKey }],
+      activeKeyId: 'ed-1',
+    });
+
+    const token = signer.sign(context);
+
+    expect(decodeJwt(token)!.header.alg).toBe('EdDSA');
+    expect(signer.verify(token).valid).toBe(true);
+  });
+
+  it('should verify tokens signed by retired keys after rotation', () => {
+    const oldSigner = new SessionTokenSigner({ keys: [hmacKey], activeKeyId: 'hmac-1' });
+    const token = oldSigner.sign(context);
+
+    const newKey = { kid: 'hmac-2', algorithm: 'HS256' as const, secret: 'rotated-secret' };
+    const rotated = new SessionTokenSigner({ keys: [hmacKey, newKey], activeKeyId: 'hmac-2' });
+
+    expect(rotated.verify(token).valid).toBe(true);
+    expect(decodeJwt(rotated.sign(context))!.header.kid).toBe('hmac-2');
+
+    const retired = new SessionTokenSigner({ keys: [newKey], activeKeyId: 'hmac-2' });
+    expect(retired.verify(token).valid).toBe(false);
+  });
+
+  it('should reject tampered tokens', () => {
+    const signer = new SessionTokenSigner({ keys: [hmacKey], activeKeyId: 'hmac-1' });
+    const [header, , signature] = signer.sign(context).split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({
+      sub: 'user_1', sid: 'sess_1', org_id: 'other_tenant', iat: 1, exp: 9999999999,
+    })).toString('base64url');
+
+    const verification = signer.verify(`${header}.${forgedPayload}.${signature}`);
+
+    expect(verification.valid).toBe(false);
+    expect(verification.reason).toBe('Invalid session token signature');
+  });
+
+  it('should reject tokens whose algorithm does not match the key', () => {
+    const signer = new SessionTokenSigner({ keys: [hmacKey], activeKeyId: 'hmac-1' });
+    const { privateKey } = generateKeyPairSync('ed25519');
+    const token = signJwt(
+      { sub: 'user_1', sid: 'sess_1', org_id: 'tenant_1', iat: 1, exp: 9999999999 },
+      { kid: 'hmac-1', algorithm: 'EdDSA', privateKey }
+    );
+
+    expect(signer.verify(token).valid).toBe(false);
+  });
+
+  it('should reject expired tokens and honour clock skew', () => {
+    const expired = { ...context, expiresAt: new Date(Date.now() - 10 * 1000) };
+
+    const strict = new SessionTokenSigner({ keys: [hmacKey], activeKeyId: 'hmac-1' });
+    expect(strict.verify(strict.sign(expired))).toMatchObject({ valid: false, reason: 'Session expired' });
+
+    const lenient = new SessionTokenSigner({ keys: [hmacKey], activeKeyId: 'hmac-1', clockSkewSeconds: 60 });
+    expect(lenient.verify(lenient.sign(expired)).valid).toBe(true);
+  });
+
+  it('should enforce the configured issuer', () => {
+    const issuer = new SessionTokenSigner({ keys: [hmacKey], activeKeyId: 'hmac-1', issuer: 'webwaka' });
+    const noIssuer = new SessionTokenSigner({ keys: [hmacKey], activeKeyId: 'hmac-1' });
+
+    expect(issuer.verify(issuer.sign(context)).valid).toBe(true);
+    expect(issuer.verify(noIssuer.sign(context)).reason).toBe('Invalid session token issuer');
+  });
+
+  it('should reject malformed tokens', () => {
+    const signer = new SessionTokenSigner({ keys: [hmacKey], activeKeyId: 'hmac-1' });
+
+    expect(signer.verify('not-a-token').reason).toBe('Malformed session token');
+    expect(signer.verify('a.b.c').reason).toBe('Malformed session token');
+  });
+
+  it('should require the active key to be configured', () => {
+    expect(() => new SessionTokenSigner({ keys: [hmacKey], activeKeyId: 'missing' })).toThrow('not found');
+  });
+
+  it('should require the active key to have signing material', () => {
+    const { publicKey } = generateKeyPairSync('ed25519');
+    const verifyOnly = { kid: 'ed-1', algorithm: 'EdDSA' as const, publicKey };
+
+    expect(() => new SessionTokenSigner({ keys: [verifyOnly], activeKeyId: 'ed-1' })).toThrow(NotConfiguredError);
+    expect(() => new SessionTokenSigner({
+      keys: [{ ...hmacKey, secret: undefined }],
+      activeKeyId: 'hmac-1',
+    })).toThrow(NotConfiguredError);
+    expect(() => new SessionTokenSigner({ keys: [hmacKey, verifyOnly], activeKeyId: 'hmac-1' })).not.toThrow();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Signed stateless session tokens for standalone mode
+ *
+ * Session tokens are JWTs whose claims are shape-compatible with
+ * ClerkSessionClaims (`sub`, `sid`, `org_id`, `iat`, `exp`, roles under
+ * `metadata.roles`), so they can be verified locally without a storage
+ * round-trip and mapped with extractTenantContext. Keys are selected by `kid`,
+ * which allows rotation: sign with the active key, keep retired keys listed
+ * for verification until their tokens have expired.
+ */
+
+import { SessionContext } from './types';
+import { ClerkSessionClaims } from './clerk-adapter';
+import { JwtKey, signJwt, decodeJwt, verifyJwtSignature } from './jwt';
+import { NotConfiguredError } from './errors';
+
+/**
+ * Session token configuration
+ */
+export interface SessionTokenConfig {
+  /**
+   * Keys accepted for verification
+   */
+  keys: JwtKey[];
+
+  /**
+   * `kid` of the key used to sign new tokens
+   */
+  activeKeyId: string;
+
+  /**
+   * Optional `iss` claim set on issue and required on verification
+   */
+  issuer?: string;
+
+  /**
+   * Tolerance applied to `exp` checks
+   */
+  clockSkewSeconds?: number;
+}
+
+/**
+ * Claims carried by a session token
+ */
+export interface SessionTokenClaims extends ClerkSessionClaims {
+  org_id: string;
+  iss?: string;
+  /**
+   * Issue time in milliseconds, for revocation checks finer than `iat`
+   */
+  iat_ms?: number;
+}
+
+/**
+ * Session token verification result
+ */
+export interface SessionTokenVerification {
+  valid: boolean;
+  claims?: SessionTokenClaims;
+  reason?: string;
+}
+
+/**
+ * Issues and verifies signed session tokens
+ */
+export class SessionTokenSigner {
+  private keys: Map<string, JwtKey> = new Map();
+  private activeKey: JwtKey;
+  private issuer?: string;
+  private clockSkewSeconds: number;
+
+  constructor(config: SessionTokenConfig) {
+    for (const key of config.keys) {
+      this.keys.set(key.kid, key);
+    }
+
+    const activeKey = this.keys.get(config.activeKeyId);
+    if (!activeKey) {
+      throw new NotConfiguredError(`Active session token key not found: ${config.activeKeyId}`);
+    }
+    // Fail at startup rather than on the first login
+    if (activeKey.algorithm === 'HS256' ? !activeKey.secret : !activeKey.privateKey) {
+      throw new NotConfiguredError(`Active session token key ${activeKey.kid} cannot sign: missing secret or private key`);
+    }
+
+    this.activeKey = activeKey;
+    this.issuer = config.issuer;
+    this.clockSkewSeconds = config.clockSkewSeconds ?? 0;
+  }
+
+  /**
+   * Sign a session context into a token
+   */
+  sign(context: SessionContext): string {
+    const claims: SessionTokenClaims = {
+      sub: context.userId,
+      sid: context.sessionId,
+      org_id: context.tenantId,
+      metadata: { roles: context.roles },
+      iat: Math.floor(context.issuedAt.getTime() / 1000),
+      iat_ms: context.issuedAt.getTime(),
+      exp: Math.floor(context.expiresAt.getTime() / 1000),
+    };
+
+    if (this.issuer) {
+      claims.iss = this.issuer;
+    }
+
+    return signJwt(claims, this.activeKey);
+  }
+
+  /**
+   * Verify a token's signature, issuer and expiry
+   */
+  verify(token: string): SessionTokenVerification {
+    const decoded = decodeJwt<SessionTokenClaims>(token);
+    if (!decoded) {
+      return { valid: false, reason: 'Malformed session token' };
+    }
+
+    const key = decoded.header.kid ? this.keys.get(decoded.header.kid) : undefined;
+    if (!key || !verifyJwtSignature(decoded, key)) {
+      return { valid: false, reason: 'Invalid session token signature' };
+    }
+
+    const claims = decoded.payload;
+    if (
+      typeof claims.sub !== 'string' ||
+      typeof claims.sid !== 'string' ||
+      typeof claims.org_id !== 'string' ||
+      typeof claims.iat !== 'number' ||
+      typeof claims.exp !== 'number'
+    ) {
+      return { valid: false, reason: 'Malformed session token' };
+    }
+
+    if (this.issuer && claims.iss !== this.issuer) {
+      return { valid: false, reason: 'Invalid session token issuer' };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.exp + this.clockSkewSeconds < now) {
+      return { valid: false, claims, reason: 'Session expired' };
+    }
+
+    return { valid: true, claims };
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Behavioural contract for UserStorage implementations
+ *
+ * Each case runs against a fresh storage instance and throws (via Node's
+ * assert module) if the backend breaks the contract, so the suite can be
+ * driven by any test runner:
+ *
+ *   for (const c of userStorageContract(() => new MyUserStorage())) {
+ *     it(c.name, c.run);
+ *   }
+ */
+
+import assert from 'assert';
+import { UserStorage } from './storage';
+import { UserProfile } from './types';
+import { IdentityError, IdentityErrorCode } from './errors';
+
+/**
+ * One contract check
+ */
+export interface StorageContractCase {
+  name: string;
+  run: () => Promise<void>;
+}
+
+function profile(overrides: Partial<UserProfile> = {}): UserProfile {
+  const now = new Date('2024-01-01T00:00:00Z');
+  return {
+    userId: 'user-1',
+    tenantId: 'tenant-1',
+    phone: '+2348012345678',
+    email: 'ada@example.com',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+async function assertRejectsWithCode(promise: Promise<unknown>, code: IdentityErrorCode): Promise<void> {
+  await assert.rejects(promise, (error: unknown) => error instanceof IdentityError && error.code === code);
+}
+
+/**
+ * Build the UserStorage contract cases
+ * @param createStorage Returns a new, empty storage for every case
+ */
+export function userStorageContract(createStorage: () => UserStorage | Promise<UserStorage>): StorageContractCase[] {
+  const cases: Array<[string, (storage: UserStorage) => Promise<void>]> = [
+    ['finds a created user by ID, phone and email', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+
+      assert.strictEqual((await storage.getUser('tenant-1', 'user-1'))?.userId, 'user-1');
+      assert.strictEqual((await storage.getUserByPhone('tenant-1', '+2348012345678'))?.userId, 'user-1');
+      assert.strictEqual((await storage.getUserByEmail('tenant-1', 'ADA@example.com'))?.userId, 'user-1');
+    }],
+
+    ['rejects a duplicate user ID in a tenant', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+
+      await assertRejectsWithCode(
+        storage.createUser(profile({ phone: '+2348031234567', email: 'other@example.com' })),
+        'USER_EXISTS'
+      );
+    }],
+
+    ['rejects a duplicate phone number in a tenant', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+
+      await assertRejectsWithCode(
+        storage.createUser(profile({ userId: 'user-2', email: 'other@example.com' })),
+        'USER_EXISTS'
+      );
+    }],
+
+    ['rejects a duplicate email in a tenant, ignoring case', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+
+      await assertRejectsWithCode(
+        storage.createUser(profile({ userId: 'user-2', phone: '+2348031234567', email: 'Ada@Example.com' })),
+        'USER_EXISTS'
+      );
+      assert.strictEqual(await storage.getUser('tenant-1', 'user-2'), null);
+    }],
+
+    ['allows the same phone and email in different tenants', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+      await storage.createUser(profile({ tenantId: 'tenant-2', userId: 'user-2' }));
+
+      assert.strictEqual((await storage.getUserByEmail('tenant-2', 'ada@example.com'))?.userId, 'user-2');
+      assert.strictEqual((await storage.getUserByPhone('tenant-1', '+2348012345678'))?.userId, 'user-1');
+    }],
+
+    ['re-indexes the email on update', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+      await storage.updateUser('tenant-1', 'user-1', { email: 'ada@new.example.com' });
+
+      assert.strictEqual(await storage.getUserByEmail('tenant-1', 'ada@example.com'), null);
+      assert.strictEqual((await storage.getUserByEmail('tenant-1', 'ada@new.example.com'))?.userId, 'user-1');
+    }],
+
+    ['returns updated profiles from every lookup', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+      await storage.updateUser('tenant-1', 'user-1', { displayName: 'Ada' });
+
+      assert.strictEqual((await storage.getUser('tenant-1', 'user-1'))?.displayName, 'Ada');
+      assert.strictEqual((await storage.getUserByPhone('tenant-1', '+2348012345678'))?.displayName, 'Ada');
+      assert.strictEqual((await storage.getUserByEmail('tenant-1', 'ada@example.com'))?.displayName, 'Ada');
+    }],
+
+    ['frees the email when it is removed', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+      await storage.updateUser('tenant-1', 'user-1', { email: undefined });
+      await storage.createUser(profile({ userId: 'user-2', phone: '+2348031234567' }));
+
+      assert.strictEqual((await storage.getUserByEmail('tenant-1', 'ada@example.com'))?.userId, 'user-2');
+    }],
+
+    ['rejects updating to an email held by another user', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+      await storage.createUser(profile({ userId: 'user-2', phone: '+2348031234567', email: 'bob@example.com' }));
+
+      await assertRejectsWithCode(
+        storage.updateUser('tenant-1', 'user-2', { email: 'ADA@example.com' }),
+        'USER_EXISTS'
+      );
+      assert.strictEqual((await storage.getUser('tenant-1', 'user-2'))?.email, 'bob@example.com');
+      assert.strictEqual((await storage.getUserByEmail('tenant-1', 'bob@example.com'))?.userId, 'user-2');
+    }],
+
+    ['allows changing the case of a user\'s own email', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+      await storage.updateUser('tenant-1', 'user-1', { email: 'Ada@Example.com' });
+
+      assert.strictEqual((await storage.getUserByEmail('tenant-1', 'ada@example.com'))?.email, 'Ada@Example.com');
+    }],
+
+    ['keeps identity fields immutable on update', async (storage): Promise<void> => {
+      const created = await storage.createUser(profile());
+      const updated = await storage.updateUser('tenant-1', 'user-1', {
+        userId: 'user-2',
+        tenantId: 'tenant-2',
+        phone: '+2348031234567',
+        createdAt: new Date(),
+      });
+
+      assert.strictEqual(updated.userId, 'user-1');
+      assert.strictEqual(updated.tenantId, 'tenant-1');
+      assert.strictEqual(updated.phone, '+2348012345678');
+      assert.strictEqual(updated.createdAt.getTime(), created.createdAt.getTime());
+    }],
+
+    ['re-indexes the phone number on change', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+      await storage.changePhone('tenant-1', 'user-1', '+2348031234567');
+
+      assert.strictEqual(await storage.getUserByPhone('tenant-1', '+2348012345678'), null);
+      assert.strictEqual((await storage.getUserByPhone('tenant-1', '+2348031234567'))?.userId, 'user-1');
+      assert.strictEqual((await storage.getUserByEmail('tenant-1', 'ada@example.com'))?.phone, '+2348031234567');
+    }],
+
+    ['rejects changing to a phone number held by another user', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+      await storage.createUser(profile({ userId: 'user-2', phone: '+2348031234567', email: 'bob@example.com' }));
+
+      await assertRejectsWithCode(storage.changePhone('tenant-1', 'user-1', '+2348031234567'), 'USER_EXISTS');
+      assert.strictEqual((await storage.getUserByPhone('tenant-1', '+2348012345678'))?.userId, 'user-1');
+    }],
+
+    ['rejects updates to unknown users', async (storage): Promise<void> => {
+      await assertRejectsWithCode(storage.updateUser('tenant-1', 'missing', { displayName: 'x' }), 'USER_NOT_FOUND');
+      await assertRejectsWithCode(storage.changePhone('tenant-1', 'missing', '+2348031234567'), 'USER_NOT_FOUND');
+    }],
+
+    ['removes every index entry on delete', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+      await storage.deleteUser('tenant-1', 'user-1');
+
+      assert.strictEqual(await storage.getUser('tenant-1', 'user-1'), null);
+      assert.strictEqual(await storage.getUserByPhone('tenant-1', '+2348012345678'), null);
+      assert.strictEqual(await storage.getUserByEmail('tenant-1', 'ada@example.com'), null);
+
+      await storage.createUser(profile({ userId: 'user-2' }));
+      assert.strictEqual((await storage.getUserByEmail('tenant-1', 'ada@example.com'))?.userId, 'user-2');
+    }],
+
+    ['lists users and the tenants holding a user', async (storage): Promise<void> => {
+      await storage.createUser(profile());
+      await storage.createUser(profile({ tenantId: 'tenant-2' }));
+
+      const page = await storage.listUsers('tenant-1', {});
+      assert.deepStrictEqual(page.items.map(user => user.userId), ['user-1']);
+      assert.deepStrictEqual((await storage.listTenantsForUser('user-1')).sort(), ['tenant-1', 'tenant-2']);
+    }],
+  ];
+
+  return cases.map(([name, check]) => ({
+    name,
+    run: async (): Promise<void> => check(await createStorage()),
+  }));
+}
@@ -0,0 +1,33 @@
+import { InMemoryUserStorage, InMemoryIdentityStorage } from './storage';
+import { userStorageContract } from './storage-contract';
+import { UserExistsError } from './errors';
+
+describe('InMemoryUserStorage', () => {
+  for (const contractCase of userStorageContract(() => new InMemoryUserStorage())) {
+    it(`should satisfy the UserStorage contract: ${contractCase.name}`, contractCase.run);
+  }
+});
+
+describe('InMemoryIdentityStorage', () => {
+  it('should keep each phone number on one identity', async () => {
+    const storage = new InMemoryIdentityStorage();
+    const now = new Date();
+    const identity = {
+      userId: 'user-1',
+      phone: '+2348012345678',
+      memberships: [{ tenantId: 'tenant-1', joinedAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await storage.saveIdentity(identity);
+
+    await expect(storage.saveIdentity({ ...identity, userId: 'user-2' })).rejects.toThrow(UserExistsError);
+
+    await storage.saveIdentity({ ...identity, phone: '+2348098765432' });
+    expect(await storage.getIdentityByPhone('+2348012345678')).toBeNull();
+    expect(await storage.getIdentityByPhone('+2348098765432')).toMatchObject({ userId: 'user-1' });
+
+    await storage.deleteIdentity('user-1');
+    expect(await storage.getIdentity('user-1')).toBeNull();
+  });
+});
@@ -5,7 +5,27 @@
  * storage-agnostic. Implementations can use any database or storage backend.
  */
 
-import { TenantId, UserId, SessionId, UserProfile, SessionContext } from './types';
+import {
+  TenantId,
+  UserId,
+  RoleId,
+  SessionId,
+  PhoneNumber,
+  UserProfile,
+  SessionContext,
+  CredentialRecord,
+  OtpChallenge,
+  RoleDefinition,
+  RefreshTokenRecord,
+  ListUsersOptions,
+  Page,
+  OutboxRecord,
+  RateLimitRecord,
+  ProviderLink,
+  IdentityRecord,
+} from './types';
+import { matchesUserFilters, paginateByCreatedAt } from './pagination';
+import { UserExistsError, UserNotFoundError } from './errors';
 
 /**
  * Storage interface for user profiles
@@ -13,6 +33,8 @@ import { TenantId, UserId, SessionId, UserProfile, SessionContext } from './type
 export interface UserStorage {
   /**
    * Create a new user profile
+   * @throws UserExistsError if the user ID, phone number or email (compared
+   *   case-insensitively) is already taken in the tenant
    */
   createUser(profile: UserProfile): Promise<UserProfile>;
 
@@ -27,24 +49,47 @@ export interface UserStorage {
   getUserByPhone(tenantId: TenantId, phone: string): Promise<UserProfile | null>;
 
   /**
-   * Get a user profile by email
+   * Get a user profile by email (case-insensitive)
    */
   getUserByEmail(tenantId: TenantId, email: string): Promise<UserProfile | null>;
 
   /**
    * Update a user profile
+   * 
+   * `userId`, `tenantId`, `phone` and `createdAt` are immutable. Changing the
+   * email re-indexes it; setting it to undefined frees the old address.
+   * @throws UserExistsError if the new email belongs to another user in the tenant
    */
   updateUser(tenantId: TenantId, userId: UserId, updates: Partial<UserProfile>): Promise<UserProfile>;
 
+  /**
+   * Move a user to a new phone number
+   * 
+   * The profile and the phone index must change in one step, so a number is
+   * never held by two users or left pointing at the old profile.
+   * @throws UserExistsError if another user in the tenant has the number
+   */
+  changePhone(tenantId: TenantId, userId: UserId, phone: PhoneNumber): Promise<UserProfile>;
+
   /**
    * Delete a user profile
    */
   deleteUser(tenantId: TenantId, userId: UserId): Promise<void>;
 
   /**
-   * List users in a tenant (with pagination)
+   * List users in a tenant, one page at a time
+   * 
+   * Results are ordered by `createdAt` (ties broken by user ID) so cursors
+   * stay stable while users are added or removed.
+   */
+  listUsers(tenantId: TenantId, options: ListUsersOptions): Promise<Page<UserProfile>>;
+
+  /**
+   * List the tenants holding a profile with this user ID
+   * 
+   * Meaningful when user IDs are global, e.g. profiles mirrored from Clerk.
    */
-  listUsers(tenantId: TenantId, limit: number, offset: number): Promise<UserProfile[]>;
+  listTenantsForUser(userId: UserId): Promise<TenantId[]>;
 }
 
 /**
@@ -61,6 +106,11 @@ export interface SessionStorage {
    */
   getSession(sessionId: SessionId): Promise<SessionContext | null>;
 
+  /**
+   * Record session activity and (for sliding sessions) a new expiry
+   */
+  touchSession(sessionId: SessionId, lastSeenAt: Date, expiresAt: Date): Promise<void>;
+
   /**
    * Delete a session (logout)
    */
@@ -68,8 +118,277 @@ export interface SessionStorage {
 
   /**
    * Delete all sessions for a user
+   * @param exceptSessionId Session to keep, e.g. the one making the request
+   */
+  deleteUserSessions(tenantId: TenantId, userId: UserId, exceptSessionId?: SessionId): Promise<void>;
+
+  /**
+   * Add a session to the deny-list (used for stateless session tokens)
+   * 
+   * Entries only need to be kept until `expiresAt`, after which the token
+   * is rejected anyway.
+   */
+  revokeSession(sessionId: SessionId, expiresAt: Date): Promise<void>;
+
+  /**
+   * Check whether a session is on the deny-list
+   */
+  isSessionRevoked(sessionId: SessionId): Promise<boolean>;
+
+  /**
+   * Revoke every session token issued to a user at or before `revokedAt`
+   * @param exceptSessionId Session whose tokens stay valid; replaced by the next revocation
+   */
+  revokeUserSessions(tenantId: TenantId, userId: UserId, revokedAt: Date, exceptSessionId?: SessionId): Promise<void>;
+
+  /**
+   * Get the time at or before which a user's session tokens are revoked
+   * @param sessionId Session being checked; null if it is the one excepted from the revocation
+   */
+  getUserSessionsRevokedAt(tenantId: TenantId, userId: UserId, sessionId?: SessionId): Promise<Date | null>;
+
+  /**
+   * Store a new refresh token
+   */
+  createRefreshToken(record: RefreshTokenRecord): Promise<RefreshTokenRecord>;
+
+  /**
+   * Get a refresh token by its hash
+   */
+  getRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null>;
+
+  /**
+   * Mark a refresh token as used
+   * 
+   * Must be atomic: returns false if the token was already used, so two
+   * concurrent rotations of the same token cannot both succeed.
+   */
+  markRefreshTokenUsed(tokenHash: string, usedAt: Date): Promise<boolean>;
+
+  /**
+   * Revoke every refresh token in a family
+   * @returns The records of the family
+   */
+  revokeRefreshTokenFamily(familyId: string, revokedAt: Date): Promise<RefreshTokenRecord[]>;
+
+  /**
+   * Revoke every refresh token issued to a user
+   * @param exceptSessionId Session whose refresh tokens are kept
+   */
+  revokeUserRefreshTokens(
+    tenantId: TenantId,
+    userId: UserId,
+    revokedAt: Date,
+    exceptSessionId?: SessionId
+  ): Promise<void>;
+}
+
+/**
+ * Storage interface for hashed credentials
+ */
+export interface CredentialStorage {
+  /**
+   * Create or replace the credential for a user
+   */
+  setCredential(record: CredentialRecord): Promise<CredentialRecord>;
+
+  /**
+   * Get the credential for a user
+   */
+  getCredential(tenantId: TenantId, userId: UserId): Promise<CredentialRecord | null>;
+
+  /**
+   * Delete the credential for a user
+   */
+  deleteCredential(tenantId: TenantId, userId: UserId): Promise<void>;
+}
+
+/**
+ * Storage interface for one-time passcode challenges
+ */
+export interface OtpStorage {
+  /**
+   * Create or replace the pending challenge for a phone number
+   */
+  saveChallenge(challenge: OtpChallenge): Promise<OtpChallenge>;
+
+  /**
+   * Get the pending challenge for a phone number
+   */
+  getChallenge(tenantId: TenantId, phone: string): Promise<OtpChallenge | null>;
+
+  /**
+   * Delete the pending challenge for a phone number
+   */
+  deleteChallenge(tenantId: TenantId, phone: string): Promise<void>;
+}
+
+/**
+ * Storage interface for role assignments per tenant membership
+ */
+export interface RoleStorage {
+  /**
+   * Assign a role to a user in a tenant (no-op if already assigned)
+   */
+  assignRole(tenantId: TenantId, userId: UserId, roleId: RoleId): Promise<void>;
+
+  /**
+   * Revoke a role from a user in a tenant (no-op if not assigned)
+   */
+  revokeRole(tenantId: TenantId, userId: UserId, roleId: RoleId): Promise<void>;
+
+  /**
+   * List the roles assigned to a user in a tenant
+   */
+  listRoles(tenantId: TenantId, userId: UserId): Promise<RoleId[]>;
+
+  /**
+   * Delete all role assignments for a user in a tenant
+   */
+  deleteUserRoles(tenantId: TenantId, userId: UserId): Promise<void>;
+
+  /**
+   * Create or replace a role definition
+   */
+  saveRoleDefinition(definition: RoleDefinition): Promise<RoleDefinition>;
+
+  /**
+   * Get a role definition
+   */
+  getRoleDefinition(tenantId: TenantId, roleId: RoleId): Promise<RoleDefinition | null>;
+
+  /**
+   * List all role definitions in a tenant
+   */
+  listRoleDefinitions(tenantId: TenantId): Promise<RoleDefinition[]>;
+
+  /**
+   * Delete a role definition
+   */
+  deleteRoleDefinition(tenantId: TenantId, roleId: RoleId): Promise<void>;
+}
+
+/**
+ * Storage interface for the domain event outbox
+ * 
+ * The service enqueues a record right after the change it describes has
+ * been written, in a separate call: the outbox is not transactional, and an
+ * event is lost if the process stops between the two writes. Once enqueued,
+ * an event survives handler failures and restarts.
+ */
+export interface OutboxStorage {
+  /**
+   * Append an event to the outbox
+   */
+  enqueue(record: OutboxRecord): Promise<void>;
+
+  /**
+   * Get an outbox record by event ID
+   */
+  getRecord(eventId: string): Promise<OutboxRecord | null>;
+
+  /**
+   * List undelivered records due for a delivery attempt, oldest first
    */
-  deleteUserSessions(tenantId: TenantId, userId: UserId): Promise<void>;
+  listDue(now: Date, limit: number): Promise<OutboxRecord[]>;
+
+  /**
+   * Mark a record delivered
+   */
+  markDelivered(eventId: string, deliveredAt: Date): Promise<void>;
+
+  /**
+   * Record a failed delivery attempt
+   * 
+   * `nextAttemptAt` of null abandons the record.
+   */
+  markFailed(eventId: string, error: string, attemptedAt: Date, nextAttemptAt: Date | null): Promise<void>;
+}
+
+/**
+ * Storage interface for failed-attempt tracking
+ * 
+ * Keys are opaque strings chosen by the caller (e.g. one per account and
+ * one per IP address). Shared backends make lockouts effective across
+ * service instances.
+ */
+export interface RateLimitStore {
+  /**
+   * Get the record for a key
+   */
+  get(key: string): Promise<RateLimitRecord | null>;
+
+  /**
+   * Count a failure, restarting the count if the previous failure is older than `windowMs`
+   */
+  recordFailure(key: string, at: Date, windowMs: number): Promise<RateLimitRecord>;
+
+  /**
+   * Block a key until the given time
+   */
+  lock(key: string, until: Date): Promise<void>;
+
+  /**
+   * Clear a key's failures and lock
+   */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Storage interface for links between local users and identity provider users
+ * 
+ * Links are scoped to a tenant: within a tenant, each local user links to at
+ * most one user per provider and vice versa.
+ */
+export interface ProviderLinkStorage {
+  /**
+   * Save a link, replacing any link of the same local user at the provider in the tenant
+   * @throws UserExistsError if the provider user is linked to another local user in the tenant
+   */
+  saveLink(link: ProviderLink): Promise<void>;
+
+  /**
+   * Get the link of a local user at a provider in a tenant
+   */
+  getLinkByUserId(provider: string, tenantId: TenantId, userId: UserId): Promise<ProviderLink | null>;
+
+  /**
+   * Get the link of a provider user in a tenant
+   */
+  getLinkByProviderUserId(provider: string, tenantId: TenantId, providerUserId: UserId): Promise<ProviderLink | null>;
+
+  /**
+   * Remove the link of a local user at a provider in a tenant
+   */
+  deleteLink(provider: string, tenantId: TenantId, userId: UserId): Promise<void>;
+}
+
+/**
+ * Storage interface for global identities
+ * 
+ * Phone numbers are unique across identities.
+ */
+export interface IdentityStorage {
+  /**
+   * Create or replace an identity
+   * @throws UserExistsError if another identity has the phone number
+   */
+  saveIdentity(identity: IdentityRecord): Promise<void>;
+
+  /**
+   * Get an identity by user ID
+   */
+  getIdentity(userId: UserId): Promise<IdentityRecord | null>;
+
+  /**
+   * Get the identity holding a phone number
+   */
+  getIdentityByPhone(phone: PhoneNumber): Promise<IdentityRecord | null>;
+
+  /**
+   * Delete an identity
+   */
+  deleteIdentity(userId: UserId): Promise<void>;
 }
 
 /**
@@ -77,17 +396,26 @@ export interface SessionStorage {
  */
 export class InMemoryUserStorage implements UserStorage {
   private users: Map<string, UserProfile> = new Map();
+  private phoneIndex: Map<string, UserId> = new Map();
+  private emailIndex: Map<string, UserId> = new Map();
+  private tenantUserIds: Map<TenantId, Set<UserId>> = new Map();
 
   private getKey(tenantId: TenantId, userId: UserId): string {
     return `${tenantId}:${userId}`;
   }
 
   private getPhoneKey(tenantId: TenantId, phone: string): string {
-    return `${tenantId}:phone:${phone}`;
+    return `${tenantId}:${phone}`;
   }
 
   private getEmailKey(tenantId: TenantId, email: string): string {
-    return `${tenantId}:email:${email.toLowerCase()}`;
+    return `${tenantId}:${email.toLowerCase()}`;
+  }
+
+  private isEmailTaken(tenantId: TenantId, email: string | undefined, userId: UserId): boolean {
+    if (!email) return false;
+    const holder = this.emailIndex.get(this.getEmailKey(tenantId, email));
+    return holder !== undefined && holder !== userId;
   }
 
   async createUser(profile: UserProfile): Promise<UserProfile> {
@@ -95,20 +423,29 @@ export class InMemoryUserStorage implements UserStorage {
     const phoneKey = this.getPhoneKey(profile.tenantId, profile.phone);
     
     if (this.users.has(key)) {
-      throw new Error(`User already exists: ${profile.userId}`);
+      throw new UserExistsError();
     }
     
-    if (this.users.has(phoneKey)) {
-      throw new Error(`Phone number already registered: ${profile.phone}`);
+    if (this.phoneIndex.has(phoneKey)) {
+      throw new UserExistsError('Phone number already registered');
+    }
+
+    if (this.isEmailTaken(profile.tenantId, profile.email, profile.userId)) {
+      throw new UserExistsError('Email address already registered');
     }
     
     this.users.set(key, profile);
-    this.users.set(phoneKey, profile);
-    
+    this.phoneIndex.set(phoneKey, profile.userId);
     if (profile.email) {
-      const emailKey = this.getEmailKey(profile.tenantId, profile.email);
-      this.users.set(emailKey, profile);
+      this.emailIndex.set(this.getEmailKey(profile.tenantId, profile.email), profile.userId);
     }
+
+    let userIds = this.tenantUserIds.get(profile.tenantId);
+    if (!userIds) {
+      userIds = new Set();
+      this.tenantUserIds.set(profile.tenantId, userIds);
+    }
+    userIds.add(profile.userId);
     
     return profile;
   }
@@ -119,13 +456,13 @@ export class InMemoryUserStorage implements UserStorage {
   }
 
   async getUserByPhone(tenantId: TenantId, phone: string): Promise<UserProfile | null> {
-    const phoneKey = this.getPhoneKey(tenantId, phone);
-    return this.users.get(phoneKey) || null;
+    const userId = this.phoneIndex.get(this.getPhoneKey(tenantId, phone));
+    return userId ? this.getUser(tenantId, userId) : null;
   }
 
   async getUserByEmail(tenantId: TenantId, email: string): Promise<UserProfile | null> {
-    const emailKey = this.getEmailKey(tenantId, email);
-    return this.users.get(emailKey) || null;
+    const userId = this.emailIndex.get(this.getEmailKey(tenantId, email));
+    return userId ? this.getUser(tenantId, userId) : null;
   }
 
   async updateUser(tenantId: TenantId, userId: UserId, updates: Partial<UserProfile>): Promise<UserProfile> {
@@ -133,7 +470,7 @@ export class InMemoryUserStorage implements UserStorage {
     const existing = this.users.get(key);
     
     if (!existing) {
-      throw new Error(`User not found: ${userId}`);
+      throw new UserNotFoundError();
     }
     
     const updated = {
@@ -145,39 +482,82 @@ export class InMemoryUserStorage implements UserStorage {
       createdAt: existing.createdAt, // Immutable
       updatedAt: new Date(),
     };
+
+    if (this.isEmailTaken(tenantId, updated.email, userId)) {
+      throw new UserExistsError('Email address already registered');
+    }
+
+    if (existing.email) {
+      this.emailIndex.delete(this.getEmailKey(tenantId, existing.email));
+    }
+    if (updated.email) {
+      this.emailIndex.set(this.getEmailKey(tenantId, updated.email), userId);
+    }
     
     this.users.set(key, updated);
     return updated;
   }
 
+  async changePhone(tenantId: TenantId, userId: UserId, phone: PhoneNumber): Promise<UserProfile> {
+    const key = this.getKey(tenantId, userId);
+    const existing = this.users.get(key);
+
+    if (!existing) {
+      throw new UserNotFoundError();
+    }
+
+    const phoneKey = this.getPhoneKey(tenantId, phone);
+    const holder = this.phoneIndex.get(phoneKey);
+    if (holder !== undefined && holder !== userId) {
+      throw new UserExistsError('Phone number already registered');
+    }
+
+    const updated = { ...existing, phone, updatedAt: new Date() };
+
+    this.phoneIndex.delete(this.getPhoneKey(tenantId, existing.phone));
+    this.phoneIndex.set(phoneKey, userId);
+    this.users.set(key, updated);
+
+    return updated;
+  }
+
   async deleteUser(tenantId: TenantId, userId: UserId): Promise<void> {
     const key = this.getKey(tenantId, userId);
     const user = this.users.get(key);
     
     if (user) {
-      const phoneKey = this.getPhoneKey(tenantId, user.phone);
       this.users.delete(key);
-      this.users.delete(phoneKey);
+      this.phoneIndex.delete(this.getPhoneKey(tenantId, user.phone));
+      this.tenantUserIds.get(tenantId)?.delete(userId);
       
       if (user.email) {
-        const emailKey = this.getEmailKey(tenantId, user.email);
-        this.users.delete(emailKey);
+        this.emailIndex.delete(this.getEmailKey(tenantId, user.email));
       }
     }
   }
 
-  async listUsers(tenantId: TenantId, limit: number, offset: number): Promise<UserProfile[]> {
-    const seen = new Set<string>();
+  async listUsers(tenantId: TenantId, options: ListUsersOptions): Promise<Page<UserProfile>> {
     const tenantUsers: UserProfile[] = [];
     
-    for (const user of this.users.values()) {
-      if (user.tenantId === tenantId && !seen.has(user.userId)) {
-        seen.add(user.userId);
+    for (const userId of this.tenantUserIds.get(tenantId) || []) {
+      const user = this.users.get(this.getKey(tenantId, userId));
+      if (user && matchesUserFilters(user, options)) {
         tenantUsers.push(user);
       }
     }
     
-    return tenantUsers.slice(offset, offset + limit);
+    return paginateByCreatedAt(tenantUsers, options, user => ({
+      createdAt: user.createdAt.getTime(),
+      id: user.userId,
+    }));
+  }
+
+  async listTenantsForUser(userId: UserId): Promise<TenantId[]> {
+    const tenantIds: TenantId[] = [];
+    for (const [tenantId, userIds] of this.tenantUserIds) {
+      if (userIds.has(userId)) tenantIds.push(tenantId);
+    }
+    return tenantIds;
   }
 }
 
@@ -186,6 +566,9 @@ export class InMemoryUserStorage implements UserStorage {
  */
 export class InMemorySessionStorage implements SessionStorage {
   private sessions: Map<SessionId, SessionContext> = new Map();
+  private revokedSessions: Map<SessionId, Date> = new Map();
+  private userRevocations: Map<string, { revokedAt: Date; exceptSessionId?: SessionId }> = new Map();
+  private refreshTokens: Map<string, RefreshTokenRecord> = new Map();
 
   async createSession(context: SessionContext): Promise<SessionContext> {
     this.sessions.set(context.sessionId, context);
@@ -196,15 +579,374 @@ export class InMemorySessionStorage implements SessionStorage {
     return this.sessions.get(sessionId) || null;
   }
 
+  async touchSession(sessionId: SessionId, lastSeenAt: Date, expiresAt: Date): Promise<void> {
+    const context = this.sessions.get(sessionId);
+    if (context) {
+      this.sessions.set(sessionId, { ...context, lastSeenAt, expiresAt });
+    }
+  }
+
   async deleteSession(sessionId: SessionId): Promise<void> {
     this.sessions.delete(sessionId);
   }
 
-  async deleteUserSessions(tenantId: TenantId, userId: UserId): Promise<void> {
+  async deleteUserSessions(tenantId: TenantId, userId: UserId, exceptSessionId?: SessionId): Promise<void> {
     for (const [sessionId, context] of this.sessions.entries()) {
-      if (context.tenantId === tenantId && context.userId === userId) {
+      if (context.tenantId === tenantId && context.userId === userId && sessionId !== exceptSessionId) {
         this.sessions.delete(sessionId);
       }
     }
   }
+
+  async revokeSession(sessionId: SessionId, expiresAt: Date): Promise<void> {
+    this.revokedSessions.set(sessionId, expiresAt);
+  }
+
+  async isSessionRevoked(sessionId: SessionId): Promise<boolean> {
+    const expiresAt = this.revokedSessions.get(sessionId);
+    if (!expiresAt) return false;
+
+    if (expiresAt < new Date()) {
+      this.revokedSessions.delete(sessionId);
+      return false;
+    }
+
+    return true;
+  }
+
+  async revokeUserSessions(
+    tenantId: TenantId,
+    userId: UserId,
+    revokedAt: Date,
+    exceptSessionId?: SessionId
+  ): Promise<void> {
+    this.userRevocations.set(`${tenantId}:${userId}`, { revokedAt, exceptSessionId });
+  }
+
+  async getUserSessionsRevokedAt(tenantId: TenantId, userId: UserId, sessionId?: SessionId): Promise<Date | null> {
+    const revocation = this.userRevocations.get(`${tenantId}:${userId}`);
+    if (!revocation || (sessionId && sessionId === revocation.exceptSessionId)) return null;
+    return revocation.revokedAt;
+  }
+
+  async createRefreshToken(record: RefreshTokenRecord): Promise<RefreshTokenRecord> {
+    this.refreshTokens.set(record.tokenHash, record);
+    return record;
+  }
+
+  async getRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    return this.refreshTokens.get(tokenHash) || null;
+  }
+
+  async markRefreshTokenUsed(tokenHash: string, usedAt: Date): Promise<boolean> {
+    const record = this.refreshTokens.get(tokenHash);
+    if (!record || record.usedAt) return false;
+
+    this.refreshTokens.set(tokenHash, { ...record, usedAt });
+    return true;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string, revokedAt: Date): Promise<RefreshTokenRecord[]> {
+    const family: RefreshTokenRecord[] = [];
+
+    for (const [tokenHash, record] of this.refreshTokens.entries()) {
+      if (record.familyId === familyId) {
+        const revoked = { ...record, revokedAt: record.revokedAt || revokedAt };
+        this.refreshTokens.set(tokenHash, revoked);
+        family.push(revoked);
+      }
+    }
+
+    return family;
+  }
+
+  async revokeUserRefreshTokens(
+    tenantId: TenantId,
+    userId: UserId,
+    revokedAt: Date,
+    exceptSessionId?: SessionId
+  ): Promise<void> {
+    for (const [tokenHash, record] of this.refreshTokens.entries()) {
+      const kept = record.sessionId === exceptSessionId;
+      if (record.tenantId === tenantId && record.userId === userId && !record.revokedAt && !kept) {
+        this.refreshTokens.set(tokenHash, { ...record, revokedAt });
+      }
+    }
+  }
+}
+
+/**
+ * In-memory implementation for credentials
+ */
+export class InMemoryCredentialStorage implements CredentialStorage {
+  private credentials: Map<string, CredentialRecord> = new Map();
+
+  private getKey(tenantId: TenantId, userId: UserId): string {
+    return `${tenantId}:${userId}`;
+  }
+
+  async setCredential(record: CredentialRecord): Promise<CredentialRecord> {
+    this.credentials.set(this.getKey(record.tenantId, record.userId), record);
+    return record;
+  }
+
+  async getCredential(tenantId: TenantId, userId: UserId): Promise<CredentialRecord | null> {
+    return this.credentials.get(this.getKey(tenantId, userId)) || null;
+  }
+
+  async deleteCredential(tenantId: TenantId, userId: UserId): Promise<void> {
+    this.credentials.delete(this.getKey(tenantId, userId));
+  }
+}
+
+/**
+ * In-memory implementation for OTP challenges
+ */
+export class InMemoryOtpStorage implements OtpStorage {
+  private challenges: Map<string, OtpChallenge> = new Map();
+
+  private getKey(tenantId: TenantId, phone: string): string {
+    return `${tenantId}:${phone}`;
+  }
+
+  async saveChallenge(challenge: OtpChallenge): Promise<OtpChallenge> {
+    this.challenges.set(this.getKey(challenge.tenantId, challenge.phone), challenge);
+    return challenge;
+  }
+
+  async getChallenge(tenantId: TenantId, phone: string): Promise<OtpChallenge | null> {
+    return this.challenges.get(this.getKey(tenantId, phone)) || null;
+  }
+
+  async deleteChallenge(tenantId: TenantId, phone: string): Promise<void> {
+    this.challenges.delete(this.getKey(tenantId, phone));
+  }
+}
+
+/**
+ * In-memory implementation for role assignments
+ */
+export class InMemoryRoleStorage implements RoleStorage {
+  private assignments: Map<string, Set<RoleId>> = new Map();
+  private definitions: Map<string, RoleDefinition> = new Map();
+
+  private getKey(tenantId: TenantId, userId: UserId): string {
+    return `${tenantId}:${userId}`;
+  }
+
+  private getDefinitionKey(tenantId: TenantId, roleId: RoleId): string {
+    return `${tenantId}:role:${roleId}`;
+  }
+
+  async assignRole(tenantId: TenantId, userId: UserId, roleId: RoleId): Promise<void> {
+    const key = this.getKey(tenantId, userId);
+    if (!this.assignments.has(key)) {
+      this.assignments.set(key, new Set());
+    }
+    this.assignments.get(key)!.add(roleId);
+  }
+
+  async revokeRole(tenantId: TenantId, userId: UserId, roleId: RoleId): Promise<void> {
+    this.assignments.get(this.getKey(tenantId, userId))?.delete(roleId);
+  }
+
+  async listRoles(tenantId: TenantId, userId: UserId): Promise<RoleId[]> {
+    return Array.from(this.assignments.get(this.getKey(tenantId, userId)) || []);
+  }
+
+  async deleteUserRoles(tenantId: TenantId, userId: UserId): Promise<void> {
+    this.assignments.delete(this.getKey(tenantId, userId));
+  }
+
+  async saveRoleDefinition(definition: RoleDefinition): Promise<RoleDefinition> {
+    this.definitions.set(this.getDefinitionKey(definition.tenantId, definition.roleId), definition);
+    return definition;
+  }
+
+  async getRoleDefinition(tenantId: TenantId, roleId: RoleId): Promise<RoleDefinition | null> {
+    return this.definitions.get(this.getDefinitionKey(tenantId, roleId)) || null;
+  }
+
+  async listRoleDefinitions(tenantId: TenantId): Promise<RoleDefinition[]> {
+    return Array.from(this.definitions.values()).filter(d => d.tenantId === tenantId);
+  }
+
+  async deleteRoleDefinition(tenantId: TenantId, roleId: RoleId): Promise<void> {
+    this.definitions.delete(this.getDefinitionKey(tenantId, roleId));
+  }
+}
+
+/**
+ * In-memory implementation for the domain event outbox
+ */
+export class InMemoryOutboxStorage implements OutboxStorage {
+  private records: Map<string, OutboxRecord> = new Map();
+
+  async enqueue(record: OutboxRecord): Promise<void> {
+    this.records.set(record.event.id, { ...record });
+  }
+
+  async getRecord(eventId: string): Promise<OutboxRecord | null> {
+    const record = this.records.get(eventId);
+    return record ? { ...record } : null;
+  }
+
+  async listDue(now: Date, limit: number): Promise<OutboxRecord[]> {
+    const due: OutboxRecord[] = [];
+
+    for (const record of this.records.values()) {
+      if (due.length >= limit) break;
+      if (!record.deliveredAt && !record.abandonedAt && record.nextAttemptAt <= now) {
+        due.push({ ...record });
+      }
+    }
+
+    return due;
+  }
+
+  async markDelivered(eventId: string, deliveredAt: Date): Promise<void> {
+    const record = this.records.get(eventId);
+    if (record) {
+      this.records.set(eventId, { ...record, attempts: record.attempts + 1, deliveredAt, lastError: undefined });
+    }
+  }
+
+  async markFailed(eventId: string, error: string, attemptedAt: Date, nextAttemptAt: Date | null): Promise<void> {
+    const record = this.records.get(eventId);
+    if (!record) return;
+
+    this.records.set(eventId, {
+      ...record,
+      attempts: record.attempts + 1,
+      lastError: error,
+      nextAttemptAt: nextAttemptAt || record.nextAttemptAt,
+      abandonedAt: nextAttemptAt ? undefined : attemptedAt,
+    });
+  }
+}
+
+/**
+ * In-memory implementation for failed-attempt tracking
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private records: Map<string, RateLimitRecord> = new Map();
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    const record = this.records.get(key);
+    return record ? { ...record } : null;
+  }
+
+  async recordFailure(key: string, at: Date, windowMs: number): Promise<RateLimitRecord> {
+    const existing = this.records.get(key);
+    const withinWindow = existing && at.getTime() - existing.lastFailureAt.getTime() <= windowMs;
+
+    const record: RateLimitRecord = {
+      failures: withinWindow ? existing.failures + 1 : 1,
+      lastFailureAt: at,
+      lockedUntil: existing?.lockedUntil,
+    };
+
+    this.records.set(key, record);
+    return { ...record };
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    const existing = this.records.get(key);
+    this.records.set(key, {
+      failures: existing?.failures ?? 0,
+      lastFailureAt: existing?.lastFailureAt ?? until,
+      lockedUntil: until,
+    });
+  }
+
+  async reset(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * In-memory implementation for provider links
+ */
+export class InMemoryProviderLinkStorage implements ProviderLinkStorage {
+  private links: Map<string, ProviderLink> = new Map();
+  private providerIndex: Map<string, UserId> = new Map();
+
+  private getKey(provider: string, tenantId: TenantId, userId: UserId): string {
+    return `${provider}:${tenantId}:${userId}`;
+  }
+
+  async saveLink(link: ProviderLink): Promise<void> {
+    const linkedUserId = this.providerIndex.get(this.getKey(link.provider, link.tenantId, link.providerUserId));
+    if (linkedUserId && linkedUserId !== link.userId) {
+      throw new UserExistsError('Provider user already linked');
+    }
+
+    await this.deleteLink(link.provider, link.tenantId, link.userId);
+    this.links.set(this.getKey(link.provider, link.tenantId, link.userId), { ...link });
+    this.providerIndex.set(this.getKey(link.provider, link.tenantId, link.providerUserId), link.userId);
+  }
+
+  async getLinkByUserId(provider: string, tenantId: TenantId, userId: UserId): Promise<ProviderLink | null> {
+    const link = this.links.get(this.getKey(provider, tenantId, userId));
+    return link ? { ...link } : null;
+  }
+
+  async getLinkByProviderUserId(
+    provider: string,
+    tenantId: TenantId,
+    providerUserId: UserId
+  ): Promise<ProviderLink | null> {
+    const userId = this.providerIndex.get(this.getKey(provider, tenantId, providerUserId));
+    return userId ? this.getLinkByUserId(provider, tenantId, userId) : null;
+  }
+
+  async deleteLink(provider: string, tenantId: TenantId, userId: UserId): Promise<void> {
+    const key = this.getKey(provider, tenantId, userId);
+    const existing = this.links.get(key);
+    if (existing) {
+      this.providerIndex.delete(this.getKey(provider, tenantId, existing.providerUserId));
+      this.links.delete(key);
+    }
+  }
+}
+
+/**
+ * In-memory implementation for global identities
+ */
+export class InMemoryIdentityStorage implements IdentityStorage {
+  private identities: Map<UserId, IdentityRecord> = new Map();
+  private phoneIndex: Map<PhoneNumber, UserId> = new Map();
+
+  async saveIdentity(identity: IdentityRecord): Promise<void> {
+    const holder = this.phoneIndex.get(identity.phone);
+    if (holder !== undefined && holder !== identity.userId) {
+      throw new UserExistsError('Phone number already registered');
+    }
+
+    await this.deleteIdentity(identity.userId);
+    this.identities.set(identity.userId, this.copy(identity));
+    this.phoneIndex.set(identity.phone, identity.userId);
+  }
+
+  async getIdentity(userId: UserId): Promise<IdentityRecord | null> {
+    const identity = this.identities.get(userId);
+    return identity ? this.copy(identity) : null;
+  }
+
+  async getIdentityByPhone(phone: PhoneNumber): Promise<IdentityRecord | null> {
+    const userId = this.phoneIndex.get(phone);
+    return userId ? this.getIdentity(userId) : null;
+  }
+
+  async deleteIdentity(userId: UserId): Promise<void> {
+    const existing = this.identities.get(userId);
+    if (existing) {
+      this.phoneIndex.delete(existing.phone);
+      this.identities.delete(userId);
+    }
+  }
+
+  private copy(identity: IdentityRecord): IdentityRecord {
+    return { ...identity, memberships: identity.memberships.map(membership => ({ ...membership })) };
+  }
 }
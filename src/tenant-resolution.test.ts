@@ -0,0 +1,59 @@
+import {
+  resolveSessionTenant,
+  personalTenantId,
+  isPersonalTenant,
+  TenantResolutionPolicy,
+} from './tenant-resolution';
+import { ClerkSessionClaims } from './clerk-adapter';
+
+const claims: ClerkSessionClaims = { sub: 'user_123', sid: 'session_456', iat: 1700000000, exp: 1700003600 };
+
+describe('resolveSessionTenant', () => {
+  it('should use the active organization under every policy', async () => {
+    const policies: TenantResolutionPolicy[] = [
+      { mode: 'reject' },
+      { mode: 'personal' },
+      { mode: 'slug', resolveTenant: () => 'org_other' },
+    ];
+
+    for (const policy of policies) {
+      expect(await resolveSessionTenant({ ...claims, org_id: 'org_1' }, policy)).toBe('org_1');
+    }
+  });
+
+  it('should reject sessions without an organization by default', async () => {
+    expect(await resolveSessionTenant(claims)).toBeNull();
+  });
+
+  it('should derive a personal workspace per user', async () => {
+    expect(await resolveSessionTenant(claims, { mode: 'personal' })).toBe('personal_user_123');
+    expect(await resolveSessionTenant(claims, { mode: 'personal', prefix: 'me:' })).toBe('me:user_123');
+  });
+
+  it('should map org_slug through the resolver', async () => {
+    const policy: TenantResolutionPolicy = {
+      mode: 'slug',
+      resolveTenant: slug => (slug === 'acme' ? 'org_acme' : null),
+    };
+
+    expect(await resolveSessionTenant({ ...claims, org_slug: 'acme' }, policy)).toBe('org_acme');
+    expect(await resolveSessionTenant({ ...claims, org_slug: 'unknown' }, policy)).toBeNull();
+    expect(await resolveSessionTenant(claims, policy)).toBeNull();
+  });
+
+  it('should prefer a per-request slug over org_slug', async () => {
+    const policy: TenantResolutionPolicy = { mode: 'slug', resolveTenant: slug => `org_${slug}` };
+
+    expect(await resolveSessionTenant({ ...claims, org_slug: 'acme' }, policy, { tenantSlug: 'globex' })).toBe('org_globex');
+  });
+});
+
+describe('isPersonalTenant', () => {
+  it('should only match the user\'s own workspace under the personal policy', () => {
+    const tenantId = personalTenantId('user_123');
+
+    expect(isPersonalTenant({ mode: 'personal' }, tenantId, 'user_123')).toBe(true);
+    expect(isPersonalTenant({ mode: 'personal' }, tenantId, 'user_124')).toBe(false);
+    expect(isPersonalTenant({ mode: 'reject' }, tenantId, 'user_123')).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tenant resolution for sessions without an active organization
+ *
+ * A Clerk session only names a tenant when the user has an active
+ * organization (`org_id`). Sessions without one are never placed in a shared
+ * tenant; the configured policy decides whether they are rejected, scoped to
+ * a per-user personal workspace, or mapped to a tenant through a slug: one
+ * the application derives from the request (for example its host) and passes
+ * per request, or else the `org_slug` claim. A slug can name any tenant, so
+ * providers must check that the user is a member of the resolved tenant.
+ */
+
+import { TenantId, UserId } from './types';
+import { ClerkSessionClaims } from './clerk-adapter';
+
+/**
+ * How to resolve the tenant of a session without an `org_id`
+ */
+export type TenantResolutionPolicy =
+  | { mode: 'reject' }
+  | {
+      mode: 'personal';
+      /**
+       * Prefix of personal workspace tenant IDs (default `personal_`)
+       */
+      prefix?: string;
+    }
+  | {
+      mode: 'slug';
+      /**
+       * Map an `org_slug` claim to a tenant ID, or null if the slug is unknown
+       */
+      resolveTenant: (slug: string) => TenantId | null | Promise<TenantId | null>;
+    };
+
+/**
+ * Per-request input to tenant resolution
+ */
+export interface TenantRequest {
+  /**
+   * Tenant slug derived from the request (e.g. its host); in slug mode it
+   * takes precedence over the `org_slug` claim
+   */
+  tenantSlug?: string;
+}
+
+/**
+ * Default policy: sessions without an active organization are rejected
+ */
+export const DEFAULT_TENANT_RESOLUTION_POLICY: TenantResolutionPolicy = { mode: 'reject' };
+
+/**
+ * Default prefix of personal workspace tenant IDs
+ */
+export const DEFAULT_PERSONAL_TENANT_PREFIX = 'personal_';
+
+/**
+ * Tenant ID of a user's personal workspace
+ */
+export function personalTenantId(userId: UserId, prefix = DEFAULT_PERSONAL_TENANT_PREFIX): TenantId {
+  return `${prefix}${userId}`;
+}
+
+/**
+ * Check whether a tenant is the user's personal workspace under a policy
+ */
+export function isPersonalTenant(policy: TenantResolutionPolicy, tenantId: TenantId, userId: UserId): boolean {
+  return policy.mode === 'personal' && tenantId === personalTenantId(userId, policy.prefix);
+}
+
+/**
+ * Resolve the tenant of a session
+ *
+ * An active organization always wins; the policy only applies without one.
+ * Membership in a tenant resolved from a slug is not checked here.
+ * @returns The tenant ID, or null if the session has no active tenant
+ */
+export async function resolveSessionTenant(
+  claims: ClerkSessionClaims,
+  policy: TenantResolutionPolicy = DEFAULT_TENANT_RESOLUTION_POLICY,
+  request: TenantRequest = {}
+): Promise<TenantId | null> {
+  if (claims.org_id) return claims.org_id;
+
+  switch (policy.mode) {
+    case 'personal':
+      return personalTenantId(claims.sub, policy.prefix);
+    case 'slug': {
+      const slug = request.tenantSlug || claims.org_slug;
+      return slug ? (await policy.resolveTenant(slug)) || null : null;
+    }
+    default:
+      return null;
+  }
+}
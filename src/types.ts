@@ -17,15 +17,25 @@ export type UserId = string;
  */
 export type RoleId = string;
 
+/**
+ * Permission string, colon-separated segments with optional wildcards (e.g. orders:*)
+ */
+export type Permission = string;
+
 /**
  * Session identifier
  */
 export type SessionId = string;
 
+/**
+ * Phone number in E.164 format (e.g., +2348012345678)
+ */
+export type PhoneNumber = string;
+
 /**
  * Nigerian phone number in E.164 format (+234...)
  */
-export type NigerianPhone = string;
+export type NigerianPhone = PhoneNumber;
 
 /**
  * User profile data
@@ -33,14 +43,60 @@ export type NigerianPhone = string;
 export interface UserProfile {
   userId: UserId;
   tenantId: TenantId;
-  phone: NigerianPhone;
+  phone: PhoneNumber;
   email?: string;
+  /**
+   * Whether the user proved control of `email`; reset when the email changes
+   */
+  emailVerified?: boolean;
+  /**
+   * Whether the user proved control of `phone`, e.g. by an OTP login
+   */
+  phoneVerified?: boolean;
   displayName?: string;
   metadata?: Record<string, unknown>;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * A tenant a person belongs to, as recorded on their identity
+ */
+export interface IdentityMembership {
+  tenantId: TenantId;
+  joinedAt: Date;
+}
+
+/**
+ * A user's membership in one tenant
+ */
+export interface TenantMembership extends IdentityMembership {
+  roles: RoleId[];
+}
+
+/**
+ * Stored record of a person across tenants
+ * 
+ * Profiles in different tenants that share the identity's user ID belong to
+ * the same person; each profile is one membership. A profile created with
+ * the identity's phone number in another tenant joins the identity.
+ */
+export interface IdentityRecord {
+  userId: UserId;
+  phone: PhoneNumber;
+  memberships: IdentityMembership[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A person across tenants, with their roles in each tenant
+ */
+export interface GlobalIdentity {
+  userId: UserId;
+  memberships: TenantMembership[];
+}
+
 /**
  * Authentication result
  */
@@ -50,6 +106,16 @@ export interface AuthResult {
   sessionId: SessionId;
   roles: RoleId[];
   expiresAt: Date;
+  /**
+   * Signed session token, present when stateless session tokens are enabled.
+   * Pass this (rather than sessionId) to validateSession.
+   */
+  token?: string;
+  /**
+   * Refresh token, present when refresh tokens are enabled
+   */
+  refreshToken?: string;
+  refreshExpiresAt?: Date;
 }
 
 /**
@@ -60,8 +126,10 @@ export interface SessionContext {
   userId: UserId;
   tenantId: TenantId;
   roles: RoleId[];
+  permissions?: Permission[];
   issuedAt: Date;
   expiresAt: Date;
+  lastSeenAt?: Date;
 }
 
 /**
@@ -79,7 +147,7 @@ export interface IdentityResolution {
  */
 export interface CreateUserInput {
   tenantId: TenantId;
-  phone: NigerianPhone;
+  phone: PhoneNumber;
   email?: string;
   displayName?: string;
   roles?: RoleId[];
@@ -100,7 +168,18 @@ export interface UpdateUserInput {
  */
 export interface AuthenticateInput {
   tenantId: TenantId;
-  phone: NigerianPhone;
+  phone: PhoneNumber;
+  credential: string;
+}
+
+/**
+ * Tenant switch input
+ */
+export interface SwitchTenantInput {
+  tenantId: TenantId;
+  /**
+   * The user's credential in the target tenant
+   */
   credential: string;
 }
 
@@ -111,6 +190,10 @@ export interface SessionValidation {
   valid: boolean;
   context?: SessionContext;
   reason?: string;
+  /**
+   * Set when the session is authentic but has no active tenant
+   */
+  code?: 'NO_ACTIVE_TENANT';
 }
 
 /**
@@ -120,5 +203,200 @@ export interface TenantContext {
   tenantId: TenantId;
   userId: UserId;
   roles: RoleId[];
+  permissions: Permission[];
   sessionId: SessionId;
 }
+
+/**
+ * Stored credential - only the encoded hash is ever persisted
+ */
+export interface CredentialRecord {
+  tenantId: TenantId;
+  userId: UserId;
+  hash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Pending one-time passcode challenge - only a salted hash of the code is stored
+ */
+export interface OtpChallenge {
+  tenantId: TenantId;
+  phone: PhoneNumber;
+  /**
+   * Set for phone-change challenges: the user the number will move to.
+   * Such challenges cannot be used to log in.
+   */
+  userId?: UserId;
+  codeHash: string;
+  salt: string;
+  attempts: number;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Result of requesting a one-time passcode
+ */
+export interface OtpRequestResult {
+  expiresAt: Date;
+  resendAvailableAt: Date;
+}
+
+/**
+ * Role definition - the permissions a role grants within a tenant
+ */
+export interface RoleDefinition {
+  tenantId: TenantId;
+  roleId: RoleId;
+  permissions: Permission[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Stored refresh token - only a hash of the token is persisted
+ * 
+ * Every rotation creates a new record in the same family; a family is the
+ * chain of refresh tokens descending from one login.
+ */
+export interface RefreshTokenRecord {
+  tokenHash: string;
+  familyId: string;
+  tenantId: TenantId;
+  userId: UserId;
+  sessionId: SessionId;
+  issuedAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * Sort direction for user listings (by `createdAt`, ties broken by user ID)
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * User listing options - filters are combined with AND
+ */
+export interface ListUsersOptions {
+  limit?: number;
+  cursor?: string;
+  order?: SortOrder;
+  displayNamePrefix?: string;
+  emailDomain?: string;
+  metadataKey?: string;
+}
+
+/**
+ * One page of a cursor-paginated listing
+ * 
+ * `nextCursor` is omitted on the last page. `total` is the number of matching
+ * items across all pages, when the backend can report it cheaply.
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+  total?: number;
+}
+
+/**
+ * Why sessions were revoked
+ */
+export type SessionRevocationReason =
+  | 'logout'
+  | 'logout_all'
+  | 'user_deleted'
+  | 'credential_reset'
+  | 'phone_changed'
+  | 'membership_removed'
+  | 'refresh_token_revoked'
+  | 'refresh_token_reuse';
+
+/**
+ * Payloads of the domain events emitted by the identity service
+ * 
+ * Session events never carry session IDs or tokens: opaque session IDs are
+ * bearer secrets, and events may be persisted in an outbox.
+ */
+export interface IdentityEventMap {
+  'user.created': { tenantId: TenantId; userId: UserId; profile: UserProfile };
+  'user.updated': { tenantId: TenantId; userId: UserId; profile: UserProfile };
+  'user.deleted': { tenantId: TenantId; userId: UserId };
+  'membership.added': { tenantId: TenantId; userId: UserId; profile: UserProfile; roles: RoleId[] };
+  'membership.removed': { tenantId: TenantId; userId: UserId };
+  'session.created': { tenantId: TenantId; userId: UserId; roles: RoleId[]; expiresAt: Date };
+  'session.revoked': {
+    tenantId: TenantId;
+    userId: UserId;
+    /**
+     * `session` for a single session (or refresh token family), `user` for all of a user's sessions
+     */
+    scope: 'session' | 'user';
+    reason: SessionRevocationReason;
+  };
+}
+
+/**
+ * Domain event type
+ */
+export type IdentityEventType = keyof IdentityEventMap;
+
+/**
+ * Domain event envelope
+ */
+export interface IdentityEvent<K extends IdentityEventType = IdentityEventType> {
+  id: string;
+  type: K;
+  occurredAt: Date;
+  payload: IdentityEventMap[K];
+}
+
+/**
+ * Outbox entry - an event awaiting (or past) delivery to subscribers
+ */
+export interface OutboxRecord {
+  event: IdentityEvent;
+  attempts: number;
+  nextAttemptAt: Date;
+  deliveredAt?: Date;
+  /**
+   * Set when delivery was abandoned after the maximum number of attempts
+   */
+  abandonedAt?: Date;
+  lastError?: string;
+}
+
+/**
+ * Failed-attempt counter for one rate-limited key (an account or an IP address)
+ */
+export interface RateLimitRecord {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+}
+
+/**
+ * Link between a local user and the same person's user at an external identity provider
+ *
+ * Links are made per tenant and only apply to sessions in that tenant.
+ */
+export interface ProviderLink {
+  /**
+   * Provider name (IdentityProvider.name)
+   */
+  provider: string;
+  /**
+   * Tenant whose profile was matched
+   */
+  tenantId: TenantId;
+  providerUserId: UserId;
+  userId: UserId;
+  /**
+   * Identifier the accounts were matched on
+   */
+  matchedBy: 'phone' | 'email';
+  linkedAt: Date;
+}
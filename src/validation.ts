@@ -3,7 +3,9 @@
  */
 
 import { z } from 'zod';
-import { isValidNigerianPhone } from './phone-utils';
+import { isValidNigerianPhone, isValidPhone } from './phone-utils';
+import { isNigerianMobilePhone } from './nigerian-networks';
+import { ValidationError } from './errors';
 
 /**
  * Tenant ID validation
@@ -20,18 +22,67 @@ export const UserIdSchema = z.string().min(1).max(255);
  */
 export const RoleIdSchema = z.string().min(1).max(255);
 
+/**
+ * Session token validation - opaque session IDs or signed JWTs
+ */
+export const SessionTokenSchema = z.string().min(1).max(8192);
+
+/**
+ * Permission validation - colon-separated segments, each a name or `*`
+ */
+export const PermissionSchema = z.string().max(255).regex(/^(\*|[A-Za-z0-9_.-]+)(:(\*|[A-Za-z0-9_.-]+))*$/, {
+  message: 'Invalid permission format',
+});
+
 /**
  * Session ID validation
  */
 export const SessionIdSchema = z.string().min(1).max(255);
 
 /**
- * Nigerian phone validation
+ * Phone validation against every registered numbering plan
+ *
+ * National-format input is accepted if it is valid in any country; the
+ * service then normalizes it in the tenant's default country.
  */
-export const NigerianPhoneSchema = z.string().refine(isValidNigerianPhone, {
-  message: 'Invalid Nigerian phone number',
+export const PhoneSchema = z.string().refine(input => isValidPhone(input), {
+  message: 'Invalid phone number',
 });
 
+/**
+ * Nigerian phone validation options
+ */
+export interface NigerianPhoneSchemaOptions {
+  /**
+   * Only accept numbers in NCC-allocated mobile ranges
+   */
+  strict?: boolean;
+}
+
+/**
+ * Build a Nigerian phone validator
+ */
+export function createNigerianPhoneSchema(options: NigerianPhoneSchemaOptions = {}): z.ZodType<string> {
+  if (options.strict) {
+    return z.string().refine(isNigerianMobilePhone, {
+      message: 'Not a Nigerian mobile number',
+    });
+  }
+  return z.string().refine(isValidNigerianPhone, {
+    message: 'Invalid Nigerian phone number',
+  });
+}
+
+/**
+ * Nigerian phone validation
+ */
+export const NigerianPhoneSchema = createNigerianPhoneSchema();
+
+/**
+ * Credential validation (applies when setting a credential, not when authenticating)
+ */
+export const CredentialSchema = z.string().min(8).max(1024);
+
 /**
  * Email validation
  */
@@ -52,7 +103,7 @@ export const MetadataSchema = z.record(z.unknown()).optional();
  */
 export const CreateUserInputSchema = z.object({
   tenantId: TenantIdSchema,
-  phone: NigerianPhoneSchema,
+  phone: PhoneSchema,
   email: EmailSchema.optional(),
   displayName: DisplayNameSchema.optional(),
   roles: z.array(RoleIdSchema).optional(),
@@ -73,13 +124,47 @@ export const UpdateUserInputSchema = z.object({
  */
 export const AuthenticateInputSchema = z.object({
   tenantId: TenantIdSchema,
-  phone: NigerianPhoneSchema,
+  phone: PhoneSchema,
+  credential: z.string().min(1),
+});
+
+/**
+ * Tenant switch input validation
+ */
+export const SwitchTenantInputSchema = z.object({
+  tenantId: TenantIdSchema,
   credential: z.string().min(1),
 });
 
+/**
+ * List users options validation
+ */
+export const ListUsersOptionsSchema = z.object({
+  limit: z.number().int().min(1).max(1000).optional(),
+  cursor: z.string().min(1).max(1024).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  displayNamePrefix: z.string().min(1).max(255).optional(),
+  emailDomain: z.string().min(1).max(255).optional(),
+  metadataKey: z.string().min(1).max(255).optional(),
+});
+
+/**
+ * One-time passcode validation
+ */
+export const OtpCodeSchema = z.string().regex(/^\d{4,10}$/, {
+  message: 'Invalid code format',
+});
+
 /**
  * Validate input against a schema
+ * @throws ValidationError listing every failed rule
  */
 export function validate<T>(schema: z.ZodSchema<T>, input: unknown): T {
-  return schema.parse(input);
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new ValidationError(
+      result.error.issues.map(issue => ({ path: issue.path, message: issue.message }))
+    );
+  }
+  return result.data;
 }